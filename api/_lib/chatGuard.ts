@@ -0,0 +1,79 @@
+import { ChatTurn } from './llm';
+
+export const MAX_BODY_MESSAGES = 200;
+export const MAX_MESSAGE_CHARS = 2000;
+// Only the most recent part of the chat is sent to the model
+export const MAX_HISTORY_TURNS = 30;
+export const MAX_HISTORY_TOKENS = 3000;
+export const MAX_OUTPUT_TOKENS = 150;
+
+// Per client: requests per minute, and model tokens (prompt + reply) per hour
+export const CHAT_REQUEST_LIMIT = { limit: 20, windowMs: 60 * 1000 };
+export const CHAT_TOKEN_LIMIT = { limit: 60000, windowMs: 60 * 60 * 1000 };
+
+export interface ChatRequest {
+  messages: { role: 'me' | 'stranger'; content: string }[];
+  personaToken: string; // Checked by the handler (see verifyPersonaToken)
+}
+
+export type ChatValidation =
+  | { ok: true; value: ChatRequest }
+  | { ok: false; error: string };
+
+export const validateChatBody = (body: unknown): ChatValidation => {
+  if (!body || typeof body !== 'object') return { ok: false, error: 'Body must be a JSON object' };
+  const { messages, personaToken } = body as Record<string, unknown>;
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { ok: false, error: '`messages` must be a non-empty array' };
+  }
+  if (messages.length > MAX_BODY_MESSAGES) {
+    return { ok: false, error: `\`messages\` may contain at most ${MAX_BODY_MESSAGES} entries` };
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i];
+    if (!m || typeof m !== 'object') return { ok: false, error: `messages[${i}] must be an object` };
+    if (m.role !== 'me' && m.role !== 'stranger') {
+      return { ok: false, error: `messages[${i}].role must be "me" or "stranger"` };
+    }
+    if (typeof m.content !== 'string') return { ok: false, error: `messages[${i}].content must be a string` };
+    if (m.content.length > MAX_MESSAGE_CHARS) {
+      return { ok: false, error: `messages[${i}].content exceeds ${MAX_MESSAGE_CHARS} characters` };
+    }
+  }
+
+  if (messages[messages.length - 1].role !== 'me') {
+    return { ok: false, error: 'The last message must be from "me"' };
+  }
+
+  if (typeof personaToken !== 'string' || !personaToken) {
+    return { ok: false, error: 'A `personaToken` from /api/persona is required' };
+  }
+
+  return { ok: true, value: { messages, personaToken } };
+};
+
+// Rough estimate (~4 characters per token); good enough for budgeting
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Keeps the newest turns that fit both limits. The history always starts
+// with a user turn and always contains the latest message.
+export const truncateHistory = (
+  turns: ChatTurn[],
+  maxTurns = MAX_HISTORY_TURNS,
+  maxTokens = MAX_HISTORY_TOKENS
+): ChatTurn[] => {
+  const kept: ChatTurn[] = [];
+  let tokens = 0;
+
+  for (let i = turns.length - 1; i >= 0 && kept.length < maxTurns; i--) {
+    const cost = estimateTokens(turns[i].text);
+    if (kept.length > 0 && tokens + cost > maxTokens) break;
+    kept.unshift(turns[i]);
+    tokens += cost;
+  }
+
+  while (kept.length > 1 && kept[0].role !== 'user') kept.shift();
+  return kept;
+};
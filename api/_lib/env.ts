@@ -0,0 +1,4 @@
+// Local development (`vite`, `vercel dev`) may fall back to per-instance state and secrets;
+// preview and production deployments have to be configured
+export const isLocalDev = (env: Record<string, string | undefined> = process.env) =>
+  !env.VERCEL_ENV || env.VERCEL_ENV === 'development';
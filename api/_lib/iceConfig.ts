@@ -0,0 +1,61 @@
+// ICE servers for WebRTC, from the environment:
+//   STUN_URLS             comma-separated stun: URLs (defaults to Google's public servers)
+//   TURN_URLS             comma-separated turn:/turns: URLs, e.g. "turn:turn.example.com:3478?transport=udp"
+//   TURN_SECRET           shared secret of the TURN server's REST API (coturn `use-auth-secret`)
+//   TURN_TTL_SECONDS      how long issued credentials stay valid (default 600, at most 3600)
+//   ICE_TRANSPORT_POLICY  "relay" forces every connection through TURN (useful for testing)
+
+export interface IceServer {
+  urls: string | string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfigResponse {
+  iceServers: IceServer[];
+  iceTransportPolicy: 'all' | 'relay';
+  expiresAt: number | null; // When the TURN credentials stop working (ms), null without TURN
+}
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302', 'stun:global.stun.twilio.com:3478'];
+// Short-lived, so a leaked credential is soon useless; clients refresh well before expiry
+const DEFAULT_TTL_SECONDS = 600;
+const MAX_TTL_SECONDS = 3600;
+
+// Per client: each response mints a relay credential, so issuing them is rate limited. A client
+// needs one at startup and one per refresh; the rest is headroom for diagnostics and shared IPs.
+export const TURN_REQUEST_LIMIT = { limit: 30, windowMs: 10 * 60 * 1000 };
+
+const splitList = (value?: string) => (value || '').split(',').map(v => v.trim()).filter(Boolean);
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+// Time-limited credentials in the TURN REST API format: the username is "<expiry>:<label>"
+// and the password is base64(HMAC-SHA1(secret, username)), which the TURN server can check
+// without a database.
+export const createTurnCredential = async (secret: string, ttlSeconds: number, label: string, now: number = Date.now()) => {
+  const expiry = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiry}:${label}`;
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(username));
+  return { username, credential: toBase64(signature), expiresAt: expiry * 1000 };
+};
+
+export const buildIceConfig = async (env: Record<string, string | undefined> = process.env, now: number = Date.now()): Promise<IceConfigResponse> => {
+  const stunUrls = splitList(env.STUN_URLS);
+  const iceServers: IceServer[] = [{ urls: stunUrls.length ? stunUrls : DEFAULT_STUN_URLS }];
+  const iceTransportPolicy = env.ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all';
+
+  const turnUrls = splitList(env.TURN_URLS);
+  if (!turnUrls.length || !env.TURN_SECRET) {
+    if (turnUrls.length) console.warn('TURN_URLS is set without TURN_SECRET; TURN is disabled');
+    return { iceServers, iceTransportPolicy, expiresAt: null };
+  }
+
+  const requestedTtl = Number(env.TURN_TTL_SECONDS);
+  const ttl = Number.isFinite(requestedTtl) && requestedTtl > 0 ? Math.min(requestedTtl, MAX_TTL_SECONDS) : DEFAULT_TTL_SECONDS;
+  const { username, credential, expiresAt } = await createTurnCredential(env.TURN_SECRET, ttl, crypto.randomUUID(), now);
+  iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, iceTransportPolicy, expiresAt };
+};
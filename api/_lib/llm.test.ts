@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { createMockProvider, ChatTurn } from './llm';
+
+const persona = { username: 'kavya_7', age: '24', gender: 'Female', location: 'Kerala, India', interests: ['Music', 'Travel'] };
+
+const reply = async (history: ChatTurn[]) => {
+  let text = '';
+  for await (const chunk of createMockProvider().streamChat({ systemInstruction: '', persona, history })) text += chunk;
+  return text;
+};
+
+describe('createMockProvider', () => {
+  it('answers ASL with the persona it was given', async () => {
+    expect(await reply([{ role: 'user', text: 'asl?' }])).toBe('24 f kerala');
+  });
+
+  it('gives the same reply to the same conversation', async () => {
+    const history: ChatTurn[] = [{ role: 'user', text: 'hi' }, { role: 'model', text: 'hey' }, { role: 'user', text: 'what do you like' }];
+    expect(await reply(history)).toBe(await reply(history));
+  });
+});
@@ -0,0 +1,100 @@
+import { GoogleGenAI } from "@google/genai";
+import { UserProfile } from "../../src/types";
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface ChatStreamRequest {
+  systemInstruction: string;
+  persona: UserProfile; // Already in systemInstruction; the mock provider reads it directly
+  history: ChatTurn[];
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmProvider {
+  name: string;
+  streamChat(request: ChatStreamRequest): AsyncIterable<string>;
+}
+
+export class LlmConfigError extends Error {}
+
+export const createGeminiProvider = (apiKey: string, model: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: `gemini:${model}`,
+    async *streamChat({ systemInstruction, history, temperature = 0.9, maxOutputTokens = 150 }) {
+      const responseStream = await ai.models.generateContentStream({
+        model,
+        contents: history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+        config: {
+          systemInstruction,
+          temperature,
+          maxOutputTokens,
+          thinkingConfig: { thinkingBudget: 0 },
+        }
+      });
+
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+const mockPlace = (persona: UserProfile) => persona.location.split(',')[0].toLowerCase();
+
+// Small talk in the persona's voice, so the mock stranger matches the profile the client shows
+const mockReplies = (persona: UserProfile) => [
+  "hey whats up",
+  `haha nice, im from ${mockPlace(persona)}. where are you from?`,
+  "same lol. what do you do for fun",
+  `ohh thats cool, i mostly do ${persona.interests.join(' and ').toLowerCase()}`,
+  "hmm idk, kinda bored tbh",
+  "lol fair enough",
+];
+
+// e.g. "22 m delhi"
+const mockAsl = (persona: UserProfile) => `${persona.age} ${persona.gender.charAt(0).toLowerCase()} ${mockPlace(persona)}`;
+
+// Stable string hash so the same conversation always gets the same reply
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+// Deterministic, offline provider for local development and tests
+export const createMockProvider = (): LlmProvider => ({
+  name: 'mock',
+  async *streamChat({ persona, history }) {
+    const lastUser = [...history].reverse().find(turn => turn.role === 'user')?.text || '';
+    const replies = mockReplies(persona);
+    const reply = /\basl\b/i.test(lastUser)
+      ? mockAsl(persona)
+      : replies[(hash(lastUser) + history.length) % replies.length];
+
+    // Stream word by word like the real model
+    const words = reply.split(' ');
+    for (let i = 0; i < words.length; i++) {
+      yield i === 0 ? words[i] : ` ${words[i]}`;
+    }
+  },
+});
+
+// LLM_PROVIDER picks the implementation (gemini | mock); LLM_MODEL overrides the Gemini model.
+export const createLlmProvider = (env: Record<string, string | undefined> = process.env): LlmProvider => {
+  const provider = env.LLM_PROVIDER || 'gemini';
+
+  if (provider === 'mock') return createMockProvider();
+
+  if (provider === 'gemini') {
+    if (!env.API_KEY) throw new LlmConfigError('Server configuration error: API Key missing');
+    return createGeminiProvider(env.API_KEY, env.LLM_MODEL || 'gemini-2.5-flash');
+  }
+
+  throw new LlmConfigError(`Server configuration error: unknown LLM_PROVIDER "${provider}"`);
+};
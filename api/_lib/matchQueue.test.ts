@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { UserProfile } from '../../src/types';
+import { createMemoryMatchQueue, createMatchQueue, QueueTicket } from './matchQueue';
+import { searchForMatch, leaveQueue, TicketTokenError, TICKET_TTL_MS, MATCH_TTL_MS } from './matchmaker';
+
+const profile = (username: string, uid = username): UserProfile => ({ uid, username, age: '25', gender: 'Other', interests: [], location: '' });
+
+const ticket = (peerId: string, now: number, extra: Partial<QueueTicket> = {}): QueueTicket =>
+  ({ peerId, token: `token-${peerId}`, joinedAt: now, lastSeenAt: now, ...extra });
+
+describe('createMemoryMatchQueue', () => {
+  it('enqueues fresh, unmatched tickets and returns copies', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.enqueue(ticket('a', 1000, { partnerPeerId: 'b', initiator: true, matchedAt: 900 }));
+    const stored = await queue.get('a');
+    expect(stored).toMatchObject({ peerId: 'a', partnerPeerId: null, initiator: false, matchedAt: null });
+    stored!.lastSeenAt = 0;
+    expect((await queue.get('a'))!.lastSeenAt).toBe(1000);
+    expect(await queue.get('missing')).toBeNull();
+  });
+
+  it('touches only existing tickets and keeps their match fields', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.touch('ghost', 2000);
+    expect(await queue.get('ghost')).toBeNull();
+
+    await queue.enqueue(ticket('a', 1000));
+    await queue.enqueue(ticket('b', 1000));
+    await queue.claimPair('a', 'b', 1500);
+    await queue.touch('a', 2000, profile('Ada'));
+    expect(await queue.get('a')).toMatchObject({ lastSeenAt: 2000, partnerPeerId: 'b', profile: { username: 'Ada' } });
+  });
+
+  it('lists only unmatched tickets seen recently', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.enqueue(ticket('old', 1000));
+    await queue.enqueue(ticket('a', 5000));
+    await queue.enqueue(ticket('b', 5000));
+    await queue.enqueue(ticket('c', 5000));
+    await queue.claimPair('a', 'b', 5000);
+    expect((await queue.listWaiting(4000)).map(t => t.peerId)).toEqual(['c']);
+  });
+
+  it('claims a pair atomically and never twice', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.enqueue(ticket('a', 1000));
+    await queue.enqueue(ticket('b', 1000));
+    await queue.enqueue(ticket('c', 1000));
+    expect(await queue.claimPair('a', 'b', 1200)).toBe(true);
+    expect(await queue.claimPair('c', 'b', 1300)).toBe(false);
+    expect(await queue.claimPair('c', 'missing', 1300)).toBe(false);
+    expect(await queue.get('a')).toMatchObject({ partnerPeerId: 'b', initiator: true, matchedAt: 1200 });
+    expect(await queue.get('b')).toMatchObject({ partnerPeerId: 'a', initiator: false, matchedAt: 1200 });
+    expect((await queue.get('c'))!.partnerPeerId).toBeNull();
+  });
+
+  it('removes tickets', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.enqueue(ticket('a', 1000));
+    await queue.remove('a');
+    await queue.remove('a');
+    expect(await queue.get('a')).toBeNull();
+  });
+});
+
+describe('ticket tokens', () => {
+  it('pairs two searchers and hands each their own token', async () => {
+    const queue = createMemoryMatchQueue();
+    const first = await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1000);
+    expect(first.status).toBe('waiting');
+    const second = await searchForMatch(queue, { peerId: 'b', profile: profile('Bo') }, 1100);
+    expect(second).toMatchObject({ status: 'matched', partnerPeerId: 'a', initiator: true });
+    expect(second.token).not.toBe(first.token);
+    expect(await searchForMatch(queue, { peerId: 'a', token: first.token, profile: profile('Ada') }, 1200))
+      .toMatchObject({ status: 'matched', partnerPeerId: 'b', initiator: false, token: first.token });
+  });
+
+  it('skips queue entries it cannot read instead of failing every search', async () => {
+    const queue = createMemoryMatchQueue();
+    await queue.enqueue(ticket('poison', 1000, { profile: { ...profile('Mal'), interests: 'x' as unknown as string[] } }));
+    await queue.enqueue(ticket('odd-prefs', 1000, { profile: profile('Odd'), preferences: {} as never }));
+    await queue.enqueue(ticket('ok', 1000, { profile: profile('Bo') }));
+    expect(await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1100))
+      .toMatchObject({ status: 'matched', partnerPeerId: 'ok' });
+  });
+
+  it('refuses to poll a live ticket without its token', async () => {
+    const queue = createMemoryMatchQueue();
+    await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1000);
+    await expect(searchForMatch(queue, { peerId: 'a', profile: profile('Eve') }, 1500)).rejects.toBeInstanceOf(TicketTokenError);
+    await expect(searchForMatch(queue, { peerId: 'a', token: 'guess', profile: profile('Eve') }, 1500)).rejects.toBeInstanceOf(TicketTokenError);
+  });
+
+  it('lets anyone start over once the ticket has expired', async () => {
+    const queue = createMemoryMatchQueue();
+    const stale = await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1000);
+    const fresh = await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1000 + TICKET_TTL_MS + 1);
+    expect(fresh.token).not.toBe(stale.token);
+
+    await queue.enqueue(ticket('b', 1000));
+    await queue.enqueue(ticket('c', 1000));
+    await queue.claimPair('b', 'c', 1000);
+    await expect(searchForMatch(queue, { peerId: 'b' }, 1000 + MATCH_TTL_MS - 1)).rejects.toBeInstanceOf(TicketTokenError);
+    expect((await searchForMatch(queue, { peerId: 'b' }, 1000 + MATCH_TTL_MS)).status).toBe('waiting');
+  });
+
+  it('only removes a ticket for its owner', async () => {
+    const queue = createMemoryMatchQueue();
+    const { token } = await searchForMatch(queue, { peerId: 'a', profile: profile('Ada') }, 1000);
+    await expect(leaveQueue(queue, 'a')).rejects.toBeInstanceOf(TicketTokenError);
+    await expect(leaveQueue(queue, 'a', 'guess')).rejects.toBeInstanceOf(TicketTokenError);
+    expect(await queue.get('a')).not.toBeNull();
+    await leaveQueue(queue, 'a', token);
+    expect(await queue.get('a')).toBeNull();
+    await expect(leaveQueue(queue, 'a', token)).resolves.toBeUndefined();
+  });
+});
+
+describe('createMatchQueue', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const stubEnv = (env: Record<string, string>) => {
+    ['VERCEL_ENV', 'MATCH_QUEUE_BACKEND', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'].forEach(name => vi.stubEnv(name, ''));
+    Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  };
+
+  it('falls back to memory in local development', () => {
+    stubEnv({});
+    expect(createMatchQueue()).toBe(createMatchQueue());
+    stubEnv({ VERCEL_ENV: 'development' });
+    expect(() => createMatchQueue()).not.toThrow();
+  });
+
+  it('fails loudly when a deployment has no shared store', () => {
+    stubEnv({ VERCEL_ENV: 'production' });
+    expect(() => createMatchQueue()).toThrow(/not configured/);
+    stubEnv({ VERCEL_ENV: 'preview' });
+    expect(() => createMatchQueue()).toThrow(/not configured/);
+  });
+
+  it('still allows an explicit memory backend', () => {
+    stubEnv({ VERCEL_ENV: 'production', MATCH_QUEUE_BACKEND: 'memory' });
+    expect(() => createMatchQueue()).not.toThrow();
+  });
+
+  it('rejects a Supabase backend without credentials', () => {
+    stubEnv({ MATCH_QUEUE_BACKEND: 'supabase' });
+    expect(() => createMatchQueue()).toThrow(/requires SUPABASE_URL/);
+  });
+});
@@ -0,0 +1,199 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isLocalDev } from './env';
+import { MatchPreferences, UserProfile } from '../../src/types';
+
+/*
+  --- SQL SETUP INSTRUCTIONS ---
+  Run this in your Supabase SQL Editor to use the Supabase queue backend
+  (set MATCH_QUEUE_BACKEND=supabase, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY):
+
+  create table if not exists match_queue (
+    peer_id text primary key,
+    token text not null,      -- Secret handed to the ticket's owner; needed to poll or leave
+    profile jsonb,
+    preferences jsonb,
+    blocked_uids jsonb,
+    joined_at bigint not null,
+    last_seen_at bigint not null,
+    partner_peer_id text,
+    initiator boolean not null default false,
+    matched_at bigint
+  );
+  -- Upgrading an older table:
+  --   delete from match_queue; alter table match_queue add column if not exists token text not null;
+  alter table match_queue enable row level security; -- only the service role touches it
+
+  -- Pairs two waiting tickets or neither. Returns false if either was already taken.
+  create or replace function claim_match_pair(p_peer_id text, p_candidate_id text, p_now bigint)
+  returns boolean language plpgsql as $$
+  declare claimed int;
+  begin
+    update match_queue
+       set partner_peer_id = case when peer_id = p_peer_id then p_candidate_id else p_peer_id end,
+           initiator = (peer_id = p_peer_id),
+           matched_at = p_now
+     where peer_id in (p_peer_id, p_candidate_id) and partner_peer_id is null;
+    get diagnostics claimed = row_count;
+    if claimed <> 2 then
+      raise exception 'match_conflict';
+    end if;
+    return true;
+  exception when raise_exception then
+    return false;
+  end;
+  $$;
+*/
+
+export interface QueueTicket {
+  peerId: string;
+  token: string; // Random; only the client that created the ticket knows it
+  profile?: UserProfile;
+  preferences?: MatchPreferences;
+  blockedUids?: string[]; // Never paired with these users, and they are never paired with us
+  joinedAt: number;
+  lastSeenAt: number;
+  partnerPeerId?: string | null;
+  initiator?: boolean;
+  matchedAt?: number | null;
+}
+
+export interface MatchQueueBackend {
+  get(peerId: string): Promise<QueueTicket | null>;
+  // Creates (or replaces) a fresh, unmatched ticket
+  enqueue(ticket: QueueTicket): Promise<void>;
+  // Refreshes a ticket without touching its match fields, which another request may be claiming
+  touch(peerId: string, now: number, profile?: UserProfile, preferences?: MatchPreferences, blockedUids?: string[]): Promise<void>;
+  listWaiting(seenSince: number): Promise<QueueTicket[]>;
+  // Must be atomic: either both tickets are paired with each other, or nothing changes
+  claimPair(peerId: string, candidateId: string, now: number): Promise<boolean>;
+  remove(peerId: string): Promise<void>;
+}
+
+// In-memory queue. Used in tests and local development; on the edge it is
+// only shared by requests that hit the same isolate.
+export const createMemoryMatchQueue = (): MatchQueueBackend => {
+  const tickets = new Map<string, QueueTicket>();
+
+  return {
+    async get(peerId) {
+      const ticket = tickets.get(peerId);
+      return ticket ? { ...ticket } : null;
+    },
+
+    async enqueue(ticket) {
+      tickets.set(ticket.peerId, { ...ticket, partnerPeerId: null, initiator: false, matchedAt: null });
+    },
+
+    async touch(peerId, now, profile, preferences, blockedUids) {
+      const ticket = tickets.get(peerId);
+      if (ticket) tickets.set(peerId, { ...ticket, lastSeenAt: now, profile, preferences, blockedUids });
+    },
+
+    async listWaiting(seenSince) {
+      return [...tickets.values()]
+        .filter(t => !t.partnerPeerId && t.lastSeenAt >= seenSince)
+        .map(t => ({ ...t }));
+    },
+
+    async claimPair(peerId, candidateId, now) {
+      const mine = tickets.get(peerId);
+      const theirs = tickets.get(candidateId);
+      if (!mine || !theirs || mine.partnerPeerId || theirs.partnerPeerId) return false;
+      tickets.set(peerId, { ...mine, partnerPeerId: candidateId, initiator: true, matchedAt: now });
+      tickets.set(candidateId, { ...theirs, partnerPeerId: peerId, initiator: false, matchedAt: now });
+      return true;
+    },
+
+    async remove(peerId) {
+      tickets.delete(peerId);
+    },
+  };
+};
+
+const toTicket = (row: any): QueueTicket => ({
+  peerId: row.peer_id,
+  token: row.token,
+  profile: row.profile || undefined,
+  preferences: row.preferences || undefined,
+  blockedUids: row.blocked_uids || undefined,
+  joinedAt: Number(row.joined_at),
+  lastSeenAt: Number(row.last_seen_at),
+  partnerPeerId: row.partner_peer_id,
+  initiator: row.initiator,
+  matchedAt: row.matched_at != null ? Number(row.matched_at) : null,
+});
+
+export const createSupabaseMatchQueue = (client: SupabaseClient): MatchQueueBackend => ({
+  async get(peerId) {
+    const { data, error } = await client.from('match_queue').select('*').eq('peer_id', peerId).maybeSingle();
+    if (error) throw error;
+    return data ? toTicket(data) : null;
+  },
+
+  async enqueue(ticket) {
+    const { error } = await client.from('match_queue').upsert({
+      peer_id: ticket.peerId,
+      token: ticket.token,
+      profile: ticket.profile ?? null,
+      preferences: ticket.preferences ?? null,
+      blocked_uids: ticket.blockedUids ?? null,
+      joined_at: ticket.joinedAt,
+      last_seen_at: ticket.lastSeenAt,
+      partner_peer_id: null,
+      initiator: false,
+      matched_at: null,
+    });
+    if (error) throw error;
+  },
+
+  async touch(peerId, now, profile, preferences, blockedUids) {
+    const { error } = await client
+      .from('match_queue')
+      .update({ last_seen_at: now, profile: profile ?? null, preferences: preferences ?? null, blocked_uids: blockedUids ?? null })
+      .eq('peer_id', peerId);
+    if (error) throw error;
+  },
+
+  async listWaiting(seenSince) {
+    const { data, error } = await client
+      .from('match_queue')
+      .select('*')
+      .is('partner_peer_id', null)
+      .gte('last_seen_at', seenSince)
+      .order('joined_at', { ascending: true })
+      .limit(200);
+    if (error) throw error;
+    return (data || []).map(toTicket);
+  },
+
+  async claimPair(peerId, candidateId, now) {
+    const { data, error } = await client.rpc('claim_match_pair', { p_peer_id: peerId, p_candidate_id: candidateId, p_now: now });
+    if (error) throw error;
+    return data === true;
+  },
+
+  async remove(peerId) {
+    const { error } = await client.from('match_queue').delete().eq('peer_id', peerId);
+    if (error) throw error;
+  },
+});
+
+let memoryQueue: MatchQueueBackend | null = null;
+
+export const createMatchQueue = (): MatchQueueBackend => {
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const backend = process.env.MATCH_QUEUE_BACKEND || (url && serviceKey ? 'supabase' : isLocalDev() ? 'memory' : null);
+
+  if (!backend) {
+    // Each instance would keep its own queue and people would silently never be paired
+    throw new Error('Match queue not configured: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or MATCH_QUEUE_BACKEND=memory for a single instance');
+  }
+  if (backend === 'supabase') {
+    if (!url || !serviceKey) throw new Error('MATCH_QUEUE_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    return createSupabaseMatchQueue(createClient(url, serviceKey, { auth: { persistSession: false } }));
+  }
+
+  if (!memoryQueue) memoryQueue = createMemoryMatchQueue();
+  return memoryQueue;
+};
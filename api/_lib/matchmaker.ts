@@ -0,0 +1,97 @@
+import { MatchPreferences, PresenceState, UserProfile } from '../../src/types';
+import { pickWaiter } from '../../src/lib/matchmaking';
+import { MatchQueueBackend, QueueTicket } from './matchQueue';
+
+// Clients poll about once a second; a ticket that hasn't been polled for this long is abandoned
+export const TICKET_TTL_MS = 10000;
+// A pairing whose clients never connected (and never came back to leave) is released after this
+export const MATCH_TTL_MS = 30000;
+
+const MAX_CLAIM_ATTEMPTS = 3;
+
+export interface SearchRequest {
+  peerId: string;
+  token?: string; // From an earlier result; required while the peer ID has a live ticket
+  profile?: UserProfile;
+  preferences?: MatchPreferences;
+  exclude?: string[]; // Peer IDs this client already failed to connect to
+  blockedUids?: string[]; // Users this client blocked; enforced in both directions
+}
+
+export type SearchResult =
+  | { status: 'waiting'; token: string }
+  | { status: 'matched'; partnerPeerId: string; initiator: boolean; token: string };
+
+// Peer IDs are public (presence broadcasts them), so a live ticket only answers to its token
+export class TicketTokenError extends Error {}
+
+const toPresence = (ticket: QueueTicket): PresenceState => ({
+  peerId: ticket.peerId,
+  status: 'waiting',
+  timestamp: ticket.joinedAt,
+  profile: ticket.profile,
+  preferences: ticket.preferences,
+});
+
+const matchedResult = (ticket: QueueTicket): SearchResult => ({
+  status: 'matched',
+  partnerPeerId: ticket.partnerPeerId!,
+  initiator: !!ticket.initiator,
+  token: ticket.token,
+});
+
+const isLive = (ticket: QueueTicket, now: number) => ticket.partnerPeerId
+  ? now - (ticket.matchedAt || 0) < MATCH_TTL_MS
+  : now - ticket.lastSeenAt <= TICKET_TTL_MS;
+
+// Idempotent: returns the existing pairing if there is one, otherwise tries to
+// claim the best compatible waiter, otherwise leaves the caller waiting.
+export const searchForMatch = async (queue: MatchQueueBackend, request: SearchRequest, now: number = Date.now()): Promise<SearchResult> => {
+  let ticket = await queue.get(request.peerId);
+  if (ticket && isLive(ticket, now) && ticket.token !== request.token) throw new TicketTokenError('Invalid ticket token');
+
+  if (ticket?.partnerPeerId) {
+    if (now - (ticket.matchedAt || 0) < MATCH_TTL_MS) return matchedResult(ticket);
+    ticket = null; // Stale pairing, start over
+  }
+
+  if (!ticket || now - ticket.lastSeenAt > TICKET_TTL_MS) {
+    ticket = { peerId: request.peerId, token: crypto.randomUUID(), profile: request.profile, preferences: request.preferences, blockedUids: request.blockedUids, joinedAt: now, lastSeenAt: now };
+    await queue.enqueue(ticket);
+  } else {
+    await queue.touch(request.peerId, now, request.profile, request.preferences, request.blockedUids);
+  }
+
+  if (request.profile) {
+    const exclude = new Set(request.exclude || []);
+    const blocked = new Set(request.blockedUids || []);
+    const myUid = request.profile.uid;
+    let waiters = (await queue.listWaiting(now - TICKET_TTL_MS))
+      .filter(t => t.peerId !== request.peerId && !exclude.has(t.peerId))
+      .filter(t => !(t.profile?.uid && blocked.has(t.profile.uid)) && !(myUid && t.blockedUids?.includes(myUid)));
+
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS && waiters.length > 0; attempt++) {
+      const candidate = pickWaiter(request.profile, request.preferences, waiters.map(toPresence), ticket.joinedAt, now);
+      if (!candidate) break;
+
+      const partnerPeerId = candidate.waiter.peerId;
+      if (await queue.claimPair(request.peerId, partnerPeerId, now)) {
+        return { status: 'matched', partnerPeerId, initiator: true, token: ticket.token };
+      }
+      waiters = waiters.filter(t => t.peerId !== partnerPeerId);
+    }
+  }
+
+  // Another searcher may have claimed us while we were looking
+  const latest = await queue.get(request.peerId);
+  if (latest?.partnerPeerId) return matchedResult(latest);
+
+  return { status: 'waiting', token: ticket.token };
+};
+
+export const leaveQueue = async (queue: MatchQueueBackend, peerId: string, token?: string) => {
+  const ticket = await queue.get(peerId);
+  if (!ticket) return;
+  if (ticket.token !== token) throw new TicketTokenError('Invalid ticket token');
+  await queue.remove(peerId);
+};
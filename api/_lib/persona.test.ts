@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { generatePersona, signPersona, verifyPersonaToken, getPersonaSecret, PersonaConfigError, PERSONA_TOKEN_TTL_MS } from './persona';
+
+const SECRET = 'test-secret';
+
+describe('persona tokens', () => {
+  it('round-trips a persona the server issued', async () => {
+    const persona = generatePersona();
+    const token = await signPersona(persona, SECRET, 1000);
+    expect(await verifyPersonaToken(token, SECRET, 2000)).toEqual(persona);
+  });
+
+  it('rejects expired tokens and other secrets', async () => {
+    const token = await signPersona(generatePersona(), SECRET, 1000);
+    expect(await verifyPersonaToken(token, SECRET, 1000 + PERSONA_TOKEN_TTL_MS)).toBeNull();
+    expect(await verifyPersonaToken(token, 'other-secret', 2000)).toBeNull();
+  });
+
+  it('rejects a persona swapped in under the original signature', async () => {
+    const token = await signPersona(generatePersona(), SECRET, 1000);
+    const forged = btoa(JSON.stringify({ persona: { ...generatePersona(), username: 'admin' }, exp: 1e15 })).replace(/=+$/, '');
+    expect(await verifyPersonaToken(`${forged}.${token.split('.')[1]}`, SECRET, 2000)).toBeNull();
+  });
+
+  it('rejects tokens that are not tokens', async () => {
+    for (const token of [undefined, 42, '', 'abc', 'a.b.c', '!!!.???', 'x'.repeat(2000)]) {
+      expect(await verifyPersonaToken(token, SECRET)).toBeNull();
+    }
+  });
+
+  it('needs PERSONA_SECRET outside local development', () => {
+    expect(getPersonaSecret({ PERSONA_SECRET: 's', VERCEL_ENV: 'production' })).toBe('s');
+    expect(() => getPersonaSecret({ VERCEL_ENV: 'production' })).toThrow(PersonaConfigError);
+    expect(getPersonaSecret({})).toBe(getPersonaSecret({ VERCEL_ENV: 'development' }));
+  });
+});
@@ -0,0 +1,128 @@
+import { UserProfile } from '../../src/types';
+import { COMMON_INTERESTS, INDIA_STATES } from '../../src/constants';
+import { isLocalDev } from './env';
+
+const PERSONA_GENDERS = ['Male', 'Female'];
+
+const NAMES: Record<string, string[]> = {
+  Male: ['rahul', 'arjun', 'vikram', 'aditya', 'rohan', 'karan', 'nikhil', 'sahil', 'aman', 'dev'],
+  Female: ['priya', 'ananya', 'sneha', 'kavya', 'riya', 'neha', 'pooja', 'isha', 'meera', 'tanvi'],
+};
+
+const MIN_AGE = 18;
+const MAX_AGE = 32;
+
+const pick = <T>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+export const generatePersona = (): UserProfile => {
+  const gender = pick(PERSONA_GENDERS);
+  const age = MIN_AGE + Math.floor(Math.random() * (MAX_AGE - MIN_AGE + 1));
+  const suffix = Math.random() < 0.5 ? `_${Math.floor(Math.random() * 100)}` : '';
+  const interestCount = 2 + Math.floor(Math.random() * 2);
+
+  return {
+    username: `${pick(NAMES[gender])}${suffix}`,
+    age: String(age),
+    gender,
+    location: `${pick(INDIA_STATES)}, India`,
+    interests: [...COMMON_INTERESTS].sort(() => Math.random() - 0.5).slice(0, interestCount),
+  };
+};
+
+// Only accept values this module could have generated, so a persona can't carry instructions
+// even if its token's secret leaks.
+export const parsePersona = (input: unknown): UserProfile | null => {
+  if (!input || typeof input !== 'object') return null;
+  const p = input as Record<string, unknown>;
+
+  if (typeof p.gender !== 'string' || !PERSONA_GENDERS.includes(p.gender)) return null;
+  if (typeof p.username !== 'string' || !/^[a-z]{2,12}(_\d{1,2})?$/.test(p.username)) return null;
+
+  const age = Number(p.age);
+  if (!Number.isInteger(age) || age < MIN_AGE || age > MAX_AGE) return null;
+
+  if (typeof p.location !== 'string') return null;
+  const state = p.location.replace(/, India$/, '');
+  if (!INDIA_STATES.includes(state)) return null;
+
+  if (!Array.isArray(p.interests) || p.interests.length > COMMON_INTERESTS.length) return null;
+  if (!p.interests.every(i => typeof i === 'string' && COMMON_INTERESTS.includes(i))) return null;
+
+  return {
+    username: p.username,
+    age: String(age),
+    gender: p.gender,
+    location: `${state}, India`,
+    interests: p.interests as string[],
+  };
+};
+
+// --- SIGNED PERSONAS ---
+// /api/persona signs the persona it issues and /api/chat only plays a persona with a valid
+// signature, so each chat keeps the one the server chose. The token is
+// base64url(JSON { persona, exp }) + "." + base64url(HMAC-SHA256(PERSONA_SECRET, that payload)).
+
+export const PERSONA_TOKEN_TTL_MS = 6 * 60 * 60 * 1000;
+// Per client: one per AI chat started; the rest is headroom for shared IPs
+export const PERSONA_REQUEST_LIMIT = { limit: 30, windowMs: 10 * 60 * 1000 };
+const MAX_TOKEN_LENGTH = 1024;
+
+export class PersonaConfigError extends Error {}
+
+let devSecret: string | null = null;
+
+export const getPersonaSecret = (env: Record<string, string | undefined> = process.env): string => {
+  if (env.PERSONA_SECRET) return env.PERSONA_SECRET;
+  if (!isLocalDev(env)) throw new PersonaConfigError('PERSONA_SECRET is not set');
+  // Tokens then only verify on this instance, which is all local development needs
+  if (!devSecret) devSecret = crypto.randomUUID();
+  return devSecret;
+};
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const hmacKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+export const signPersona = async (persona: UserProfile, secret: string, now: number = Date.now()) => {
+  const payload = toBase64Url(encoder.encode(JSON.stringify({ persona, exp: now + PERSONA_TOKEN_TTL_MS })));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+};
+
+// The persona from a token we signed that hasn't expired, or null
+export const verifyPersonaToken = async (token: unknown, secret: string, now: number = Date.now()): Promise<UserProfile | null> => {
+  if (typeof token !== 'string' || token.length > MAX_TOKEN_LENGTH) return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+  try {
+    if (!await crypto.subtle.verify('HMAC', await hmacKey(secret), fromBase64Url(signature), encoder.encode(payload))) return null;
+    const { persona, exp } = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+    if (typeof exp !== 'number' || exp <= now) return null;
+    return parsePersona(persona);
+  } catch {
+    return null; // Not base64url or not JSON
+  }
+};
+
+export const buildPersonaInstruction = (persona: UserProfile) => `
+  You are a random stranger on an anonymous chat platform like Omegle.
+  Your persona, which you must stay consistent with for the whole chat:
+  - Name: ${persona.username}
+  - Age: ${persona.age}
+  - Gender: ${persona.gender}
+  - Location: ${persona.location}
+  - Interests: ${persona.interests.join(', ')}
+  Do NOT announce your persona at the start. Reveal it naturally only if asked.
+  Keep your responses relatively short, informal, and conversational.
+  Use lowercase often, maybe occasional slang or typos to feel human.
+  Do not be overly helpful or robotic. Be casual.
+  If the user says "ASL", give your persona's Age, Sex, Location.
+  Never reveal you are an AI.
+`;
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createMemoryRateLimitStore, consumeRateLimit, createRateLimitStore, getClientKey } from './rateLimit';
+
+const rule = { limit: 3, windowMs: 1000 };
+
+describe('createMemoryRateLimitStore', () => {
+  it('adds up usage within a window and starts over after it', async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await store.consume('k', 2, 1000, 0)).toEqual({ used: 2, windowStart: 0 });
+    expect(await store.consume('k', 1, 1000, 999)).toEqual({ used: 3, windowStart: 0 });
+    expect(await store.consume('k', 1, 1000, 1000)).toEqual({ used: 1, windowStart: 1000 });
+  });
+
+  it('keeps keys apart', async () => {
+    const store = createMemoryRateLimitStore();
+    await store.consume('a', 5, 1000, 0);
+    expect((await store.consume('b', 1, 1000, 0)).used).toBe(1);
+  });
+
+  it('drops expired windows once it holds many keys', async () => {
+    const store = createMemoryRateLimitStore();
+    for (let i = 0; i <= 10000; i++) await store.consume(`old-${i}`, 1, 1000, 0);
+    await store.consume('new', 1, 1000, 5000);
+    // An expired key starts a new window either way; a live one must not have been dropped
+    expect(await store.consume('new', 1, 1000, 5001)).toEqual({ used: 2, windowStart: 5000 });
+  });
+});
+
+describe('consumeRateLimit', () => {
+  it('allows up to the limit, then reports when the window ends', async () => {
+    const store = createMemoryRateLimitStore();
+    const results = [];
+    for (let i = 0; i < 4; i++) results.push(await consumeRateLimit(store, 'k', rule, 1, 200));
+    expect(results.map(r => r.allowed)).toEqual([true, true, true, false]);
+    expect(results[2]).toEqual({ allowed: true, remaining: 0, retryAfterMs: 0 });
+    expect(results[3]).toEqual({ allowed: false, remaining: 0, retryAfterMs: 1000 });
+    expect((await consumeRateLimit(store, 'k', rule, 1, 1200)).allowed).toBe(true);
+  });
+
+  it('charges amounts and counts rejected requests', async () => {
+    const store = createMemoryRateLimitStore();
+    expect((await consumeRateLimit(store, 'k', rule, 5, 0)).allowed).toBe(false);
+    expect((await consumeRateLimit(store, 'k', rule, 1, 500))).toEqual({ allowed: false, remaining: 0, retryAfterMs: 500 });
+  });
+});
+
+describe('getClientKey', () => {
+  it('takes the first forwarded address, then x-real-ip', () => {
+    expect(getClientKey(new Request('https://x', { headers: { 'x-forwarded-for': '1.2.3.4, 10.0.0.1' } }))).toBe('1.2.3.4');
+    expect(getClientKey(new Request('https://x', { headers: { 'x-real-ip': '5.6.7.8' } }))).toBe('5.6.7.8');
+    expect(getClientKey(new Request('https://x'))).toBe('anonymous');
+  });
+});
+
+describe('createRateLimitStore', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const stubEnv = (env: Record<string, string>) => {
+    ['VERCEL_ENV', 'RATE_LIMIT_BACKEND', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY'].forEach(name => vi.stubEnv(name, ''));
+    Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  };
+
+  it('falls back to one shared memory store in local development', () => {
+    stubEnv({});
+    expect(createRateLimitStore()).toBe(createRateLimitStore());
+  });
+
+  it('fails loudly when a deployment has no shared store', () => {
+    stubEnv({ VERCEL_ENV: 'production' });
+    expect(() => createRateLimitStore()).toThrow(/not configured/);
+  });
+
+  it('still allows an explicit memory backend', () => {
+    stubEnv({ VERCEL_ENV: 'production', RATE_LIMIT_BACKEND: 'memory' });
+    expect(() => createRateLimitStore()).not.toThrow();
+  });
+
+  it('rejects a Supabase backend without credentials', () => {
+    stubEnv({ RATE_LIMIT_BACKEND: 'supabase' });
+    expect(() => createRateLimitStore()).toThrow(/requires SUPABASE_URL/);
+  });
+});
@@ -0,0 +1,129 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { isLocalDev } from './env';
+
+/*
+  --- SQL SETUP INSTRUCTIONS ---
+  Run this in your Supabase SQL Editor to use the Supabase rate limit backend
+  (set RATE_LIMIT_BACKEND=supabase, SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY):
+
+  create table if not exists rate_limits (
+    key text primary key,
+    window_start bigint not null,
+    used int not null default 0
+  );
+  alter table rate_limits enable row level security; -- only the service role touches it
+
+  -- Adds p_amount to the current fixed window for p_key, starting a new window if it expired.
+  -- Returns the usage and window start after the increment, in one atomic statement.
+  create or replace function consume_rate_limit(p_key text, p_amount int, p_window_ms bigint, p_now bigint)
+  returns table (used int, window_start bigint) language sql as $$
+    insert into rate_limits as r (key, window_start, used)
+    values (p_key, p_now, p_amount)
+    on conflict (key) do update
+      set used = case when r.window_start + p_window_ms <= p_now then p_amount else r.used + p_amount end,
+          window_start = case when r.window_start + p_window_ms <= p_now then p_now else r.window_start end
+    returning r.used, r.window_start;
+  $$;
+*/
+
+export interface RateLimitUsage {
+  used: number;
+  windowStart: number;
+}
+
+export interface RateLimitStore {
+  // Must be atomic: adds `amount` to the key's current window and returns the new total
+  consume(key: string, amount: number, windowMs: number, now: number): Promise<RateLimitUsage>;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+}
+
+// In-memory store. Used in tests and local development; on the edge it is
+// only shared by requests that hit the same isolate.
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+  const windows = new Map<string, RateLimitUsage>();
+
+  return {
+    async consume(key, amount, windowMs, now) {
+      const current = windows.get(key);
+      const next = !current || current.windowStart + windowMs <= now
+        ? { used: amount, windowStart: now }
+        : { used: current.used + amount, windowStart: current.windowStart };
+      windows.set(key, next);
+
+      // Drop expired windows now and then so the map doesn't grow forever
+      if (windows.size > 10000) {
+        windows.forEach((usage, k) => {
+          if (usage.windowStart + windowMs <= now) windows.delete(k);
+        });
+      }
+      return { ...next };
+    },
+  };
+};
+
+export const createSupabaseRateLimitStore = (client: SupabaseClient): RateLimitStore => ({
+  async consume(key, amount, windowMs, now) {
+    const { data, error } = await client
+      .rpc('consume_rate_limit', { p_key: key, p_amount: amount, p_window_ms: windowMs, p_now: now })
+      .single();
+    if (error) throw error;
+    const row = data as { used: number; window_start: number };
+    return { used: Number(row.used), windowStart: Number(row.window_start) };
+  },
+});
+
+// Charges `amount` against the rule. Rejected requests still count, so hammering doesn't help.
+export const consumeRateLimit = async (
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  amount = 1,
+  now = Date.now()
+): Promise<RateLimitResult> => {
+  const { used, windowStart } = await store.consume(key, amount, rule.windowMs, now);
+  const allowed = used <= rule.limit;
+  return {
+    allowed,
+    remaining: Math.max(0, rule.limit - used),
+    retryAfterMs: allowed ? 0 : Math.max(0, windowStart + rule.windowMs - now),
+  };
+};
+
+// Best-effort client identity on Vercel: the first address the proxy saw
+export const getClientKey = (request: Request): string => {
+  const forwarded = request.headers.get('x-forwarded-for');
+  const ip = forwarded?.split(',')[0].trim() || request.headers.get('x-real-ip');
+  return ip || 'anonymous';
+};
+
+export class RateLimitConfigError extends Error {}
+
+let memoryStore: RateLimitStore | null = null;
+
+export const createRateLimitStore = (): RateLimitStore => {
+  const url = process.env.SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const backend = process.env.RATE_LIMIT_BACKEND || (url && serviceKey ? 'supabase' : isLocalDev() ? 'memory' : null);
+
+  if (!backend) {
+    // Per-instance counters would let a client multiply its limits by hitting different instances
+    throw new RateLimitConfigError('Rate limit store not configured: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or RATE_LIMIT_BACKEND=memory for a single instance');
+  }
+  if (backend === 'supabase') {
+    if (!url || !serviceKey) throw new RateLimitConfigError('RATE_LIMIT_BACKEND=supabase requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    return createSupabaseRateLimitStore(createClient(url, serviceKey, { auth: { persistSession: false } }));
+  }
+
+  if (!memoryStore) memoryStore = createMemoryRateLimitStore();
+  return memoryStore;
+};
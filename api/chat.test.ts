@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import handler from './chat';
+import { CHAT_REQUEST_LIMIT } from './_lib/chatGuard';
+
+const post = (body: string, ip: string) => handler(new Request('http://localhost/api/chat', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+  body
+}));
+
+describe('/api/chat', () => {
+  it('counts malformed and forged requests against the client', async () => {
+    const bodies = ['not json', JSON.stringify({ messages: 'hi' }), JSON.stringify({ messages: [{ role: 'me', content: 'hi' }], personaToken: 'forged' })];
+    for (let i = 0; i < CHAT_REQUEST_LIMIT.limit; i++) {
+      const res = await post(bodies[i % bodies.length], '203.0.113.20');
+      expect(res.status).not.toBe(429);
+    }
+    const res = await post(bodies[0], '203.0.113.20');
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBeTruthy();
+  });
+});
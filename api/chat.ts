@@ -1,13 +1,26 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { createLlmProvider, LlmConfigError, LlmProvider } from "./_lib/llm";
+import { buildPersonaInstruction, getPersonaSecret, verifyPersonaToken, PersonaConfigError } from "./_lib/persona";
+import { consumeRateLimit, createRateLimitStore, getClientKey } from "./_lib/rateLimit";
+import {
+  validateChatBody, truncateHistory, estimateTokens,
+  MAX_OUTPUT_TOKENS, CHAT_REQUEST_LIMIT, CHAT_TOKEN_LIMIT
+} from "./_lib/chatGuard";
 
 export const config = {
   runtime: 'edge',
 };
 
-interface ChatRequestBody {
-  messages: { role: string; content: string }[];
-}
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) => new Response(JSON.stringify(body), {
+  status,
+  headers: {
+    'Content-Type': 'application/json',
+    ...headers
+  }
+});
+
+const tooManyRequests = (error: string, retryAfterMs: number) =>
+  json({ error }, 429, { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
 
 export default async function handler(request: Request) {
   if (request.method !== 'POST') {
@@ -15,57 +28,71 @@ export default async function handler(request: Request) {
   }
 
   try {
-    const { messages } = await request.json() as ChatRequestBody;
-    const apiKey = process.env.API_KEY;
-
-    if (!apiKey) {
-      return new Response(JSON.stringify({ error: 'Server configuration error: API Key missing' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    // Every request counts against the client, so malformed or forged ones can't be retried for free
+    const store = createRateLimitStore();
+    const clientKey = getClientKey(request);
+    const requests = await consumeRateLimit(store, `chat:req:${clientKey}`, CHAT_REQUEST_LIMIT);
+    if (!requests.allowed) return tooManyRequests('Too many messages, slow down', requests.retryAfterMs);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return json({ error: 'Invalid JSON body' }, 400);
     }
 
-    const ai = new GoogleGenAI({ apiKey });
-    
-    // Filter and format messages for Gemini
-    const conversationHistory = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({
-        role: m.role === 'me' ? 'user' : 'model',
-        parts: [{ text: m.content }]
-      }));
-
-    const systemInstruction = `
-      You are a random stranger on an anonymous chat platform like Omegle. 
-      Pick a random persona (Age, Gender, Location, Interests) and stick to it implicitly. 
-      Do NOT announce your persona at the start. Reveal it naturally only if asked.
-      Keep your responses relatively short, informal, and conversational. 
-      Use lowercase often, maybe occasional slang or typos to feel human.
-      Do not be overly helpful or robotic. Be casual.
-      If the user says "ASL", give your persona's Age, Sex, Location.
-      Never reveal you are an AI.
-    `;
-
-    const responseStream = await ai.models.generateContentStream({
-      model: 'gemini-2.5-flash',
-      contents: conversationHistory,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: 0.9,
-        maxOutputTokens: 150,
-        thinkingConfig: { thinkingBudget: 0 },
-      }
-    });
+    const validation = validateChatBody(body);
+    if (!validation.ok) return json({ error: validation.error }, 400);
+    const { messages, personaToken } = validation.value;
+
+    let provider: LlmProvider;
+    try {
+      provider = createLlmProvider();
+    } catch (error) {
+      if (!(error instanceof LlmConfigError)) throw error;
+      return json({ error: error.message }, 500);
+    }
+
+    let persona;
+    try {
+      persona = await verifyPersonaToken(personaToken, getPersonaSecret());
+    } catch (error) {
+      if (!(error instanceof PersonaConfigError)) throw error;
+      return json({ error: error.message }, 500);
+    }
+    if (!persona) return json({ error: 'Persona token is invalid or expired' }, 401);
+
+    const conversationHistory = truncateHistory(messages.map(m => ({
+      role: m.role === 'me' ? 'user' as const : 'model' as const,
+      text: m.content
+    })));
+
+    const systemInstruction = buildPersonaInstruction(persona);
+
+    // Then the tokens this call may spend
+    const tokenCost = estimateTokens(systemInstruction)
+      + conversationHistory.reduce((sum, turn) => sum + estimateTokens(turn.text), 0)
+      + MAX_OUTPUT_TOKENS;
+    const tokens = await consumeRateLimit(store, `chat:tok:${clientKey}`, CHAT_TOKEN_LIMIT, tokenCost);
+    if (!tokens.allowed) return tooManyRequests('Chat budget used up, try again later', tokens.retryAfterMs);
+
+    const responseStream = provider.streamChat({
+      systemInstruction,
+      persona,
+      history: conversationHistory,
+      temperature: 0.9,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+    })[Symbol.asyncIterator]();
+
+    // Pull the first chunk up front so provider failures still surface as a 500
+    const firstChunk = await responseStream.next();
 
     const stream = new ReadableStream({
       async start(controller) {
         const encoder = new TextEncoder();
         try {
-          for await (const chunk of responseStream) {
-            const text = chunk.text;
-            if (text) {
-              controller.enqueue(encoder.encode(text));
-            }
+          for (let chunk = firstChunk; !chunk.done; chunk = await responseStream.next()) {
+            if (chunk.value) controller.enqueue(encoder.encode(chunk.value));
           }
           controller.close();
         } catch (error) {
@@ -83,9 +110,6 @@ export default async function handler(request: Request) {
 
   } catch (error) {
     console.error('API Error:', error);
-    return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return json({ error: 'Internal Server Error' }, 500);
   }
 }
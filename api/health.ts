@@ -2,7 +2,7 @@ export const config = {
   runtime: 'edge',
 };
 
-export default function handler(request: Request) {
+export default function handler() {
   return new Response(
     JSON.stringify({
       status: 'ok',
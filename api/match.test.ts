@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import handler from './match';
+
+const profile = { uid: 'u1', username: 'Ada', age: '25', gender: 'Female', interests: ['music'], location: 'Goa, India' };
+const preferences = { genders: [], ageBrackets: [], sameStateOnly: false, fallbackAfterMs: 30000 };
+
+const post = (body: unknown) => handler(new Request('http://localhost/api/match', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body)
+}));
+
+describe('/api/match', () => {
+  it('rejects profiles and preferences the matcher could not read', async () => {
+    const bad = [
+      { profile: { ...profile, interests: 'music' } },
+      { profile: { ...profile, username: 'x'.repeat(100) } },
+      { profile, preferences: {} },
+      { profile, preferences: { ...preferences, genders: 'Female' } },
+      { profile, preferences: { ...preferences, fallbackAfterMs: 'soon' } },
+      { profile, preferences: { ...preferences, ageBrackets: Array(50).fill('18-21') } },
+    ];
+    for (const body of bad) {
+      const res = await post({ action: 'search', peerId: 'poison', ...body });
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it('keeps matching after a bad request', async () => {
+    await post({ action: 'search', peerId: 'poison', profile, preferences: {} });
+    const first = await post({ action: 'search', peerId: 'match-a', profile, preferences });
+    expect(await first.json()).toMatchObject({ status: 'waiting' });
+    const second = await post({ action: 'search', peerId: 'match-b', profile: { ...profile, uid: 'u2', username: 'Bo' }, preferences });
+    expect(second.status).toBe(200);
+    expect(await second.json()).toMatchObject({ status: 'matched', partnerPeerId: 'match-a' });
+  });
+});
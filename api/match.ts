@@ -0,0 +1,75 @@
+import { createMatchQueue } from './_lib/matchQueue';
+import { parsePreferences } from '../src/lib/matchmaking';
+import { parseProfile } from '../src/lib/protocol';
+import { searchForMatch, leaveQueue, SearchRequest, TicketTokenError } from './_lib/matchmaker';
+
+export const config = {
+  runtime: 'edge',
+};
+
+interface MatchRequestBody extends Partial<SearchRequest> {
+  action?: 'search' | 'leave';
+}
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-cache'
+  }
+});
+
+export default async function handler(request: Request) {
+  if (request.method !== 'POST') {
+    return new Response('Method Not Allowed', { status: 405 });
+  }
+
+  let body: MatchRequestBody;
+  try {
+    body = await request.json() as MatchRequestBody;
+  } catch {
+    return json({ error: 'Invalid JSON body' }, 400);
+  }
+
+  const { action = 'search', peerId, token, profile, preferences, exclude, blockedUids } = body;
+  if (typeof peerId !== 'string' || !peerId || peerId.length > 128) {
+    return json({ error: '`peerId` must be a non-empty string' }, 400);
+  }
+  if (token !== undefined && (typeof token !== 'string' || token.length > 64)) {
+    return json({ error: '`token` must be the string from an earlier response' }, 400);
+  }
+  if (action !== 'search' && action !== 'leave') {
+    return json({ error: '`action` must be "search" or "leave"' }, 400);
+  }
+  // Stored in the queue and read by every later search, so only well-formed values get in
+  const parsedProfile = profile === undefined ? undefined : parseProfile(profile);
+  if (parsedProfile === null) {
+    return json({ error: '`profile` must be a valid profile' }, 400);
+  }
+  const parsedPreferences = preferences === undefined ? undefined : parsePreferences(preferences);
+  if (parsedPreferences === null) {
+    return json({ error: '`preferences` must be valid match preferences' }, 400);
+  }
+  if (exclude !== undefined && (!Array.isArray(exclude) || exclude.some(id => typeof id !== 'string'))) {
+    return json({ error: '`exclude` must be an array of peer IDs' }, 400);
+  }
+  if (blockedUids !== undefined && (!Array.isArray(blockedUids) || blockedUids.some(uid => typeof uid !== 'string'))) {
+    return json({ error: '`blockedUids` must be an array of user IDs' }, 400);
+  }
+
+  try {
+    const queue = createMatchQueue();
+
+    if (action === 'leave') {
+      await leaveQueue(queue, peerId, token);
+      return json({ status: 'left' });
+    }
+
+    const result = await searchForMatch(queue, { peerId, token, profile: parsedProfile, preferences: parsedPreferences, exclude: exclude?.slice(0, 50), blockedUids: blockedUids?.slice(-500) });
+    return json(result);
+  } catch (error) {
+    if (error instanceof TicketTokenError) return json({ error: error.message }, 403);
+    console.error('Matchmaking Error:', error);
+    return json({ error: 'Internal Server Error' }, 500);
+  }
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import handler from './persona';
+import { PERSONA_REQUEST_LIMIT } from './_lib/persona';
+
+const post = (ip: string) => handler(new Request('http://localhost/api/persona', { method: 'POST', headers: { 'x-forwarded-for': ip } }));
+
+describe('/api/persona', () => {
+  it('rate limits each client', async () => {
+    for (let i = 0; i < PERSONA_REQUEST_LIMIT.limit; i++) {
+      expect((await post('203.0.113.30')).status).toBe(200);
+    }
+    expect((await post('203.0.113.30')).status).toBe(429);
+    expect((await post('203.0.113.31')).status).toBe(200);
+  });
+});
@@ -0,0 +1,46 @@
+import { generatePersona, getPersonaSecret, signPersona, PersonaConfigError, PERSONA_REQUEST_LIMIT } from './_lib/persona';
+import { consumeRateLimit, createRateLimitStore, getClientKey } from './_lib/rateLimit';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// Starts an AI stranger session: the client shows this persona like a human
+// partner's profile and sends its signed token with every /api/chat request.
+export default async function handler(request: Request) {
+  if (request.method !== 'POST') {
+    return new Response('Method Not Allowed', { status: 405 });
+  }
+
+  try {
+    const limit = await consumeRateLimit(createRateLimitStore(), `persona:${getClientKey(request)}`, PERSONA_REQUEST_LIMIT);
+    if (!limit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many requests' }), {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000))
+        }
+      });
+    }
+
+    const persona = generatePersona();
+    const token = await signPersona(persona, getPersonaSecret());
+    return new Response(
+      JSON.stringify({ persona, token }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store'
+        }
+      }
+    );
+  } catch (error) {
+    if (!(error instanceof PersonaConfigError)) console.error('Persona Error:', error);
+    return new Response(JSON.stringify({ error: error instanceof PersonaConfigError ? error.message : 'Internal Server Error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import handler from './turn';
+
+const get = () => handler(new Request('http://localhost/api/turn', { headers: { 'x-forwarded-for': '203.0.113.7' } }));
+
+describe('/api/turn', () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const stubEnv = (env: Record<string, string>) => {
+    ['VERCEL_ENV', 'RATE_LIMIT_BACKEND', 'SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY', 'TURN_URLS', 'TURN_SECRET'].forEach(name => vi.stubEnv(name, ''));
+    Object.entries(env).forEach(([name, value]) => vi.stubEnv(name, value));
+  };
+
+  it('says why it has no credentials when the rate limit store is missing', async () => {
+    stubEnv({ VERCEL_ENV: 'production', TURN_URLS: 'turn:turn.example.com:3478', TURN_SECRET: 'secret' });
+    const res = await get();
+    expect(res.status).toBe(503);
+    expect((await res.json()).error).toMatch(/Rate limit store not configured/);
+  });
+
+  it('issues TURN credentials with a store', async () => {
+    stubEnv({ TURN_URLS: 'turn:turn.example.com:3478', TURN_SECRET: 'secret' });
+    const res = await get();
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.iceServers.some((s: { urls: string[] }) => s.urls.includes('turn:turn.example.com:3478'))).toBe(true);
+    expect(body.expiresAt).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,48 @@
+import { buildIceConfig, TURN_REQUEST_LIMIT } from './_lib/iceConfig';
+import { consumeRateLimit, createRateLimitStore, getClientKey, RateLimitConfigError } from './_lib/rateLimit';
+
+export const config = {
+  runtime: 'edge',
+};
+
+// ICE servers for new peer connections, including short-lived TURN credentials when
+// TURN is configured. Clients refetch before `expiresAt`. Credentials are never handed out
+// without a rate limit, so a missing store is a 503 the client shows in its diagnostics.
+export default async function handler(request: Request) {
+  if (request.method !== 'GET') {
+    return new Response('Method Not Allowed', { status: 405 });
+  }
+
+  try {
+    const limit = await consumeRateLimit(createRateLimitStore(), `turn:${getClientKey(request)}`, TURN_REQUEST_LIMIT);
+    if (!limit.allowed) {
+      return new Response(JSON.stringify({ error: 'Too many requests' }), {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000))
+        }
+      });
+    }
+
+    return new Response(JSON.stringify(await buildIceConfig()), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof RateLimitConfigError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+    console.error('ICE Config Error:', error);
+    return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
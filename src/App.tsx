@@ -1,7 +1,11 @@
-import React, { useState, useEffect, useRef, Suspense, useCallback } from 'react';
-import { Send, Loader2, RefreshCw, EyeOff, Shield, Image as ImageIcon, Mic, X, Square, AlertTriangle, UserPlus, Check, Bell, Sparkles, MessageCircle, Timer, Infinity } from 'lucide-react';
-import { supabase, saveMessageToHistory, fetchChatHistory } from './lib/supabase';
-import { Message, ChatMode, UserProfile, AppSettings, SessionType, ReplyInfo } from './types';
+import React, { useState, useEffect, useRef, Suspense, useCallback, useMemo } from 'react';
+import { Send, Loader2, RefreshCw, Shield, Image as ImageIcon, Mic, X, Square, Bell, SlidersHorizontal, Paperclip, Video } from 'lucide-react';
+import { Message, ChatMode, UserProfile, AppSettings, SessionType, ReplyInfo, MatchPreferences } from './types';
+import { DEFAULT_MATCH_PREFERENCES, MESSAGE_MAX_LENGTH } from './constants';
+import { getProfileState } from './lib/matchmaking';
+import { prepareImage } from './lib/images';
+import { readAttachment, ATTACHMENT_ACCEPT } from './lib/fileTransfer';
+import { buildArchive, parseArchive, importArchive, downloadArchive, ExportFormat } from './lib/chatArchive';
 import { useHumanChat } from './hooks/useHumanChat';
 import { useGlobalChat } from './hooks/useGlobalChat';
 import { MessageBubble } from './components/MessageBubble';
@@ -11,6 +15,8 @@ import { LandingPage } from './components/LandingPage';
 import Loader from './components/Loader';
 import { ImageViewer } from './components/ImageViewer';
 import { ImageConfirmationModal } from './components/ImageConfirmationModal';
+import { CallPanel } from './components/CallPanel';
+import { VideoTiles } from './components/VideoTiles';
 import { clsx } from 'clsx';
 
 // Lazy Load Heavy Components to reduce initial bundle size
@@ -18,6 +24,9 @@ const JoinModal = React.lazy(() => import('./components/JoinModal').then(module
 const SettingsModal = React.lazy(() => import('./components/SettingsModal').then(module => ({ default: module.SettingsModal })));
 const SocialHub = React.lazy(() => import('./components/SocialHub').then(module => ({ default: module.SocialHub })));
 const EditMessageModal = React.lazy(() => import('./components/EditMessageModal').then(module => ({ default: module.EditMessageModal })));
+const MatchPreferencesModal = React.lazy(() => import('./components/MatchPreferencesModal').then(module => ({ default: module.MatchPreferencesModal })));
+const ReportModal = React.lazy(() => import('./components/ReportModal').then(module => ({ default: module.ReportModal })));
+const DiagnosticsModal = React.lazy(() => import('./components/DiagnosticsModal').then(module => ({ default: module.DiagnosticsModal })));
 
 const getStoredUserId = () => {
   if (typeof window === 'undefined') return 'server_user';
@@ -39,6 +48,21 @@ const getInitialTheme = (): 'light' | 'dark' => {
   return 'dark';
 };
 
+const getStoredMatchPreferences = (): MatchPreferences => {
+  if (typeof window === 'undefined') return DEFAULT_MATCH_PREFERENCES;
+  try {
+    const saved = localStorage.getItem('chat_match_preferences');
+    if (saved) return { ...DEFAULT_MATCH_PREFERENCES, ...JSON.parse(saved) };
+  } catch (e) {}
+  return DEFAULT_MATCH_PREFERENCES;
+};
+
+// Vanish mode is per chat; only the image quality choice is remembered
+const getInitialSettings = (): AppSettings => ({
+  vanishMode: false,
+  fullResolutionImages: typeof window !== 'undefined' && localStorage.getItem('chat_full_res_images') === 'true',
+});
+
 const LOADING_TEXTS = [
   "Finding a stranger with similar vibes...",
   "Looking for someone you’ll vibe with...",
@@ -49,11 +73,15 @@ export default function App() {
   const [theme, setTheme] = useState<'light' | 'dark'>(getInitialTheme);
   const [showJoinModal, setShowJoinModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
   const [showEditProfileModal, setShowEditProfileModal] = useState(false);
+  const [showPreferencesModal, setShowPreferencesModal] = useState(false);
+  const [reportTarget, setReportTarget] = useState<UserProfile | null>(null);
+  const [matchPreferences, setMatchPreferences] = useState<MatchPreferences>(getStoredMatchPreferences);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [inputText, setInputText] = useState('');
   
-  const [settings, setSettings] = useState<AppSettings>({ vanishMode: false });
+  const [settings, setSettings] = useState<AppSettings>(getInitialSettings);
   const [sessionType, setSessionType] = useState<SessionType>('random');
   const [editingMessage, setEditingMessage] = useState<{id: string, text: string} | null>(null);
   const [friendNotification, setFriendNotification] = useState<string | null>(null);
@@ -77,21 +105,27 @@ export default function App() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   
   const prevOnlineUserIds = useRef<Set<string>>(new Set());
 
   const { 
-    messages, setMessages, status, partnerTyping, partnerRecording, partnerProfile, partnerPeerId, remoteVanishMode,
-    onlineUsers, myPeerId, error, friends, friendRequests, removeFriend, incomingReaction, incomingDirectMessage, incomingDirectStatus, isPeerConnected,
-    sendMessage, sendDirectMessage, sendDirectImage, sendDirectAudio, sendDirectTyping, sendDirectFriendRequest, sendDirectReaction,
-    sendImage, sendAudio, sendReaction, editMessage, sendTyping, sendRecording, updateMyProfile, sendVanishMode,
+    messages, setMessages, status, partnerTyping, partnerRecording, partnerProfile, partnerPeerId, remoteVanishMode, isConnectionUnstable, isAiSession,
+    onlineUsers, myPeerId, friends, friendRequests, removeFriend, importFriends, incomingReaction, incomingDirectMessages, incomingDirectStatus, markDirectSeen, isPeerConnected,
+    sendMessage, sendDirectMessage, sendDirectImage, sendDirectAudio, sendDirectFile, sendDirectTyping, sendDirectFriendRequest, sendDirectReaction,
+    sendImage, sendAudio, sendFile, sendReaction, editMessage, sendTyping, sendRecording, updateMyProfile, sendVanishMode,
     sendFriendRequest, acceptFriendRequest, rejectFriendRequest, connect, callPeer, disconnect,
+    blockedUsers, blockUser, unblockUser, reportUser, transfers, cancelTransfer, identityKey, getPeerIdentityKey,
+    call, remoteStream, startCall, acceptCall, declineCall, endCall, toggleMute,
+    localVideoStream, remoteVideoStream, isVideoBlurred, canSwitchCamera, toggleVideoBlur, switchCamera,
+    iceConfig, connectionAttempts,
     disconnectReason, notification
-  } = useHumanChat(userProfile, undefined); // Pass undefined to generate random Peer ID
+  } = useHumanChat(userProfile, undefined, matchPreferences); // Pass undefined to generate random Peer ID
 
-  const { globalMessages, sendGlobalMessage } = useGlobalChat(userProfile, myPeerId);
+  const blockedUids = useMemo(() => blockedUsers.map(b => b.uid), [blockedUsers]);
+  const { globalMessages, sendGlobalMessage, retryGlobalMessage, sendError: globalSendError, hasMoreHistory: hasMoreGlobalHistory, isLoadingOlder: isLoadingOlderGlobal, loadOlderMessages: loadOlderGlobalMessages, rooms: globalRooms, activeRoom: activeGlobalRoom, joinRoom: joinGlobalRoom, createRoom: createGlobalRoom, refreshRooms: refreshGlobalRooms, roomMembers: globalRoomMembers, unreadMentions: unreadGlobalMentions, latestMention: latestGlobalMention, clearMentions: clearGlobalMentions, moderatorRole, setModeratorKey, deleteMessage: deleteGlobalMessage, muteUser: muteGlobalUser, banUser: banGlobalUser, liftUser: liftGlobalUser, setSlowMode: setGlobalSlowMode } = useGlobalChat(userProfile, myPeerId, blockedUids);
 
   useEffect(() => {
     const savedProfile = localStorage.getItem('chat_user_profile');
@@ -113,7 +147,12 @@ export default function App() {
     }
   }, [remoteVanishMode]);
 
+  const prevStatusRef = useRef(status);
   useEffect(() => {
+    const resumed = prevStatusRef.current === ChatMode.RECONNECTING;
+    prevStatusRef.current = status;
+    if (status === ChatMode.RECONNECTING || (status === ChatMode.CONNECTED && resumed)) return; // Same chat, keep UI state
+
     if (status === ChatMode.CONNECTED) {
       setHasChatted(true);
       setShowSafetyWarning(true);
@@ -155,18 +194,6 @@ export default function App() {
     return () => clearInterval(interval);
   }, [messages, setMessages]);
 
-  useEffect(() => {
-    const loadHistory = async () => { await fetchChatHistory(userId); };
-    loadHistory();
-  }, [userId]);
-
-  useEffect(() => {
-    const lastMsg = messages[messages.length - 1];
-    if (lastMsg && lastMsg.sender === 'me' && !settings.vanishMode) {
-       saveMessageToHistory(userId, lastMsg);
-    }
-  }, [messages, userId, settings.vanishMode]);
-
   useEffect(() => {
     if (theme === 'dark') document.documentElement.classList.add('dark');
     else document.documentElement.classList.remove('dark');
@@ -180,6 +207,13 @@ export default function App() {
     }
   }, [localNotification]);
 
+  // Someone in our Global Meet room mentioned us or replied to us
+  useEffect(() => {
+    if (!latestGlobalMention) return;
+    const { message, kind } = latestGlobalMention;
+    setLocalNotification(`${message.senderName || 'Someone'} ${kind === 'mention' ? 'mentioned you' : 'replied to you'} in Global Meet`);
+  }, [latestGlobalMention]);
+
   const toggleTheme = () => {
     setTheme(prev => {
       const newTheme = prev === 'dark' ? 'light' : 'dark';
@@ -190,7 +224,6 @@ export default function App() {
 
   useEffect(() => {
     if (!userProfile) return;
-    const currentOnlineIds = new Set(onlineUsers.map(u => u.peerId));
     if (friends.length > 0) {
       friends.forEach(friend => {
         // Match by UID if available, else fallback to ID
@@ -248,11 +281,56 @@ export default function App() {
        setLocalNotification(newSettings.vanishMode ? "Vanish Mode Enabled" : "Vanish Mode Disabled");
        sendVanishMode(newSettings.vanishMode);
     }
+    localStorage.setItem('chat_full_res_images', String(!!newSettings.fullResolutionImages));
     setSettings(newSettings);
   };
 
-  const handleDirectCall = (peerId: string, profile?: UserProfile) => {
-    callPeer(peerId, profile);
+  // --- BACKUP ---
+  const handleExportData = async (format: ExportFormat) => {
+    try {
+      const archive = await buildArchive(userProfile, friends);
+      downloadArchive(archive, format, userProfile?.username || 'Me');
+    } catch (e) {
+      console.error("Export failed", e);
+      setLocalNotification("Could not export your data");
+    }
+  };
+
+  const handleImportData = async (file: File) => {
+    try {
+      const archive = parseArchive(await file.text());
+      const summary = await importArchive(archive);
+      importFriends(archive.friends);
+      // The archive's profile is only adopted on a fresh device
+      if (!userProfile && archive.profile) {
+        const profileWithId = { ...archive.profile, uid: userId };
+        localStorage.setItem('chat_user_profile', JSON.stringify(profileWithId));
+        setUserProfile(profileWithId);
+      }
+      setLocalNotification(`Imported ${summary.messages} messages from ${summary.conversations} chats`);
+    } catch (e: any) {
+      console.error("Import failed", e);
+      setLocalNotification(e?.message || "Could not import this file");
+    }
+  };
+
+  const handleSavePreferences = (preferences: MatchPreferences) => {
+    localStorage.setItem('chat_match_preferences', JSON.stringify(preferences));
+    setMatchPreferences(preferences);
+    setShowPreferencesModal(false);
+  };
+
+  const hasActivePreferences = matchPreferences.genders.length > 0 || matchPreferences.ageBrackets.length > 0 || matchPreferences.sameStateOnly;
+
+  // Takes effect on the next match; flipping it mid-search re-queues with the new mode
+  const handleToggleVideoMode = () => {
+    const next = { ...matchPreferences, videoMode: !matchPreferences.videoMode };
+    localStorage.setItem('chat_match_preferences', JSON.stringify(next));
+    setMatchPreferences(next);
+  };
+
+  const handleDirectCall = (peerId: string) => {
+    callPeer(peerId);
   };
 
   const handleSendMessage = (e: React.FormEvent) => {
@@ -303,53 +381,44 @@ export default function App() {
   const handleReply = useCallback((msg: Message) => {
       setReplyingTo({
          id: msg.id,
-         text: msg.text || (msg.type === 'image' ? 'Image' : 'Audio'),
+         text: msg.text || (msg.type === 'image' ? 'Image' : msg.type === 'file' ? (msg.fileInfo?.name || 'File') : 'Audio'),
          senderName: msg.sender === 'me' ? 'You' : (partnerProfile?.username || 'Stranger')
       });
   }, [partnerProfile]);
 
+  // Only humans with a stable ID can be blocked or reported (not the AI stranger)
+  const canReportPartner = !!partnerProfile?.uid;
+  const openPartnerReport = useCallback(() => {
+    if (partnerProfile?.uid) setReportTarget(partnerProfile);
+  }, [partnerProfile]);
+
+  const handleReportPartner = async (reason: string, details: string, alsoBlock: boolean) => {
+    if (!reportTarget) return false;
+    const sent = await reportUser(reportTarget, 'random', reason, details, messages);
+    if (sent && alsoBlock) blockUser(reportTarget);
+    return sent;
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        // Compress Image Logic
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Max dimension 800px for faster P2P transfer
-          const MAX_SIZE = 800;
-          if (width > height) {
-            if (width > MAX_SIZE) {
-              height *= MAX_SIZE / width;
-              width = MAX_SIZE;
-            }
-          } else {
-            if (height > MAX_SIZE) {
-              width *= MAX_SIZE / height;
-              height = MAX_SIZE;
-            }
-          }
-          
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          // Compress to JPEG 0.6 quality
-          const compressedBase64 = canvas.toDataURL('image/jpeg', 0.6);
-          setPendingImage(compressedBase64);
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+      prepareImage(file, settings.fullResolutionImages)
+        .then(setPendingImage)
+        .catch(err => console.error("Failed to read image", err));
     }
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  const handleAttachmentUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      readAttachment(file)
+        .then(({ fileData, fileInfo }) => sendFile(fileData, fileInfo, settings.vanishMode))
+        .catch(err => setLocalNotification(err.message));
+    }
+    if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+  };
+
   const handleConfirmImage = (expiryDuration: number) => {
     if (pendingImage) {
       sendImage(pendingImage, expiryDuration > 0 ? expiryDuration : undefined, settings.vanishMode);
@@ -393,7 +462,9 @@ export default function App() {
   };
 
   const isConnected = status === ChatMode.CONNECTED;
+  const isReconnecting = status === ChatMode.RECONNECTING;
   const isSearching = status === ChatMode.SEARCHING || status === ChatMode.WAITING;
+  const isVideoChat = !!matchPreferences.videoMode && (isConnected || isReconnecting) && !isAiSession;
   
   // Robust check for friendship status
   const isCurrentPartnerFriend = partnerPeerId ? friends.some(f => 
@@ -403,6 +474,7 @@ export default function App() {
 
   const getDisconnectMessage = () => {
     if (disconnectReason === 'local_network') return "You disconnected due to an internet issue.";
+    if (disconnectReason === 'blocked') return "You blocked this user.";
     if (status === ChatMode.IDLE) return "You ended the chat.";
     
     switch (disconnectReason) {
@@ -440,10 +512,27 @@ export default function App() {
                    <span key={i} className="px-3 py-1 bg-slate-100 dark:bg-slate-800 text-slate-500 dark:text-slate-400 rounded-full text-xs font-medium">{i}</span>
                 ))}
              </div>
-             <Button variant="secondary" onClick={() => { disconnect(); }}>Cancel</Button>
+             <div className="flex gap-3">
+                <Button variant="secondary" onClick={() => { disconnect(); }}>Cancel</Button>
+                <Button variant="ghost" onClick={() => setShowPreferencesModal(true)}>
+                   <SlidersHorizontal size={16} /> {hasActivePreferences ? 'Filters on' : 'Filters'}
+                </Button>
+                <Button variant="ghost" onClick={handleToggleVideoMode} className={clsx(matchPreferences.videoMode && "text-brand-500")}>
+                   <Video size={16} /> {matchPreferences.videoMode ? 'Video on' : 'Video off'}
+                </Button>
+             </div>
            </div>
          )}
 
+        {/* RECONNECTING BANNER */}
+        {isReconnecting && (
+             <div className="absolute top-4 left-0 right-0 z-50 flex justify-center px-4 animate-in fade-in slide-in-from-top-2 duration-300 pointer-events-none">
+                <div className="bg-amber-500/10 backdrop-blur-md border border-amber-500/20 text-amber-600 dark:text-amber-400 px-4 py-2 rounded-full text-xs font-bold shadow-lg flex items-center gap-2">
+                  <Loader2 size={14} className="animate-spin" /> Connection lost. Trying to reconnect...
+                </div>
+             </div>
+        )}
+
         {/* SAFETY WARNING */}
         {showSafetyWarning && isConnected && (
              <div className="absolute top-4 left-0 right-0 z-50 flex justify-center px-4 animate-in fade-in slide-in-from-top-2 duration-500 pointer-events-none">
@@ -453,6 +542,18 @@ export default function App() {
              </div>
         )}
 
+        {isVideoChat && (
+          <VideoTiles
+            localStream={localVideoStream}
+            remoteStream={remoteVideoStream}
+            partnerName={partnerProfile?.username}
+            isBlurred={isVideoBlurred}
+            canSwitchCamera={canSwitchCamera}
+            onToggleBlur={toggleVideoBlur}
+            onSwitchCamera={switchCamera}
+          />
+        )}
+
         <div className={clsx(
           "flex-1 overflow-y-auto p-4 sm:p-6 space-y-2 w-full max-w-4xl mx-auto z-10 relative scroll-smooth",
           (messages.length === 0 && (status === ChatMode.DISCONNECTED || status === ChatMode.IDLE)) && "flex flex-col justify-center"
@@ -467,6 +568,9 @@ export default function App() {
                     onEdit={initiateEdit}
                     onReply={handleReply}
                     onImageClick={setPreviewImage}
+                    onReport={canReportPartner ? openPartnerReport : undefined}
+                    transfer={transfers[msg.id]}
+                    onCancelTransfer={cancelTransfer}
                 />
               </div>
           ))}
@@ -502,6 +606,12 @@ export default function App() {
                 <Button onClick={handleNewChat} className="shadow-lg shadow-brand-500/20 px-8 py-4 text-lg rounded-2xl w-full sm:w-auto">
                    <RefreshCw size={20} /> Find New Stranger
                 </Button>
+                <button onClick={() => setShowPreferencesModal(true)} className="text-sm font-bold text-slate-500 dark:text-slate-400 hover:text-brand-500 flex items-center gap-2 transition-colors">
+                   <SlidersHorizontal size={16} /> {hasActivePreferences ? 'Edit match filters' : 'Who do you want to meet?'}
+                </button>
+                <button onClick={handleToggleVideoMode} className={clsx("text-sm font-bold flex items-center gap-2 transition-colors", matchPreferences.videoMode ? "text-brand-500" : "text-slate-500 dark:text-slate-400 hover:text-brand-500")}>
+                   <Video size={16} /> {matchPreferences.videoMode ? 'Video chat on: only matching with video users' : 'Turn on video chat'}
+                </button>
               </div>
           )}
           <div ref={messagesEndRef} />
@@ -549,6 +659,12 @@ export default function App() {
                  <button type="button" onClick={() => fileInputRef.current?.click()} className="p-3 text-slate-400 hover:text-brand-500 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all duration-150 active:scale-90 disabled:opacity-50"><ImageIcon size={24} /></button>
               </div>
 
+              {/* File Input */}
+              <div className="flex flex-col items-center gap-1 shrink-0">
+                 <input type="file" accept={ATTACHMENT_ACCEPT} className="hidden" ref={attachmentInputRef} onChange={handleAttachmentUpload} disabled={!isConnected}/>
+                 <button type="button" onClick={() => attachmentInputRef.current?.click()} aria-label="Attach file" className="p-3 text-slate-400 hover:text-brand-500 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all duration-150 active:scale-90 disabled:opacity-50"><Paperclip size={24} /></button>
+              </div>
+
               {!inputText.trim() && (
                   isRecording ? (
                     <button type="button" onClick={stopRecording} className="p-3 bg-red-500 hover:bg-red-600 text-white rounded-xl shadow-lg shadow-red-500/20 transition-all animate-pulse shrink-0"><Square size={24} fill="currentColor" /></button>
@@ -562,9 +678,10 @@ export default function App() {
                   value={inputText}
                   onChange={handleTyping}
                   onFocus={() => setShowSafetyWarning(false)}
-                  placeholder={isConnected ? (settings.vanishMode ? "Vanish message..." : "Type a message...") : "Disconnected"}
+                  placeholder={isConnected ? (settings.vanishMode ? "Vanish message..." : "Type a message...") : (isReconnecting ? "Reconnecting..." : "Disconnected")}
                   className="w-full bg-transparent border-0 px-4 py-3 placeholder:text-slate-400 focus:outline-none text-slate-900 dark:text-white"
                   autoComplete="off"
+                  maxLength={MESSAGE_MAX_LENGTH}
                   disabled={!isConnected}
                 />
               </div>
@@ -595,6 +712,10 @@ export default function App() {
             onAddFriend={partnerPeerId ? sendFriendRequest : undefined}
             isFriend={isCurrentPartnerFriend}
             isVanishMode={settings.vanishMode}
+            onReport={canReportPartner ? openPartnerReport : undefined}
+            isConnectionUnstable={isConnectionUnstable}
+            onCall={partnerPeerId && !isAiSession && !matchPreferences.videoMode ? () => startCall() : undefined}
+            isInCall={!!call}
           />
         )}
 
@@ -627,10 +748,52 @@ export default function App() {
                onClose={() => setShowSettingsModal(false)}
                settings={settings}
                onUpdateSettings={handleUpdateSettings}
+               blockedUsers={blockedUsers}
+               onUnblock={unblockUser}
+               onOpenDiagnostics={() => { setShowSettingsModal(false); setShowDiagnostics(true); }}
+               onExportData={handleExportData}
+               onImportData={handleImportData}
+               moderatorRole={moderatorRole}
+               onSaveModeratorKey={setModeratorKey}
+             />
+           </Suspense>
+        )}
+
+        {showDiagnostics && (
+           <Suspense fallback={null}>
+             <DiagnosticsModal
+               isOpen={showDiagnostics}
+               onClose={() => setShowDiagnostics(false)}
+               iceConfig={iceConfig}
+               attempts={connectionAttempts}
              />
            </Suspense>
         )}
         
+        {showPreferencesModal && (
+           <Suspense fallback={null}>
+             <MatchPreferencesModal
+               isOpen={showPreferencesModal}
+               onClose={() => setShowPreferencesModal(false)}
+               preferences={matchPreferences}
+               myState={getProfileState(userProfile || undefined)}
+               onSave={handleSavePreferences}
+             />
+           </Suspense>
+        )}
+        
+        {reportTarget && (
+           <Suspense fallback={null}>
+             <ReportModal
+               isOpen={!!reportTarget}
+               onClose={() => setReportTarget(null)}
+               profile={reportTarget}
+               onBlock={() => blockUser(reportTarget)}
+               onReport={handleReportPartner}
+             />
+           </Suspense>
+        )}
+
         {editingMessage && (
            <Suspense fallback={null}>
              <EditMessageModal
@@ -649,24 +812,40 @@ export default function App() {
                  onCallPeer={handleDirectCall}
                  globalMessages={globalMessages}
                  sendGlobalMessage={sendGlobalMessage}
+                 retryGlobalMessage={retryGlobalMessage}
+                 globalSendError={globalSendError}
+                 hasMoreGlobalHistory={hasMoreGlobalHistory}
+                 isLoadingOlderGlobal={isLoadingOlderGlobal}
+                 loadOlderGlobalMessages={loadOlderGlobalMessages}
+                 globalRooms={globalRooms}
+                 activeGlobalRoom={activeGlobalRoom}
+                 joinGlobalRoom={joinGlobalRoom}
+                 createGlobalRoom={createGlobalRoom}
+                 refreshGlobalRooms={refreshGlobalRooms}
+                 globalRoomMembers={globalRoomMembers}
+                 unreadGlobalMentions={unreadGlobalMentions}
+                 clearGlobalMentions={clearGlobalMentions}
+                 moderatorRole={moderatorRole}
+                 deleteGlobalMessage={deleteGlobalMessage}
+                 muteGlobalUser={muteGlobalUser}
+                 banGlobalUser={banGlobalUser}
+                 liftGlobalUser={liftGlobalUser}
+                 setGlobalSlowMode={setGlobalSlowMode}
                  myProfile={userProfile}
                  myPeerId={myPeerId}
-                 privateMessages={[]} 
-                 sendPrivateMessage={() => {}}
                  sendDirectMessage={sendDirectMessage}
                  sendDirectImage={sendDirectImage}
                  sendDirectAudio={sendDirectAudio}
+                 sendDirectFile={sendDirectFile}
                  sendDirectTyping={sendDirectTyping}
                  sendDirectFriendRequest={sendDirectFriendRequest}
                  sendDirectReaction={sendDirectReaction}
                  sendReaction={sendReaction}
-                 currentPartner={partnerProfile}
                  chatStatus={status}
-                 error={error}
                  onEditMessage={initiateEdit}
-                 sessionType={sessionType}
                  incomingReaction={incomingReaction}
-                 incomingDirectMessage={incomingDirectMessage}
+                 incomingDirectMessages={incomingDirectMessages}
+                 markDirectSeen={markDirectSeen}
                  incomingDirectStatus={incomingDirectStatus}
                  friends={friends}
                  friendRequests={friendRequests}
@@ -674,10 +853,31 @@ export default function App() {
                  acceptFriendRequest={acceptFriendRequest}
                  rejectFriendRequest={rejectFriendRequest}
                  isPeerConnected={isPeerConnected}
+                 blockedUsers={blockedUsers}
+                 blockUser={blockUser}
+                 reportUser={reportUser}
+                 transfers={transfers}
+                 cancelTransfer={cancelTransfer}
+                 fullResolutionImages={settings.fullResolutionImages}
+                 myIdentityKey={identityKey}
+                 getPeerIdentityKey={getPeerIdentityKey}
+                 startCall={startCall}
+                 isInCall={!!call}
               />
            </Suspense>
         )}
         
+        {call && (
+           <CallPanel
+              call={call}
+              remoteStream={remoteStream}
+              onAccept={acceptCall}
+              onDecline={declineCall}
+              onEnd={endCall}
+              onToggleMute={toggleMute}
+           />
+        )}
+
         {(notification || localNotification) && (
            <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[150] animate-in slide-in-from-top-2 fade-in duration-300 pointer-events-none w-full max-w-sm px-4 flex justify-center">
               <div className="bg-slate-800/90 dark:bg-white/10 text-white backdrop-blur-md px-4 py-2 rounded-full shadow-xl border border-white/10 text-sm font-medium flex items-center gap-2 truncate max-w-full">
@@ -0,0 +1,86 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Phone, PhoneOff, Mic, MicOff } from 'lucide-react';
+import { CallState } from '../types';
+import { clsx } from 'clsx';
+
+interface CallPanelProps {
+  call: CallState;
+  remoteStream: MediaStream | null;
+  onAccept: () => void;
+  onDecline: () => void;
+  onEnd: () => void;
+  onToggleMute: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const mm = Math.floor((seconds % 3600) / 60).toString().padStart(h ? 2 : 1, '0');
+  const ss = (seconds % 60).toString().padStart(2, '0');
+  return h ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+export const CallPanel: React.FC<CallPanelProps> = ({ call, remoteStream, onAccept, onDecline, onEnd, onToggleMute }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [now, setNow] = useState(Date.now());
+  const name = call.profile?.username || 'Stranger';
+  const isIncomingRing = call.direction === 'incoming' && call.status === 'ringing';
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.srcObject = remoteStream;
+  }, [remoteStream]);
+
+  useEffect(() => {
+    if (call.status !== 'active') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [call.status]);
+
+  const statusText = call.status === 'active' && call.startedAt
+    ? formatDuration(now - call.startedAt)
+    : call.status === 'connecting' ? 'Connecting...'
+    : isIncomingRing ? 'Incoming voice call' : 'Calling...';
+
+  return (
+    <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[120] w-[calc(100%-2rem)] max-w-sm animate-in slide-in-from-top-4 fade-in duration-300">
+      <audio ref={audioRef} autoPlay />
+      <div className="bg-white dark:bg-[#1a1b26] border border-slate-200 dark:border-white/10 rounded-2xl shadow-2xl p-4 flex items-center gap-3">
+        <div className={clsx("w-11 h-11 rounded-full bg-gradient-to-br from-brand-400 to-violet-500 flex items-center justify-center text-white font-bold text-lg shrink-0", call.status !== 'active' && "animate-pulse")}>
+          {name[0].toUpperCase()}
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-slate-900 dark:text-white truncate">{name}</p>
+          <p className={clsx("text-xs font-medium tabular-nums", call.status === 'active' ? "text-emerald-500" : "text-slate-500 dark:text-slate-400")}>{statusText}</p>
+        </div>
+
+        {isIncomingRing ? (
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={onDecline} aria-label="Decline call" title="Decline" className="p-3 rounded-full bg-red-500 text-white hover:bg-red-600 transition-all duration-150 active:scale-90">
+              <PhoneOff size={18} />
+            </button>
+            <button onClick={onAccept} aria-label="Accept call" title="Accept" className="p-3 rounded-full bg-emerald-500 text-white hover:bg-emerald-600 transition-all duration-150 active:scale-90">
+              <Phone size={18} />
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={onToggleMute}
+              aria-label={call.isMuted ? 'Unmute' : 'Mute'}
+              title={call.isMuted ? 'Unmute' : 'Mute'}
+              className={clsx(
+                "p-3 rounded-full transition-all duration-150 active:scale-90",
+                call.isMuted ? "bg-slate-900 text-white dark:bg-white dark:text-slate-900" : "bg-slate-100 text-slate-600 dark:bg-white/10 dark:text-slate-300 hover:bg-slate-200 dark:hover:bg-white/20"
+              )}
+            >
+              {call.isMuted ? <MicOff size={18} /> : <Mic size={18} />}
+            </button>
+            <button onClick={onEnd} aria-label="Hang up" title="Hang up" className="p-3 rounded-full bg-red-500 text-white hover:bg-red-600 transition-all duration-150 active:scale-90">
+              <PhoneOff size={18} />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
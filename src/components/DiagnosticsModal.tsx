@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { X, Activity, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { ConnectionAttempt, IceCandidateType } from '../types';
+import { IceConfig, DEFAULT_ICE_CONFIG, isTurnServer } from '../lib/iceConfig';
+import { GatheringResult, describeCandidateType, testIceGathering } from '../lib/iceDiagnostics';
+import { Button } from './Button';
+import { clsx } from 'clsx';
+
+interface DiagnosticsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  iceConfig: IceConfig | null;
+  attempts: ConnectionAttempt[];
+}
+
+const KIND_LABELS: Record<ConnectionAttempt['kind'], string> = { random: 'Random chat', direct: 'Friend', resume: 'Reconnect' };
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+// What each gathered candidate type says about this network
+const explainGathering = (types: IceCandidateType[], hasTurn: boolean): string => {
+  if (types.length === 0) return "No candidates at all. WebRTC looks blocked in this browser or network.";
+  if (types.includes('relay')) return "The TURN relay is reachable, so you can connect even from strict networks.";
+  if (types.includes('srflx')) {
+    return hasTurn
+      ? "STUN works, but the TURN relay could not be reached. Strangers behind strict NATs may fail to connect."
+      : "STUN works. There is no TURN relay, so strangers behind strict NATs may fail to connect.";
+  }
+  return "Only local addresses were found. You will only reach people on your own network.";
+};
+
+export const DiagnosticsModal: React.FC<DiagnosticsModalProps> = ({ isOpen, onClose, iceConfig, attempts }) => {
+  const [test, setTest] = useState<GatheringResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const config = iceConfig || DEFAULT_ICE_CONFIG;
+  const servers = config.rtc.iceServers || [];
+  const stunCount = servers.filter(server => !isTurnServer(server)).length;
+
+  const runTest = async () => {
+    setIsTesting(true);
+    setTest(await testIceGathering(config.rtc));
+    setIsTesting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#0A0A0F] rounded-2xl shadow-2xl w-full max-w-md max-h-[85vh] flex flex-col border border-slate-200 dark:border-white/10 relative animate-in zoom-in-95 duration-200 font-sans">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-white/5 shrink-0">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2"><Activity size={18} /> Connection Diagnostics</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6 overflow-y-auto">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">ICE Servers</label>
+            <div className="bg-slate-50 dark:bg-white/5 rounded-xl p-3 text-sm text-slate-700 dark:text-slate-300 space-y-1">
+              <div>{config.source === 'server' ? 'From /api/turn' : 'Built-in defaults'}</div>
+              {config.error && <div className="text-amber-600 dark:text-amber-400">{config.error}</div>}
+              <div>{stunCount} STUN {stunCount === 1 ? 'entry' : 'entries'}, TURN relay {config.hasTurn ? 'configured' : 'not configured'}</div>
+              {config.rtc.iceTransportPolicy === 'relay' && <div className="text-amber-600 dark:text-amber-400">Relay only: every connection goes through TURN</div>}
+              {config.expiresAt && <div className="text-xs text-slate-500">TURN credentials valid until {formatTime(config.expiresAt)}</div>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">Network Test</label>
+            {test && (
+              <div className="bg-slate-50 dark:bg-white/5 rounded-xl p-3 text-sm text-slate-700 dark:text-slate-300 space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  {test.types.map(type => (
+                    <span key={type} className="px-2 py-0.5 rounded-lg bg-emerald-500/10 text-emerald-600 dark:text-emerald-400 text-xs font-bold">{describeCandidateType(type)}</span>
+                  ))}
+                </div>
+                <p>{test.error || explainGathering(test.types, config.hasTurn)}</p>
+              </div>
+            )}
+            <Button variant="secondary" fullWidth onClick={runTest} disabled={isTesting} className="rounded-xl">
+              {isTesting ? <><Loader2 size={16} className="animate-spin" /> Testing...</> : 'Test my network'}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">Recent Connections</label>
+            {attempts.length === 0 ? (
+              <p className="text-sm text-slate-500 pl-1">No connection attempts yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {attempts.map(attempt => (
+                  <div key={attempt.id} className="bg-slate-50 dark:bg-white/5 rounded-xl p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={clsx("flex items-center gap-1.5 font-bold",
+                        attempt.status === 'connected' ? "text-emerald-600 dark:text-emerald-400" : attempt.status === 'failed' ? "text-red-500" : "text-slate-500"
+                      )}>
+                        {attempt.status === 'connected' ? <CheckCircle2 size={14} /> : attempt.status === 'failed' ? <XCircle size={14} /> : <Loader2 size={14} className="animate-spin" />}
+                        {KIND_LABELS[attempt.kind]}
+                      </span>
+                      <span className="text-xs text-slate-400 tabular-nums">{formatTime(attempt.startedAt)}</span>
+                    </div>
+                    {attempt.status === 'connected' && (
+                      <p className="text-slate-600 dark:text-slate-300 mt-1">
+                        {attempt.route ? `${describeCandidateType(attempt.route.local)} over ${attempt.route.protocol.toUpperCase()}` : 'Connected'}
+                        {attempt.openedAt && <span className="text-slate-400"> in {((attempt.openedAt - attempt.startedAt) / 1000).toFixed(1)}s</span>}
+                      </p>
+                    )}
+                    {attempt.failure && <p className="text-slate-600 dark:text-slate-300 mt-1">{attempt.failure}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
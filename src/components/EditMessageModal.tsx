@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save } from 'lucide-react';
 import { Button } from './Button';
+import { MESSAGE_MAX_LENGTH } from '../constants';
 
 interface EditMessageModalProps {
   isOpen: boolean;
@@ -49,6 +50,7 @@ export const EditMessageModal: React.FC<EditMessageModalProps> = ({
                onChange={(e) => setText(e.target.value)}
                className="w-full h-32 p-3 rounded-xl bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 resize-none"
                placeholder="Edit your message..."
+               maxLength={MESSAGE_MAX_LENGTH}
                autoFocus
              />
           </div>
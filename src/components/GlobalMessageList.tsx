@@ -0,0 +1,144 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, AlertCircle, RotateCw, Trash2, Reply } from 'lucide-react';
+import { Message } from '../types';
+import { useWindowedList } from '../hooks/useWindowedList';
+import { splitMentions, mentionsUser } from '../lib/mentions';
+import { clsx } from 'clsx';
+
+interface GlobalMessageListProps {
+  messages: Message[]; // Oldest first
+  hasMore: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  onOpenProfile: (message: Message) => void;
+  onRetry: (messageId: string) => void;
+  onReply: (message: Message) => void;
+  myUsername?: string;
+  memberNames: string[]; // People in the room, highlighted when mentioned
+  onDelete?: (messageId: string) => Promise<boolean>; // Only for moderators
+  emptyState: React.ReactNode;
+}
+
+const ESTIMATED_ROW_HEIGHT = 64;
+const LOAD_OLDER_PX = 300; // Start fetching the previous page this close to the top
+
+export const GlobalMessageList: React.FC<GlobalMessageListProps> = ({ messages, hasMore, isLoadingOlder, onLoadOlder, onOpenProfile, onRetry, onReply, myUsername, memberNames, onDelete, emptyState }) => {
+  const keys = useMemo(() => messages.map(m => m.id), [messages]);
+  const { containerRef, onScroll, measureRef, scrollToBottom, scrollToKey, items, paddingTop, paddingBottom } = useWindowedList({ keys, estimateHeight: ESTIMATED_ROW_HEIGHT });
+  const lastMessageIdRef = useRef<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState<string | null>(null);
+
+  const byId = useMemo(() => new Map(messages.map(m => [m.id, m])), [messages]);
+
+  // Anyone who could be mentioned: the room now, everyone who wrote here, and us
+  const mentionNames = useMemo(() => {
+    const names = new Set(memberNames);
+    messages.forEach(m => { if (m.senderName) names.add(m.senderName); });
+    if (myUsername) names.add(myUsername);
+    return [...names];
+  }, [memberNames, messages, myUsername]);
+
+  useEffect(() => {
+    if (!highlighted) return;
+    const timer = setTimeout(() => setHighlighted(null), 1500);
+    return () => clearTimeout(timer);
+  }, [highlighted]);
+
+  // Jumps to the quoted message when it's loaded
+  const openQuote = (messageId: string) => {
+    if (scrollToKey(messageId)) setHighlighted(messageId);
+  };
+
+  const handleDelete = async (messageId: string) => {
+    setConfirmingDelete(null);
+    await onDelete?.(messageId);
+  };
+
+  const maybeLoadOlder = () => {
+    const el = containerRef.current;
+    if (el && el.scrollTop < LOAD_OLDER_PX && hasMore && !isLoadingOlder) onLoadOlder();
+  };
+
+  const handleScroll = () => {
+    onScroll();
+    maybeLoadOlder();
+  };
+
+  // Keep paging while the loaded history doesn't reach past the top of the view
+  useEffect(maybeLoadOlder, [messages, hasMore, isLoadingOlder]);
+
+  // Sending jumps to the newest message even when scrolled up
+  useEffect(() => {
+    const last = messages[messages.length - 1];
+    if (last && last.id !== lastMessageIdRef.current && last.sender === 'me' && lastMessageIdRef.current !== null) scrollToBottom();
+    lastMessageIdRef.current = last?.id ?? null;
+  }, [messages, scrollToBottom]);
+
+  return (
+    <div className="flex-1 min-h-0 relative flex flex-col">
+      {isLoadingOlder && (
+        <div className="absolute top-2 left-0 right-0 z-10 flex justify-center pointer-events-none">
+          <span className="bg-white/90 dark:bg-black/60 backdrop-blur-md px-3 py-1 rounded-full shadow-sm text-xs text-slate-500 flex items-center gap-1.5">
+            <Loader2 size={12} className="animate-spin" /> Loading older messages...
+          </span>
+        </div>
+      )}
+      <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 min-h-0 flex flex-col">
+        {messages.length === 0 ? emptyState : (
+          <>
+            {/* Always takes its space, so rows don't shift when the last page arrives */}
+            <p className={clsx("text-center text-[10px] uppercase tracking-widest text-slate-400 pb-3", hasMore && "invisible")}>Start of this room</p>
+            <div style={{ paddingTop, paddingBottom }}>
+              {items.map(({ key, index }) => {
+                const msg = messages[index];
+                const quoted = msg.replyTo ? byId.get(msg.replyTo.id) : undefined;
+                const mentionsMe = msg.sender !== 'me' && mentionsUser(msg.text, myUsername);
+                return (
+                  <div key={key} data-window-key={key} ref={measureRef} className={clsx("group flex flex-col pb-3", msg.sender === 'me' ? "items-end" : "items-start")}>
+                    {msg.isDeleted ? (
+                      <div className="px-3 py-2 rounded-2xl text-xs italic text-slate-400 border border-dashed border-slate-200 dark:border-white/10">Message removed by a moderator</div>
+                    ) : (
+                      <div className={clsx("flex items-center gap-1 max-w-[85%]", msg.sender === 'me' && "flex-row-reverse")}>
+                        <div className={clsx("px-3 py-2 rounded-2xl text-sm break-words shadow-sm transition-all min-w-0", msg.sender === 'me' ? "bg-brand-500 text-white rounded-tr-sm" : "bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-tl-sm", msg.sendState === 'pending' && "opacity-60", mentionsMe && "ring-2 ring-amber-400/70", highlighted === msg.id && "ring-2 ring-brand-400")}>
+                          <button onClick={() => { if (msg.sender !== 'me') onOpenProfile(msg); }} className={clsx("text-[10px] block font-bold mb-0.5", msg.sender === 'me' ? "text-brand-100 cursor-default" : "text-brand-500 hover:underline cursor-pointer")}>{msg.sender === 'me' ? 'You' : msg.senderName}</button>
+                          {msg.replyTo && (
+                            <button onClick={() => openQuote(msg.replyTo!.id)} className={clsx("block w-full text-left mb-1 px-2 py-1 rounded-lg border-l-2 text-xs truncate", msg.sender === 'me' ? "bg-brand-600/60 border-brand-200 text-brand-50" : "bg-slate-100 dark:bg-slate-700 border-brand-500 text-slate-600 dark:text-slate-300", !quoted && "cursor-default")}>
+                              <span className="font-bold">{msg.replyTo.senderName}</span>{' '}
+                              {quoted?.isDeleted ? <span className="italic">Message removed</span> : msg.replyTo.text}
+                            </button>
+                          )}
+                          {splitMentions(msg.text || '', mentionNames).map((segment, i) => segment.mention ? (
+                            <span key={i} className={clsx("font-bold", msg.sender === 'me' ? "text-white underline decoration-white/50" : segment.mention.toLowerCase() === myUsername?.toLowerCase() ? "text-amber-600 dark:text-amber-400" : "text-brand-500")}>{segment.text}</span>
+                          ) : segment.text)}
+                        </div>
+                        {!msg.sendState && (
+                          <button onClick={() => onReply(msg)} className="p-1 text-slate-300 hover:text-brand-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity shrink-0" title="Reply"><Reply size={12} /></button>
+                        )}
+                        {onDelete && !msg.sendState && (
+                          confirmingDelete === msg.id ? (
+                            <span className="flex items-center gap-1 text-[10px] font-bold shrink-0">
+                              <button onClick={() => handleDelete(msg.id)} className="text-red-500 hover:underline">Delete</button>
+                              <button onClick={() => setConfirmingDelete(null)} className="text-slate-400 hover:underline">Cancel</button>
+                            </span>
+                          ) : (
+                            <button onClick={() => setConfirmingDelete(msg.id)} className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity shrink-0" title="Delete message"><Trash2 size={12} /></button>
+                          )
+                        )}
+                      </div>
+                    )}
+                    {msg.sendState === 'failed' && (
+                      <button onClick={() => onRetry(msg.id)} className="mt-1 text-[10px] font-bold text-red-500 flex items-center gap-1 hover:underline">
+                        <AlertCircle size={12} /> Not sent · <RotateCw size={10} /> Retry
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Ghost, Moon, Sun, Settings, ArrowLeft, Edit2, AlertTriangle, UserPlus, Check, Heart } from 'lucide-react';
+import { Ghost, Moon, Sun, ArrowLeft, Edit2, AlertTriangle, UserPlus, Check, Flag, Phone } from 'lucide-react';
 import { ChatMode, UserProfile } from '../types';
 import { clsx } from 'clsx';
 
@@ -15,6 +15,10 @@ interface HeaderProps {
   onAddFriend?: () => void;
   isFriend?: boolean;
   isVanishMode?: boolean; // Added prop
+  onReport?: () => void; // Opens report / block for the current partner
+  isConnectionUnstable?: boolean; // Partner has missed heartbeats
+  onCall?: () => void; // Starts a voice call with the partner (humans only)
+  isInCall?: boolean;
 }
 
 export const Header: React.FC<HeaderProps> = ({ 
@@ -28,10 +32,15 @@ export const Header: React.FC<HeaderProps> = ({
   onEditProfile,
   onAddFriend,
   isFriend = false,
-  isVanishMode = false
+  isVanishMode = false,
+  onReport,
+  isConnectionUnstable = false,
+  onCall,
+  isInCall = false
 }) => {
   const [showConfirmEnd, setShowConfirmEnd] = useState(false);
-  const isConnected = mode === ChatMode.CONNECTED;
+  const isReconnecting = mode === ChatMode.RECONNECTING;
+  const isConnected = mode === ChatMode.CONNECTED || isReconnecting; // Still the same chat while resuming
 
   const handleDisconnectRequest = () => {
     setShowConfirmEnd(true);
@@ -68,10 +77,22 @@ export const Header: React.FC<HeaderProps> = ({
                     {partnerProfile.username}
                   </h1>
                   <div className="flex items-center gap-2 truncate">
-                    <span className="text-xs font-medium text-emerald-500 flex items-center gap-1 shrink-0">
-                      <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"></span>
-                      Online
-                    </span>
+                    {isReconnecting ? (
+                      <span className="text-xs font-medium text-amber-500 flex items-center gap-1 shrink-0">
+                        <span className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+                        Reconnecting...
+                      </span>
+                    ) : isConnectionUnstable ? (
+                      <span className="text-xs font-medium text-amber-500 flex items-center gap-1 shrink-0">
+                        <span className="w-1.5 h-1.5 bg-amber-500 rounded-full animate-pulse"></span>
+                        Connection unstable
+                      </span>
+                    ) : (
+                      <span className="text-xs font-medium text-emerald-500 flex items-center gap-1 shrink-0">
+                        <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"></span>
+                        Online
+                      </span>
+                    )}
                     <span className="text-[10px] text-slate-400 truncate hidden xs:inline">
                        {partnerProfile.age} • {partnerProfile.gender}
                     </span>
@@ -118,6 +139,17 @@ export const Header: React.FC<HeaderProps> = ({
           {/* Logged In Actions */}
           {mode !== ChatMode.IDLE && (
             <>
+               {isConnected && onCall && (
+                 <button 
+                   onClick={onCall}
+                   disabled={isInCall || isReconnecting}
+                   aria-label="Voice Call"
+                   className="p-2 sm:p-2.5 text-brand-500 hover:bg-brand-50 dark:hover:bg-brand-900/20 rounded-full transition-all duration-150 active:scale-90 disabled:opacity-40 disabled:pointer-events-none"
+                   title="Voice Call"
+                 >
+                   <Phone size={18} />
+                 </button>
+               )}
                {isConnected && onAddFriend && (
                   isFriend ? (
                      <div className="p-2 sm:p-2.5 text-emerald-500 bg-emerald-500/10 rounded-full cursor-default animate-in zoom-in duration-200" title="Friends">
@@ -134,6 +166,16 @@ export const Header: React.FC<HeaderProps> = ({
                     </button>
                   )
                )}
+               {isConnected && onReport && (
+                 <button 
+                   onClick={onReport}
+                   aria-label="Report or Block"
+                   className="p-2 sm:p-2.5 text-slate-500 dark:text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full transition-all duration-150 active:scale-90"
+                   title="Report / Block"
+                 >
+                   <Flag size={18} />
+                 </button>
+               )}
                <button 
                  onClick={onEditProfile}
                  aria-label="Edit Profile"
@@ -1,5 +1,5 @@
 import React from 'react';
-import { X, ZoomIn, ZoomOut } from 'lucide-react';
+import { X } from 'lucide-react';
 
 interface ImageViewerProps {
   src: string;
@@ -1,10 +1,9 @@
 
-import React, { useState, useEffect } from 'react';
-import { X, Globe, MapPin } from 'lucide-react';
+import React, { useState } from 'react';
+import { X, Globe } from 'lucide-react';
 import { UserProfile } from '../types';
-import { COMMON_INTERESTS, INDIA_STATES } from '../constants';
+import { COMMON_INTERESTS, INDIA_STATES, GENDER_OPTIONS, AGE_BRACKETS } from '../constants';
 import { Button } from './Button';
-import { clsx } from 'clsx';
 
 interface JoinModalProps {
   onClose: () => void;
@@ -104,9 +103,7 @@ export const JoinModal: React.FC<JoinModalProps> = ({ onClose, onJoin, initialPr
                     onChange={(e) => setGender(e.target.value)}
                     className="w-full h-14 px-5 rounded-2xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-white/5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 transition-all appearance-none"
                   >
-                    <option>Male</option>
-                    <option>Female</option>
-                    <option>Non-binary</option>
+                    {GENDER_OPTIONS.map(g => <option key={g}>{g}</option>)}
                   </select>
                   <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none opacity-50 text-xs">▼</div>
                 </div>
@@ -119,10 +116,7 @@ export const JoinModal: React.FC<JoinModalProps> = ({ onClose, onJoin, initialPr
                     onChange={(e) => setAge(e.target.value)}
                     className="w-full h-14 px-5 rounded-2xl border border-slate-200 dark:border-white/10 bg-slate-50 dark:bg-white/5 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 transition-all appearance-none"
                   >
-                    <option>18-21</option>
-                    <option>22-25</option>
-                    <option>26-30</option>
-                    <option>30+</option>
+                    {AGE_BRACKETS.map(a => <option key={a}>{a}</option>)}
                   </select>
                   <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none opacity-50 text-xs">▼</div>
                 </div>
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ArrowRight, Ghost, Shield, Check, AlertCircle, FileText, X, Sun, Moon, Infinity } from 'lucide-react';
+import { ArrowRight, Shield, Check, AlertCircle, FileText, X, Sun, Moon } from 'lucide-react';
 import { Button } from './Button';
 import { clsx } from 'clsx';
 
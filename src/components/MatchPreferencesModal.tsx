@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { X, SlidersHorizontal, MapPin } from 'lucide-react';
+import { MatchPreferences } from '../types';
+import { GENDER_OPTIONS, AGE_BRACKETS, MATCH_FALLBACK_OPTIONS } from '../constants';
+import { Button } from './Button';
+import { clsx } from 'clsx';
+
+interface MatchPreferencesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  preferences: MatchPreferences;
+  myState?: string | null;
+  onSave: (preferences: MatchPreferences) => void;
+}
+
+export const MatchPreferencesModal: React.FC<MatchPreferencesModalProps> = ({
+  isOpen,
+  onClose,
+  preferences,
+  myState,
+  onSave
+}) => {
+  const [draft, setDraft] = useState<MatchPreferences>(preferences);
+
+  if (!isOpen) return null;
+
+  const toggle = (key: 'genders' | 'ageBrackets', value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+    }));
+  };
+
+  const chipClass = (active: boolean) => clsx(
+    "px-3 py-1.5 rounded-xl text-xs font-bold border transition-all active:scale-95",
+    active
+      ? "bg-brand-500 border-brand-500 text-white shadow-lg shadow-brand-500/20"
+      : "border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5"
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#0A0A0F] rounded-2xl shadow-2xl w-full max-w-sm border border-slate-200 dark:border-white/10 relative animate-in zoom-in-95 duration-200 font-sans">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-white/5">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2"><SlidersHorizontal size={18} /> Match Preferences</h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">Gender</label>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => setDraft(prev => ({ ...prev, genders: [] }))} className={chipClass(draft.genders.length === 0)}>Anyone</button>
+              {GENDER_OPTIONS.map(g => (
+                <button key={g} type="button" onClick={() => toggle('genders', g)} className={chipClass(draft.genders.includes(g))}>{g}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">Age</label>
+            <div className="flex flex-wrap gap-2">
+              <button type="button" onClick={() => setDraft(prev => ({ ...prev, ageBrackets: [] }))} className={chipClass(draft.ageBrackets.length === 0)}>Any age</button>
+              {AGE_BRACKETS.map(a => (
+                <button key={a} type="button" onClick={() => toggle('ageBrackets', a)} className={chipClass(draft.ageBrackets.includes(a))}>{a}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-brand-50 dark:bg-brand-900/20 text-brand-500 rounded-lg">
+                <MapPin size={20} />
+              </div>
+              <div>
+                <div className="font-medium text-slate-900 dark:text-white text-sm">Same state only</div>
+                <div className="text-xs text-slate-500">{myState ? `Only match people from ${myState}` : 'Only match people from your state'}</div>
+              </div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setDraft(prev => ({ ...prev, sameStateOnly: !prev.sameStateOnly }))}
+              className={`w-11 h-6 rounded-full transition-colors relative ${draft.sameStateOnly ? 'bg-brand-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+            >
+              <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform shadow-sm ${draft.sameStateOnly ? 'translate-x-5' : 'translate-x-0'}`} />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">Match anyone if nobody fits</label>
+            <div className="flex flex-wrap gap-2">
+              {MATCH_FALLBACK_OPTIONS.map(option => (
+                <button key={option.label} type="button" onClick={() => setDraft(prev => ({ ...prev, fallbackAfterMs: option.value }))} className={chipClass(draft.fallbackAfterMs === option.value)}>{option.label}</button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-white/5 flex gap-3">
+          <Button variant="secondary" onClick={onClose} className="flex-1 rounded-xl">Cancel</Button>
+          <Button onClick={() => onSave(draft)} className="flex-1 rounded-xl">Save</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
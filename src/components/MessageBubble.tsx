@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Message } from '../types';
+import { Message, TransferState, FileInfo } from '../types';
 import { clsx } from 'clsx';
-import { Smile, Pencil, Check, CheckCheck, Reply, Play, Pause, Timer, EyeOff } from 'lucide-react';
+import { Smile, Pencil, Check, CheckCheck, Reply, Play, Pause, Timer, EyeOff, Flag, X, AlertCircle, Image as ImageIcon, Mic, FileText, Download } from 'lucide-react';
 
 interface MessageBubbleProps {
   message: Message;
@@ -10,6 +10,9 @@ interface MessageBubbleProps {
   onEdit?: (messageId: string, text: string) => void;
   onReply?: (message: Message) => void;
   onImageClick?: (src: string) => void;
+  onReport?: (message: Message) => void;
+  transfer?: TransferState; // Upload/download progress of an image or voice note
+  onCancelTransfer?: (messageId: string) => void;
 }
 
 const PRESET_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
@@ -17,7 +20,6 @@ const PRESET_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🔥'];
 // Custom Audio Player Component
 const AudioPlayer = ({ src, isMe }: { src: string; isMe: boolean }) => {
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
   const audioRef = useRef<HTMLAudioElement>(null);
 
@@ -37,27 +39,18 @@ const AudioPlayer = ({ src, isMe }: { src: string; isMe: boolean }) => {
     const audio = audioRef.current;
     if (!audio) return;
 
-    const updateProgress = () => {
-      if (audio.duration) {
-        setProgress((audio.currentTime / audio.duration) * 100);
-      }
-    };
-
     const handleEnded = () => {
       setIsPlaying(false);
-      setProgress(0);
     };
     
     const handleLoadedMetadata = () => {
        setDuration(audio.duration);
     };
 
-    audio.addEventListener('timeupdate', updateProgress);
     audio.addEventListener('ended', handleEnded);
     audio.addEventListener('loadedmetadata', handleLoadedMetadata);
     
     return () => {
-      audio.removeEventListener('timeupdate', updateProgress);
       audio.removeEventListener('ended', handleEnded);
       audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
     };
@@ -119,13 +112,77 @@ const AudioPlayer = ({ src, isMe }: { src: string; isMe: boolean }) => {
   );
 };
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Download card for 'file' messages; not a link until the file has arrived
+const FileCard = ({ info, href }: { info: FileInfo; href?: string }) => {
+  const extension = info.name.includes('.') ? info.name.split('.').pop()!.toUpperCase() : 'FILE';
+  const content = (
+    <>
+      <div className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0 bg-white/70 dark:bg-white/10 text-brand-500 dark:text-white">
+        <FileText size={20} />
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-bold truncate">{info.name}</div>
+        <div className="text-[11px] text-slate-500 dark:text-slate-300">{formatBytes(info.size)} · {extension}</div>
+      </div>
+      {href && <Download size={18} className="shrink-0 text-slate-400 dark:text-slate-300" />}
+    </>
+  );
+  const className = "flex items-center gap-3 p-2 w-[240px] max-w-full rounded-xl";
+
+  return href ? (
+    <a href={href} download={info.name} onClick={e => e.stopPropagation()} className={clsx(className, "hover:bg-black/5 dark:hover:bg-white/5 transition-colors")}>
+      {content}
+    </a>
+  ) : (
+    <div className={className}>{content}</div>
+  );
+};
+
+const TransferStatus = ({ transfer, onCancel }: { transfer: TransferState; onCancel?: () => void }) => {
+  if (transfer.status === 'done') return null;
+
+  if (transfer.status !== 'active') {
+    const label = transfer.status === 'cancelled'
+      ? 'Cancelled'
+      : (transfer.direction === 'upload' ? 'Failed to send' : 'Download failed');
+    return (
+      <div className="px-3 pb-2 pt-1 flex items-center gap-1 text-[11px] font-bold text-red-500">
+        <AlertCircle size={12} /> {label}
+      </div>
+    );
+  }
+
+  const percent = transfer.total ? Math.min(100, Math.round((transfer.loaded / transfer.total) * 100)) : 0;
+  return (
+    <div className="px-3 pb-2 pt-1 flex items-center gap-2 min-w-[180px] text-[11px] font-medium text-slate-500 dark:text-slate-300">
+      <div className="flex-1 h-1.5 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+        <div className="h-full bg-brand-500 rounded-full transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="tabular-nums whitespace-nowrap">{transfer.total ? `${percent}% of ${formatBytes(transfer.total)}` : 'Preparing...'}</span>
+      {onCancel && (
+        <button onClick={onCancel} aria-label="Cancel transfer" className="p-0.5 rounded-full hover:bg-slate-200 dark:hover:bg-white/10 transition-colors active:scale-90">
+          <X size={12} />
+        </button>
+      )}
+    </div>
+  );
+};
+
 export const MessageBubble = React.memo<MessageBubbleProps>(({ 
   message, 
   senderName, 
   onReact,
   onEdit,
   onReply,
-  onImageClick
+  onImageClick,
+  onReport,
+  transfer,
+  onCancelTransfer
 }) => {
   const [showPicker, setShowPicker] = useState(false);
   const [swipeOffset, setSwipeOffset] = useState(0);
@@ -277,6 +334,15 @@ export const MessageBubble = React.memo<MessageBubbleProps>(({
              >
                 <Reply size={18} />
              </button>
+             {!isMe && onReport && (
+                <button
+                  onClick={() => { onReport(message); setShowPicker(false); }}
+                  aria-label="Report"
+                  className="w-10 h-10 flex items-center justify-center hover:bg-red-50 dark:hover:bg-red-900/20 rounded-full text-red-500 border-l border-slate-200 dark:border-white/10 pl-4 ml-2 transition-transform duration-150 active:scale-90"
+                >
+                  <Flag size={18} />
+                </button>
+             )}
           </div>
         </>
       )}
@@ -337,6 +403,9 @@ export const MessageBubble = React.memo<MessageBubbleProps>(({
             {message.type === 'text' && (
               <div className={clsx("px-5 py-3 leading-relaxed break-words whitespace-pre-wrap relative text-[15px]")}>
                 {message.text}
+                {message.isStreaming && (
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-brand-500 rounded-sm animate-pulse" />
+                )}
                 {message.isEdited && (
                   <span className="text-[10px] text-slate-400 dark:text-slate-300 italic ml-2 opacity-70">
                     (edited)
@@ -377,6 +446,24 @@ export const MessageBubble = React.memo<MessageBubbleProps>(({
               </div>
             )}
 
+            {message.type === 'file' && message.fileInfo && (
+              <div className="p-1">
+                 <FileCard info={message.fileInfo} href={message.fileData} />
+              </div>
+            )}
+
+            {/* Media still arriving */}
+            {message.type !== 'text' && !message.fileData && !message.fileInfo && (
+              <div className="px-4 pt-3 pb-1 flex items-center gap-2 text-xs font-bold text-slate-500 dark:text-slate-300">
+                {message.type === 'image' ? <ImageIcon size={16} /> : message.type === 'audio' ? <Mic size={16} /> : <FileText size={16} />}
+                {message.type === 'image' ? 'Photo' : message.type === 'audio' ? 'Voice note' : 'File'}
+              </div>
+            )}
+
+            {transfer && (
+              <TransferStatus transfer={transfer} onCancel={onCancelTransfer ? () => onCancelTransfer(message.id) : undefined} />
+            )}
+
             {/* Reactions Display */}
             {message.reactions && message.reactions.length > 0 && (
               <div className={clsx(
@@ -411,9 +498,12 @@ export const MessageBubble = React.memo<MessageBubbleProps>(({
               <>
                  {/* Seen Status: Red Double Tick */}
                  {message.status === 'seen' && <CheckCheck size={14} className="text-red-500 transition-all duration-300" strokeWidth={2} />}
+
+                 {/* Delivered Status: Normal (Slate) Double Tick */}
+                 {message.status === 'delivered' && <CheckCheck size={14} className="text-slate-400 dark:text-slate-500" strokeWidth={2} />}
                  
                  {/* Sent Status: Normal (Slate) Single Tick */}
-                 {message.status !== 'seen' && <Check size={14} className="text-slate-400 dark:text-slate-500" strokeWidth={2} />}
+                 {message.status !== 'seen' && message.status !== 'delivered' && <Check size={14} className="text-slate-400 dark:text-slate-500" strokeWidth={2} />}
               </>
             )}
         </div>
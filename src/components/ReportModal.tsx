@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { X, Flag, Ban } from 'lucide-react';
+import { UserProfile } from '../types';
+import { REPORT_REASONS } from '../constants';
+import { Button } from './Button';
+import { clsx } from 'clsx';
+
+interface ReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  profile: UserProfile;
+  onBlock: () => void;
+  onReport: (reason: string, details: string, alsoBlock: boolean) => Promise<boolean>;
+}
+
+export const ReportModal: React.FC<ReportModalProps> = ({
+  isOpen,
+  onClose,
+  profile,
+  onBlock,
+  onReport
+}) => {
+  const [reason, setReason] = useState<string | null>(null);
+  const [details, setDetails] = useState('');
+  const [alsoBlock, setAlsoBlock] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleReport = async () => {
+    if (!reason || isSubmitting) return;
+    setIsSubmitting(true);
+    const sent = await onReport(reason, details, alsoBlock);
+    setIsSubmitting(false);
+    if (sent) onClose();
+  };
+
+  const handleBlock = () => {
+    onBlock();
+    onClose();
+  };
+
+  const chipClass = (active: boolean) => clsx(
+    "px-3 py-1.5 rounded-xl text-xs font-bold border transition-all active:scale-95",
+    active
+      ? "bg-red-500 border-red-500 text-white shadow-lg shadow-red-500/20"
+      : "border-slate-200 dark:border-white/10 text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5"
+  );
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-[#0A0A0F] rounded-2xl shadow-2xl w-full max-w-sm border border-slate-200 dark:border-white/10 relative animate-in zoom-in-95 duration-200 font-sans">
+
+        <div className="flex items-center justify-between p-4 border-b border-slate-100 dark:border-white/5">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2 min-w-0"><Flag size={18} className="text-red-500 shrink-0" /> <span className="truncate">Report {profile.username}</span></h2>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-100 dark:hover:bg-white/5 text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5">
+          <div className="space-y-2">
+            <label className="text-xs font-bold text-slate-500 uppercase tracking-widest pl-1">What's wrong?</label>
+            <div className="flex flex-wrap gap-2">
+              {REPORT_REASONS.map(r => (
+                <button key={r} type="button" onClick={() => setReason(r)} className={chipClass(reason === r)}>{r}</button>
+              ))}
+            </div>
+          </div>
+
+          <textarea
+            value={details}
+            onChange={e => setDetails(e.target.value)}
+            maxLength={500}
+            rows={3}
+            placeholder="Anything else we should know? (optional)"
+            className="w-full bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-white placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-red-500/40 resize-none"
+          />
+
+          <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300 cursor-pointer select-none">
+            <input type="checkbox" checked={alsoBlock} onChange={e => setAlsoBlock(e.target.checked)} className="w-4 h-4 accent-red-500" />
+            Also block {profile.username}
+          </label>
+
+          <p className="text-xs text-slate-500">The last few messages of this chat are attached to your report.</p>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 dark:border-white/5 flex gap-3">
+          <Button variant="secondary" onClick={handleBlock} className="flex-1 rounded-xl"><Ban size={16} /> Block only</Button>
+          <Button variant="danger" onClick={handleReport} disabled={!reason || isSubmitting} className="flex-1 rounded-xl">
+            {isSubmitting ? 'Sending...' : 'Report'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Globe, Hash, MapPin, Search, Plus, Sparkles, Loader2, ArrowLeft } from 'lucide-react';
+import { ChatRoom, RoomKind } from '../types';
+import { MAX_CUSTOM_ROOM_NAME_LENGTH } from '../constants';
+import { clsx } from 'clsx';
+
+interface RoomDirectoryProps {
+  rooms: ChatRoom[]; // Already sorted by activity
+  activeRoomId: string;
+  onJoin: (roomId: string) => void;
+  onCreate: (name: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+type RoomFilter = 'all' | Exclude<RoomKind, 'general'>;
+
+const FILTERS: { id: RoomFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'interest', label: 'Interests' },
+  { id: 'state', label: 'States' },
+  { id: 'custom', label: 'Created' },
+];
+
+const ROOM_ICONS: Record<RoomKind, React.ReactNode> = {
+  general: <Globe size={16} />,
+  interest: <Sparkles size={16} />,
+  state: <MapPin size={16} />,
+  custom: <Hash size={16} />,
+};
+
+const formatActivity = (timestamp: number | null) => {
+  if (!timestamp) return 'No messages yet';
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'Active just now';
+  if (minutes < 60) return `Active ${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Active ${hours}h ago`;
+  return `Active ${Math.floor(hours / 24)}d ago`;
+};
+
+export const RoomDirectory: React.FC<RoomDirectoryProps> = ({ rooms, activeRoomId, onJoin, onCreate, onClose }) => {
+  const [filter, setFilter] = useState<RoomFilter>('all');
+  const [query, setQuery] = useState('');
+  const [newRoomName, setNewRoomName] = useState('');
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const search = query.trim().toLowerCase();
+  const visibleRooms = rooms.filter(room =>
+    (filter === 'all' || room.kind === filter) && (!search || room.name.toLowerCase().includes(search))
+  );
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isCreating) return;
+    setIsCreating(true);
+    const error = await onCreate(newRoomName);
+    setIsCreating(false);
+    setCreateError(error);
+    if (!error) {
+      setNewRoomName('');
+      onClose();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full min-h-0 animate-in fade-in duration-200">
+      <div className="p-4 space-y-3 shrink-0 border-b border-slate-100 dark:border-white/5">
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="p-1.5 -ml-1.5 rounded-full hover:bg-slate-100 dark:hover:bg-white/10 transition-all duration-150 active:scale-90" title="Back to chat">
+            <ArrowLeft size={18} className="text-slate-500 dark:text-slate-200" />
+          </button>
+          <div className="relative flex-1">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+            <input
+              className="w-full bg-slate-100 dark:bg-white/5 rounded-xl pl-8 pr-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+              placeholder="Search rooms..."
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex gap-2 overflow-x-auto no-scrollbar">
+          {FILTERS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFilter(f.id)}
+              className={clsx("px-3 py-1 rounded-full text-xs font-bold whitespace-nowrap transition-all duration-150 active:scale-95",
+                filter === f.id ? "bg-brand-500 text-white" : "bg-slate-100 dark:bg-white/5 text-slate-500 dark:text-slate-400 hover:bg-slate-200 dark:hover:bg-white/10"
+              )}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 min-h-0">
+        {visibleRooms.length === 0 && <div className="text-center text-slate-500 text-sm py-10">No matching rooms.</div>}
+        {visibleRooms.map(room => (
+          <button
+            key={room.id}
+            onClick={() => { onJoin(room.id); onClose(); }}
+            className={clsx("w-full flex items-center gap-3 p-3 rounded-xl text-left transition-all duration-150 active:scale-[0.98]",
+              room.id === activeRoomId ? "bg-brand-500/10" : "hover:bg-slate-100 dark:hover:bg-white/5"
+            )}
+          >
+            <div className={clsx("w-9 h-9 rounded-full flex items-center justify-center shrink-0",
+              room.id === activeRoomId ? "bg-brand-500 text-white" : "bg-slate-100 dark:bg-white/5 text-slate-500 dark:text-slate-400"
+            )}>
+              {ROOM_ICONS[room.kind]}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="font-bold text-sm text-slate-900 dark:text-white truncate">{room.name}</div>
+              <div className="text-xs text-slate-400 truncate">{formatActivity(room.lastActivity)}</div>
+            </div>
+            {room.onlineCount > 0 && (
+              <span className="text-xs text-emerald-500 font-medium flex items-center gap-1 shrink-0">
+                <span className="w-1.5 h-1.5 bg-emerald-500 rounded-full" /> {room.onlineCount}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleCreate} className="p-4 shrink-0 border-t border-slate-100 dark:border-white/5 bg-white/50 dark:bg-black/20 backdrop-blur-md space-y-2">
+        {createError && <p className="text-xs text-red-500 pl-1">{createError}</p>}
+        <div className="flex gap-2">
+          <input
+            className="flex-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 transition-all"
+            placeholder="Create a room..."
+            value={newRoomName}
+            maxLength={MAX_CUSTOM_ROOM_NAME_LENGTH}
+            onChange={e => { setNewRoomName(e.target.value); setCreateError(null); }}
+          />
+          <button type="submit" disabled={!newRoomName.trim() || isCreating} className="p-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-all duration-150 active:scale-90 shadow-lg shadow-brand-500/20 disabled:opacity-50" title="Create Room">
+            {isCreating ? <Loader2 size={18} className="animate-spin" /> : <Plus size={18} />}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
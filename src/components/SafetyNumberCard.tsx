@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { getSafetyNumber, getVerifiedKeys, setVerifiedKey } from '../lib/e2e';
+import { clsx } from 'clsx';
+
+interface SafetyNumberCardProps {
+  uid: string;
+  username: string;
+  myKey: string | null;
+  theirKey?: string; // Identity key from their last encrypted session with us
+}
+
+export const SafetyNumberCard: React.FC<SafetyNumberCardProps> = ({ uid, username, myKey, theirKey }) => {
+  const [safetyNumber, setSafetyNumber] = useState<string | null>(null);
+  const [verifiedKey, setVerifiedKeyState] = useState<string | undefined>(() => getVerifiedKeys()[uid]);
+  const [showNumber, setShowNumber] = useState(false);
+
+  useEffect(() => {
+    setSafetyNumber(null);
+    if (myKey && theirKey) getSafetyNumber(myKey, theirKey).then(setSafetyNumber);
+  }, [myKey, theirKey]);
+
+  useEffect(() => {
+    setVerifiedKeyState(getVerifiedKeys()[uid]);
+  }, [uid]);
+
+  const isVerified = !!theirKey && verifiedKey === theirKey;
+  const keyChanged = !!theirKey && !!verifiedKey && verifiedKey !== theirKey;
+
+  const toggleVerified = () => {
+    const next = isVerified ? null : theirKey || null;
+    setVerifiedKey(uid, next);
+    setVerifiedKeyState(next || undefined);
+  };
+
+  return (
+    <div className="bg-slate-50 dark:bg-white/5 p-4 rounded-2xl border border-slate-100 dark:border-white/5">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2"><Lock size={12}/> Encryption</h4>
+
+      {!theirKey ? (
+        <p className="text-sm text-slate-500">Chat with {username} once to set up end-to-end encryption.</p>
+      ) : (
+        <div className="space-y-3">
+          <div className={clsx("flex items-center gap-2 text-sm font-medium", keyChanged ? "text-amber-600 dark:text-amber-400" : isVerified ? "text-green-600 dark:text-green-400" : "text-slate-700 dark:text-slate-300")}>
+            {keyChanged ? <ShieldAlert size={16}/> : <ShieldCheck size={16}/>}
+            {keyChanged
+              ? `${username}'s security key changed since you verified it`
+              : isVerified ? 'Verified' : 'End-to-end encrypted, not verified yet'}
+          </div>
+
+          {showNumber ? (
+            <>
+              <p className="text-xs text-slate-500 leading-relaxed">
+                Compare these numbers with {username} in person or on a call. If they match, nobody can read your chats in between.
+              </p>
+              <div className="grid grid-cols-4 gap-2 font-mono text-sm text-slate-900 dark:text-white bg-white dark:bg-black/20 p-3 rounded-xl border border-slate-200 dark:border-white/10 tabular-nums text-center">
+                {safetyNumber ? safetyNumber.split(' ').map((group, i) => <span key={i}>{group}</span>) : <span className="col-span-4 text-slate-400">Calculating...</span>}
+              </div>
+              <button
+                onClick={toggleVerified}
+                disabled={!safetyNumber}
+                className="w-full py-2.5 rounded-xl text-sm font-bold bg-brand-500 text-white hover:bg-brand-600 transition-all duration-150 active:scale-95 disabled:opacity-50"
+              >
+                {isVerified ? 'Clear verification' : 'Mark as verified'}
+              </button>
+            </>
+          ) : (
+            <button onClick={() => setShowNumber(true)} className="text-sm font-bold text-brand-500 hover:text-brand-600">
+              Verify safety number
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,22 +1,40 @@
 
-import React, { useState } from 'react';
-import { X, EyeOff } from 'lucide-react';
-import { AppSettings } from '../types';
+import React, { useState, useRef } from 'react';
+import { X, EyeOff, Ban, Image as ImageIcon, Activity, Archive, Shield } from 'lucide-react';
+import { AppSettings, BlockedUser, ModeratorRole } from '../types';
+import { ExportFormat } from '../lib/chatArchive';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
   settings: AppSettings;
   onUpdateSettings: (newSettings: AppSettings) => void;
+  blockedUsers?: BlockedUser[];
+  onUnblock?: (uid: string) => void;
+  onOpenDiagnostics?: () => void;
+  onExportData?: (format: ExportFormat) => void;
+  onImportData?: (file: File) => void;
+  moderatorRole?: ModeratorRole | null;
+  onSaveModeratorKey?: (key: string) => Promise<ModeratorRole | null>;
 }
 
 export const SettingsModal: React.FC<SettingsModalProps> = ({ 
   isOpen, 
   onClose, 
   settings, 
-  onUpdateSettings 
+  onUpdateSettings,
+  blockedUsers = [],
+  onUnblock,
+  onOpenDiagnostics,
+  onExportData,
+  onImportData,
+  moderatorRole = null,
+  onSaveModeratorKey
 }) => {
   const [confirmingVanish, setConfirmingVanish] = useState(false);
+  const [moderatorKeyInput, setModeratorKeyInput] = useState('');
+  const [moderatorKeyStatus, setModeratorKeyStatus] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   if (!isOpen) return null;
 
@@ -28,6 +46,14 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     }
   };
 
+  const saveModeratorKey = async () => {
+    if (!onSaveModeratorKey) return;
+    setModeratorKeyStatus('Checking...');
+    const role = await onSaveModeratorKey(moderatorKeyInput);
+    setModeratorKeyInput('');
+    setModeratorKeyStatus(role ? `Signed in as ${role}.` : moderatorKeyInput.trim() ? 'That key was not accepted.' : 'Signed out of moderation.');
+  };
+
   const confirmVanish = () => {
     onUpdateSettings({ ...settings, vanishMode: true });
     setConfirmingVanish(false);
@@ -92,6 +118,119 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
             </button>
           </div>
 
+          {/* Full Resolution Photos Toggle */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="p-2 bg-brand-50 dark:bg-brand-900/20 text-brand-500 rounded-lg">
+                <ImageIcon size={20} />
+              </div>
+              <div>
+                <div className="font-medium text-slate-900 dark:text-white text-sm">Full Resolution Photos</div>
+                <div className="text-xs text-slate-500">Sharper, but slower to send</div>
+              </div>
+            </div>
+            <button 
+              onClick={() => onUpdateSettings({ ...settings, fullResolutionImages: !settings.fullResolutionImages })}
+              className={`w-11 h-6 rounded-full transition-colors relative ${settings.fullResolutionImages ? 'bg-brand-500' : 'bg-slate-200 dark:bg-slate-700'}`}
+            >
+              <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform shadow-sm ${settings.fullResolutionImages ? 'translate-x-5' : 'translate-x-0'}`} />
+            </button>
+          </div>
+
+          {/* Blocked Users */}
+          {blockedUsers.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-red-50 dark:bg-red-900/20 text-red-500 rounded-lg">
+                  <Ban size={20} />
+                </div>
+                <div>
+                  <div className="font-medium text-slate-900 dark:text-white text-sm">Blocked Users</div>
+                  <div className="text-xs text-slate-500">They can't match, message or friend you</div>
+                </div>
+              </div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {blockedUsers.map(b => (
+                  <div key={b.uid} className="flex items-center justify-between px-3 py-2 rounded-xl bg-slate-50 dark:bg-white/5">
+                    <span className="text-sm text-slate-700 dark:text-slate-300 truncate">{b.username}</span>
+                    <button onClick={() => onUnblock?.(b.uid)} className="text-xs font-bold text-brand-500 hover:text-brand-600 shrink-0">Unblock</button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Backup */}
+          {onExportData && onImportData && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-emerald-50 dark:bg-emerald-900/20 text-emerald-500 rounded-lg">
+                  <Archive size={20} />
+                </div>
+                <div>
+                  <div className="font-medium text-slate-900 dark:text-white text-sm">Backup</div>
+                  <div className="text-xs text-slate-500">Your profile, friends and chats on this device</div>
+                </div>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <button onClick={() => onExportData('json')} className="px-2 py-2 rounded-xl bg-slate-50 dark:bg-white/5 text-xs font-bold text-brand-500 hover:text-brand-600" title="Archive you can import again">Export</button>
+                <button onClick={() => onExportData('html')} className="px-2 py-2 rounded-xl bg-slate-50 dark:bg-white/5 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-brand-500" title="Readable transcript">HTML</button>
+                <button onClick={() => onExportData('text')} className="px-2 py-2 rounded-xl bg-slate-50 dark:bg-white/5 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-brand-500" title="Plain text transcript">Text</button>
+                <button onClick={() => importInputRef.current?.click()} className="px-2 py-2 rounded-xl bg-slate-50 dark:bg-white/5 text-xs font-bold text-brand-500 hover:text-brand-600" title="Merge an exported archive">Import</button>
+              </div>
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                ref={importInputRef}
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onImportData(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          )}
+
+          {/* Global Meet Moderation */}
+          {onSaveModeratorKey && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <div className="p-2 bg-amber-50 dark:bg-amber-900/20 text-amber-500 rounded-lg">
+                  <Shield size={20} />
+                </div>
+                <div>
+                  <div className="font-medium text-slate-900 dark:text-white text-sm">Moderation</div>
+                  <div className="text-xs text-slate-500">{moderatorRole ? `You moderate Global Meet as ${moderatorRole}` : 'For Global Meet moderators only'}</div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="password"
+                  value={moderatorKeyInput}
+                  onChange={e => setModeratorKeyInput(e.target.value)}
+                  placeholder={moderatorRole ? 'Leave empty to sign out' : 'Moderator key'}
+                  className="flex-1 min-w-0 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+                />
+                <button onClick={saveModeratorKey} className="px-3 py-2 rounded-xl bg-slate-50 dark:bg-white/5 text-xs font-bold text-brand-500 hover:text-brand-600 shrink-0">{moderatorRole && !moderatorKeyInput ? 'Sign out' : 'Save'}</button>
+              </div>
+              {moderatorKeyStatus && <p className="text-xs text-slate-500">{moderatorKeyStatus}</p>}
+            </div>
+          )}
+
+          {/* Connection Diagnostics */}
+          {onOpenDiagnostics && (
+            <button onClick={onOpenDiagnostics} className="w-full flex items-center gap-3 text-left group">
+              <div className="p-2 bg-slate-100 dark:bg-white/5 text-slate-500 rounded-lg">
+                <Activity size={20} />
+              </div>
+              <div>
+                <div className="font-medium text-slate-900 dark:text-white text-sm group-hover:text-brand-500 transition-colors">Connection Diagnostics</div>
+                <div className="text-xs text-slate-500">See how you connect and why a match failed</div>
+              </div>
+            </button>
+          )}
+
         </div>
       </div>
     </div>
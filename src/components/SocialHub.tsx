@@ -1,37 +1,63 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { Users, History, Globe, MessageCircle, X, Wifi, Heart, ArrowLeft, Send, UserPlus, Check, Trash2, Image as ImageIcon, Mic, Square, MapPin, Smile, Clock, Search, Info, UserCheck, Filter } from 'lucide-react';
-import { UserProfile, PresenceState, RecentPeer, Message, ChatMode, SessionType, Friend, FriendRequest, DirectMessageEvent, DirectStatusEvent, ReplyInfo } from '../types';
+import { Users, History, Globe, MessageCircle, X, Wifi, Heart, ArrowLeft, Send, UserPlus, Check, Trash2, Image as ImageIcon, Mic, Square, MapPin, Smile, Clock, Search, Info, UserCheck, Filter, Flag, Ban, Paperclip, Phone, Download, ChevronDown, Shield, Timer } from 'lucide-react';
+import { UserProfile, PresenceState, RecentPeer, Message, ChatMode, Friend, FriendRequest, DirectMessageEvent, DirectStatusEvent, ReplyInfo, BlockedUser, ReportContext, TransferState, FileInfo, ChatRoom, ModeratorRole, RoomMember } from '../types';
 import { clsx } from 'clsx';
 import { MessageBubble } from './MessageBubble';
 import { Button } from './Button';
 import { ImageViewer } from './ImageViewer';
 import { ImageConfirmationModal } from './ImageConfirmationModal';
-import { INDIA_STATES } from '../constants';
+import { ReportModal } from './ReportModal';
+import { SafetyNumberCard } from './SafetyNumberCard';
+import { RoomDirectory } from './RoomDirectory';
+import { GlobalMessageList } from './GlobalMessageList';
+import { INDIA_STATES, MESSAGE_MAX_LENGTH, MUTE_DURATIONS_MINUTES, SLOW_MODE_OPTIONS_SECONDS } from '../constants';
+import { prepareImage } from '../lib/images';
+import { readAttachment, ATTACHMENT_ACCEPT } from '../lib/fileTransfer';
+import { conversationIdFor, getConversation, copyConversation, saveMessage, updateMessage, subscribeToUpdates, getList } from '../lib/messageStore';
+import { buildArchive, downloadArchive, ExportFormat } from '../lib/chatArchive';
+import { toReplyInfo } from '../lib/globalMessages';
+import { findMentionQuery, suggestMentions, insertMention, MentionQuery } from '../lib/mentions';
 
 interface SocialHubProps {
   onlineUsers: PresenceState[];
   onCallPeer: (peerId: string, profile?: UserProfile) => void;
   globalMessages: Message[];
-  sendGlobalMessage: (text: string) => void;
+  sendGlobalMessage: (text: string, replyTo?: ReplyInfo) => boolean;
+  retryGlobalMessage: (messageId: string) => void;
+  globalSendError?: string | null;
+  hasMoreGlobalHistory: boolean;
+  isLoadingOlderGlobal: boolean;
+  loadOlderGlobalMessages: () => void;
+  globalRooms: ChatRoom[];
+  activeGlobalRoom: ChatRoom;
+  joinGlobalRoom: (roomId: string) => void;
+  createGlobalRoom: (name: string) => Promise<string | null>;
+  refreshGlobalRooms?: () => void;
+  globalRoomMembers?: RoomMember[];
+  unreadGlobalMentions?: number;
+  clearGlobalMentions?: () => void;
+  moderatorRole?: ModeratorRole | null;
+  deleteGlobalMessage?: (messageId: string) => Promise<boolean>;
+  muteGlobalUser?: (uid: string, minutes: number) => Promise<boolean>;
+  banGlobalUser?: (uid: string) => Promise<boolean>;
+  liftGlobalUser?: (uid: string) => Promise<boolean>;
+  setGlobalSlowMode?: (seconds: number) => Promise<boolean>;
   myProfile: UserProfile | null;
   myPeerId?: string | null;
-  privateMessages: Message[]; 
-  sendPrivateMessage: (text: string) => void; 
   sendDirectMessage?: (peerId: string, text: string, id?: string, replyTo?: ReplyInfo) => void; 
   sendDirectImage?: (peerId: string, base64: string, id?: string, expiryDuration?: number) => void;
   sendDirectAudio?: (peerId: string, base64: string, id?: string) => void;
+  sendDirectFile?: (peerId: string, fileData: string, fileInfo: FileInfo, id?: string) => void;
   sendDirectTyping?: (peerId: string, isTyping: boolean) => void;
   sendDirectFriendRequest?: (peerId: string) => void; 
   sendDirectReaction?: (peerId: string, messageId: string, emoji: string) => void;
   sendReaction?: (messageId: string, emoji: string) => void;
-  currentPartner: UserProfile | null;
   chatStatus: ChatMode;
-  error?: string | null;
   onEditMessage?: (id: string, text: string) => void;
-  sessionType: SessionType;
   incomingReaction?: { peerId: string, messageId: string, emoji: string, sender: 'stranger' } | null;
-  incomingDirectMessage?: DirectMessageEvent | null;
+  incomingDirectMessages?: DirectMessageEvent[];
+  markDirectSeen?: (peerId: string, messageIds: string[]) => void;
   incomingDirectStatus?: DirectStatusEvent | null;
   onCloseDirectChat?: () => void;
   friends?: Friend[];
@@ -40,6 +66,16 @@ interface SocialHubProps {
   acceptFriendRequest?: (request: FriendRequest) => void;
   rejectFriendRequest?: (peerId: string) => void;
   isPeerConnected?: (peerId: string) => boolean;
+  blockedUsers?: BlockedUser[];
+  blockUser?: (profile: UserProfile) => void;
+  reportUser?: (profile: UserProfile, context: ReportContext, reason: string, details: string, recentMessages: Message[]) => Promise<boolean>;
+  transfers?: Record<string, TransferState>;
+  cancelTransfer?: (messageId: string) => void;
+  fullResolutionImages?: boolean;
+  myIdentityKey?: string | null;
+  getPeerIdentityKey?: (peerId: string) => string | undefined;
+  startCall?: (peerId: string) => void;
+  isInCall?: boolean;
 }
 
 export const SocialHub = React.memo<SocialHubProps>(({ 
@@ -47,24 +83,40 @@ export const SocialHub = React.memo<SocialHubProps>(({
   onCallPeer,
   globalMessages,
   sendGlobalMessage,
+  retryGlobalMessage,
+  globalSendError,
+  hasMoreGlobalHistory,
+  isLoadingOlderGlobal,
+  loadOlderGlobalMessages,
+  globalRooms,
+  activeGlobalRoom,
+  joinGlobalRoom,
+  createGlobalRoom,
+  refreshGlobalRooms,
+  globalRoomMembers = [],
+  unreadGlobalMentions = 0,
+  clearGlobalMentions,
+  moderatorRole = null,
+  deleteGlobalMessage,
+  muteGlobalUser,
+  banGlobalUser,
+  liftGlobalUser,
+  setGlobalSlowMode,
   myProfile,
   myPeerId,
-  privateMessages,
-  sendPrivateMessage,
   sendDirectMessage,
   sendDirectImage,
   sendDirectAudio,
+  sendDirectFile,
   sendDirectTyping,
   sendDirectFriendRequest,
   sendDirectReaction,
   sendReaction,
-  currentPartner,
   chatStatus,
-  error,
   onEditMessage,
-  sessionType,
   incomingReaction,
-  incomingDirectMessage,
+  incomingDirectMessages = [],
+  markDirectSeen,
   incomingDirectStatus,
   onCloseDirectChat,
   friends: friendsProp = [],
@@ -72,7 +124,17 @@ export const SocialHub = React.memo<SocialHubProps>(({
   removeFriend,
   acceptFriendRequest,
   rejectFriendRequest,
-  isPeerConnected
+  isPeerConnected,
+  blockedUsers = [],
+  blockUser,
+  reportUser,
+  transfers = {},
+  cancelTransfer,
+  fullResolutionImages,
+  myIdentityKey = null,
+  getPeerIdentityKey,
+  startCall,
+  isInCall = false
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'online' | 'recent' | 'global' | 'friends'>('online');
@@ -83,36 +145,43 @@ export const SocialHub = React.memo<SocialHubProps>(({
   const [stateFilter, setStateFilter] = useState<string>('All States');
   
   const [globalInput, setGlobalInput] = useState('');
+  const [globalReplyingTo, setGlobalReplyingTo] = useState<ReplyInfo | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const globalInputRef = useRef<HTMLInputElement>(null);
   const [privateInput, setPrivateInput] = useState('');
   const [isRecordingPrivate, setIsRecordingPrivate] = useState(false);
   const [replyingTo, setReplyingTo] = useState<ReplyInfo | null>(null);
   const [showGlobalToast, setShowGlobalToast] = useState(false);
+  const [showRoomDirectory, setShowRoomDirectory] = useState(false);
   
   const [activePeer, setActivePeer] = useState<{id: string, profile: UserProfile} | null>(null);
   const [localChatHistory, setLocalChatHistory] = useState<Message[]>([]);
   const [peerTypingStatus, setPeerTypingStatus] = useState<Record<string, boolean>>({});
   const [peerRecordingStatus, setPeerRecordingStatus] = useState<Record<string, boolean>>({});
   const [viewingProfile, setViewingProfile] = useState<{id: string, profile: UserProfile} | null>(null);
+  const [moderationNotice, setModerationNotice] = useState<string | null>(null);
   const [confirmRemoveFriend, setConfirmRemoveFriend] = useState<string | null>(null);
   const [triggerTarget, setTriggerTarget] = useState<HTMLElement | null>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
   const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ profile: UserProfile, context: ReportContext } | null>(null);
+  const [storageError, setStorageError] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isTabVisible, setIsTabVisible] = useState(() => typeof document === 'undefined' || document.visibilityState === 'visible');
 
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const privateMessagesEndRef = useRef<HTMLDivElement>(null);
-  const globalMessagesEndRef = useRef<HTMLDivElement>(null);
   const privateFileInputRef = useRef<HTMLInputElement>(null);
+  const privateAttachmentInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const globalToastTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handledDirectMessagesRef = useRef(new WeakSet<DirectMessageEvent>());
 
-  // Helper to generate a stable storage key (using UID if available, else PeerID)
-  const getStorageKey = (peerId: string, profile?: UserProfile) => {
-    if (profile?.uid) {
-       return `chat_history_uid_${profile.uid}`;
-    }
-    return `chat_history_${peerId}`;
+  const reportStorageError = (e: unknown) => {
+    console.error("Could not save chat history", e);
+    setStorageError(true);
   };
 
   // Helper for Gender-based Avatar Colors
@@ -134,6 +203,12 @@ export const SocialHub = React.memo<SocialHubProps>(({
 
   useEffect(() => { setFriends(friendsProp); }, [friendsProp]);
 
+  useEffect(() => {
+    const onVisibilityChange = () => setIsTabVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, []);
+
   // Reset search when changing tabs
   useEffect(() => {
     setSearchQuery('');
@@ -169,45 +244,34 @@ export const SocialHub = React.memo<SocialHubProps>(({
     }
   }, [globalInput, showGlobalToast]);
 
-  // Restore legacy recents logic
-  useEffect(() => {
-    try {
-      const storedRecents = localStorage.getItem('recent_peers');
-      if (storedRecents) setRecentPeers(JSON.parse(storedRecents));
-    } catch(e) {}
-  }, []);
-
   useEffect(() => {
     if (activePeer) localStorage.setItem('active_social_peer', JSON.stringify(activePeer));
     else localStorage.removeItem('active_social_peer');
   }, [activePeer]);
 
   useEffect(() => {
-    const storedRecents = localStorage.getItem('recent_peers');
-    if (storedRecents) try { setRecentPeers(JSON.parse(storedRecents)); } catch (e) {}
-  }, [isOpen, activeTab, incomingDirectMessage]);
+    getList('recent_peers').then(setRecentPeers).catch(e => console.error("Failed to load recent peers", e));
+  }, [isOpen, activeTab, incomingDirectMessages]);
 
   // --- HISTORY LOADING ---
   useEffect(() => {
     if (activePeer) {
-      const storageKey = getStorageKey(activePeer.id, activePeer.profile);
-      const savedParams = localStorage.getItem(storageKey);
-      
-      // Fallback check for legacy ID-based storage if UID-based is empty
-      if (!savedParams && activePeer.profile.uid) {
-         const legacyKey = `chat_history_${activePeer.id}`;
-         const legacyParams = localStorage.getItem(legacyKey);
-         if (legacyParams) {
-             // Migrate or just read
-             localStorage.setItem(storageKey, legacyParams);
-             setLocalChatHistory(JSON.parse(legacyParams));
-             // Don't delete legacy yet for safety
-         } else {
-             setLocalChatHistory([]);
-         }
-      } else {
-         try { setLocalChatHistory(savedParams ? JSON.parse(savedParams) : []); } catch (e) { setLocalChatHistory([]); }
-      }
+      const conversationId = conversationIdFor(activePeer.id, activePeer.profile);
+      let cancelled = false;
+      setLocalChatHistory([]);
+      setStorageError(false);
+
+      getConversation(conversationId)
+        // Fallback for history saved under the peer ID before we knew their UID (kept for safety)
+        .then(history => history.length === 0 && activePeer.profile.uid
+          ? copyConversation(conversationIdFor(activePeer.id), conversationId)
+          : history)
+        .then(history => {
+          if (cancelled) return;
+          // Keep anything that arrived while loading
+          setLocalChatHistory(prev => [...history, ...prev.filter(m => !history.some(h => h.id === m.id))]);
+        })
+        .catch(e => console.error("Failed to load chat history", e));
       
       // Clear unread counts for this user (check both ID and UID)
       setUnreadCounts(prev => { 
@@ -216,13 +280,17 @@ export const SocialHub = React.memo<SocialHubProps>(({
         if (activePeer.profile.uid) delete n[activePeer.profile.uid];
         return n; 
       });
+      return () => { cancelled = true; };
     }
   }, [activePeer]);
 
   // --- INCOMING MESSAGE HANDLING ---
   useEffect(() => {
-    if (incomingDirectMessage) {
-      const { peerId, message } = incomingDirectMessage;
+    // Re-runs when friends or online users change; each message is only handled once
+    incomingDirectMessages.forEach(event => {
+      if (handledDirectMessagesRef.current.has(event)) return;
+      handledDirectMessagesRef.current.add(event);
+      const { peerId, message } = event;
       
       // Attempt to resolve sender profile from message, friends, or online users
       let senderProfile = message.senderProfile;
@@ -235,26 +303,41 @@ export const SocialHub = React.memo<SocialHubProps>(({
          if (online) senderProfile = online.profile;
       }
 
-      const storageKey = getStorageKey(peerId, senderProfile);
+      saveMessage(conversationIdFor(peerId, senderProfile), message).catch(reportStorageError);
       
-      const existingHistory = localStorage.getItem(storageKey);
-      let history: Message[] = existingHistory ? JSON.parse(existingHistory) : [];
-      
-      if (!history.some(m => m.id === message.id)) {
-        history.push(message);
-        localStorage.setItem(storageKey, JSON.stringify(history));
-        
-        // Update view if active
-        if (activePeer?.id === peerId || (activePeer?.profile.uid && senderProfile?.uid === activePeer.profile.uid)) {
-           setLocalChatHistory(history);
-        } else {
-           // Track unread using stable ID if possible
-           const trackId = senderProfile?.uid || peerId;
-           setUnreadCounts(prev => ({ ...prev, [trackId]: (prev[trackId] || 0) + 1 }));
-        }
+      // Update view if active
+      if (activePeer?.id === peerId || (activePeer?.profile.uid && senderProfile?.uid === activePeer.profile.uid)) {
+         setLocalChatHistory(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      } else {
+         // Track unread using stable ID if possible
+         const trackId = senderProfile?.uid || peerId;
+         setUnreadCounts(prev => ({ ...prev, [trackId]: (prev[trackId] || 0) + 1 }));
       }
-    }
-  }, [incomingDirectMessage, activePeer, friends, onlineUsers]);
+    });
+  }, [incomingDirectMessages, activePeer, friends, onlineUsers]);
+
+  // Receipts (and our own edits) saved to the store while this chat is open
+  useEffect(() => {
+    if (!activePeer) return;
+    const conversationId = conversationIdFor(activePeer.id, activePeer.profile);
+    return subscribeToUpdates((updatedIn, updated) => {
+      if (updatedIn !== conversationId) return;
+      setLocalChatHistory(prev => prev.map(m => m.id === updated.id ? { ...updated, fileData: m.fileData } : m));
+    });
+  }, [activePeer]);
+
+  // --- SEEN RECEIPTS ---
+  // Their messages count as seen once the chat is on screen
+  useEffect(() => {
+    if (!activePeer || !isOpen || !isTabVisible) return;
+    const unseen = localChatHistory.filter(m => m.sender === 'stranger' && m.status !== 'seen');
+    if (unseen.length === 0) return;
+    const conversationId = conversationIdFor(activePeer.id, activePeer.profile);
+    const ids = new Set(unseen.map(m => m.id));
+    markDirectSeen?.(activePeer.id, [...ids]);
+    setLocalChatHistory(prev => prev.map(m => ids.has(m.id) ? { ...m, status: 'seen' } : m));
+    ids.forEach(id => updateMessage(conversationId, id, m => ({ ...m, status: 'seen' })).catch(reportStorageError));
+  }, [localChatHistory, activePeer, isOpen, isTabVisible]);
 
   // --- INCOMING REACTION HANDLING ---
   useEffect(() => {
@@ -266,32 +349,15 @@ export const SocialHub = React.memo<SocialHubProps>(({
       const friend = friends.find(f => f.id === targetPeerId);
       if (friend) targetProfile = friend.profile;
       
-      // Key logic
-      const storageKey = getStorageKey(targetPeerId, targetProfile);
-      
       // Update Logic
-      const updateHistory = (prev: Message[]) => {
-          return prev.map(msg => {
-             if (msg.id === incomingReaction.messageId) {
-               if (msg.reactions?.some(r => r.emoji === incomingReaction.emoji && r.sender === 'stranger')) return msg;
-               return { ...msg, reactions: [...(msg.reactions || []), { emoji: incomingReaction.emoji, sender: 'stranger' as const }] };
-             }
-             return msg;
-          });
+      const addReaction = (msg: Message) => {
+          if (msg.reactions?.some(r => r.emoji === incomingReaction.emoji && r.sender === 'stranger')) return msg;
+          return { ...msg, reactions: [...(msg.reactions || []), { emoji: incomingReaction.emoji, sender: 'stranger' as const }] };
       };
 
+      updateMessage(conversationIdFor(targetPeerId, targetProfile), incomingReaction.messageId, addReaction).catch(reportStorageError);
       if (activePeer && (activePeer.id === targetPeerId || (activePeer.profile.uid && targetProfile?.uid === activePeer.profile.uid))) {
-         setLocalChatHistory(prev => {
-            const updated = updateHistory(prev);
-            localStorage.setItem(storageKey, JSON.stringify(updated));
-            return updated;
-         });
-      } else {
-         try {
-            const hist = JSON.parse(localStorage.getItem(storageKey) || '[]');
-            const updated = updateHistory(hist);
-            localStorage.setItem(storageKey, JSON.stringify(updated));
-         } catch(e) {}
+         setLocalChatHistory(prev => prev.map(msg => msg.id === incomingReaction.messageId ? addReaction(msg) : msg));
       }
     }
   }, [incomingReaction, activePeer, friends]);
@@ -309,39 +375,91 @@ export const SocialHub = React.memo<SocialHubProps>(({
     if (activePeer && isOpen) privateMessagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [localChatHistory, activePeer, isOpen, peerTypingStatus, peerRecordingStatus]);
 
-  // Auto-scroll for Global Chat
-  useEffect(() => {
-    if (activeTab === 'global' && isOpen) {
-      globalMessagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [globalMessages, activeTab, isOpen]);
+  const openRoomDirectory = () => {
+    refreshGlobalRooms?.();
+    setShowRoomDirectory(true);
+  };
 
   const handleGlobalSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (globalInput.trim()) {
-      sendGlobalMessage(globalInput);
+    // Slow mode can hold a message back; keep the text so it can be sent once allowed
+    if (globalInput.trim() && sendGlobalMessage(globalInput, globalReplyingTo || undefined)) {
       setGlobalInput('');
+      setGlobalReplyingTo(null);
+      setMentionQuery(null);
+    }
+  };
+
+  // --- MENTIONS ---
+  const mentionSuggestions = mentionQuery ? suggestMentions(globalRoomMembers, mentionQuery.query) : [];
+
+  const updateMentionQuery = (input: HTMLInputElement) => {
+    const next = findMentionQuery(input.value, input.selectionStart ?? input.value.length);
+    setMentionQuery(next);
+    if (next?.query !== mentionQuery?.query) setMentionIndex(0);
+  };
+
+  const chooseMention = (member: RoomMember) => {
+    const input = globalInputRef.current;
+    if (!input || !mentionQuery) return;
+    const next = insertMention(globalInput, input.selectionStart ?? globalInput.length, mentionQuery, member.username);
+    setGlobalInput(next.text);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      input.focus();
+      input.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleGlobalKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (mentionSuggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setMentionIndex(i => (i + step + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      chooseMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
     }
   };
 
-  const addMessageToLocal = (msg: Message, peerId: string) => {
-      // Use active peer profile to determine key
+  // A reply or half-typed mention belongs to the room it was started in
+  useEffect(() => {
+    setGlobalReplyingTo(null);
+    setMentionQuery(null);
+  }, [activeGlobalRoom.id]);
+
+  // Mentions count as read once the Global tab is on screen
+  useEffect(() => {
+    if (isOpen && activeTab === 'global' && unreadGlobalMentions > 0) clearGlobalMentions?.();
+  }, [isOpen, activeTab, unreadGlobalMentions, clearGlobalMentions]);
+
+  // Moderation results belong to the profile they were taken on
+  useEffect(() => { setModerationNotice(null); }, [viewingProfile]);
+
+  const formatMinutes = (minutes: number) => minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`;
+
+  const runModeration = async (action: Promise<boolean> | undefined, done: string) => {
+    if (!action) return;
+    setModerationNotice('Working...');
+    setModerationNotice(await action ? done : 'That did not work. Check your moderator key.');
+  };
+
+  const addMessageToLocal = (msg: Message) => {
+      // Use active peer profile to determine the conversation
       if (!activePeer) return;
-      const storageKey = getStorageKey(activePeer.id, activePeer.profile);
-      
-      let history: Message[] = [];
-      try { history = JSON.parse(localStorage.getItem(storageKey) || '[]'); } catch(e){}
-      history.push(msg);
-      try { localStorage.setItem(storageKey, JSON.stringify(history)); } catch(e){}
-      setLocalChatHistory(history);
+      saveMessage(conversationIdFor(activePeer.id, activePeer.profile), msg).catch(reportStorageError);
+      setLocalChatHistory(prev => [...prev, msg]);
   };
 
   const handlePrivateSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (privateInput.trim() && activePeer) {
+    if (privateInput.trim() && privateInput.length <= MESSAGE_MAX_LENGTH && activePeer) {
       const newMsgId = Date.now().toString() + Math.random().toString(36).substring(2);
       const newMsg: Message = { id: newMsgId, text: privateInput, sender: 'me', timestamp: Date.now(), type: 'text', reactions: [], status: 'sent', replyTo: replyingTo || undefined };
-      addMessageToLocal(newMsg, activePeer.id);
+      addMessageToLocal(newMsg);
       sendDirectMessage?.(activePeer.id, privateInput, newMsgId, replyingTo || undefined);
       sendDirectTyping?.(activePeer.id, false);
       setPrivateInput('');
@@ -361,45 +479,29 @@ export const SocialHub = React.memo<SocialHubProps>(({
   const handlePrivateImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file && activePeer && sendDirectImage) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        // Compress Image Logic
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Max dimension 800px for faster P2P transfer
-          const MAX_SIZE = 800;
-          if (width > height) {
-            if (width > MAX_SIZE) {
-              height *= MAX_SIZE / width;
-              width = MAX_SIZE;
-            }
-          } else {
-            if (height > MAX_SIZE) {
-              width *= MAX_SIZE / height;
-              height = MAX_SIZE;
-            }
-          }
-          
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          ctx?.drawImage(img, 0, 0, width, height);
-          
-          // Compress to JPEG 0.6 quality
-          const compressedBase64 = canvas.toDataURL('image/jpeg', 0.6);
-          setPendingImage(compressedBase64);
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+      prepareImage(file, fullResolutionImages)
+        .then(setPendingImage)
+        .catch(err => console.error("Failed to read image", err));
     }
     if (privateFileInputRef.current) privateFileInputRef.current.value = '';
   };
   
+  const handlePrivateAttachmentUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const peer = activePeer;
+    if (file && peer && sendDirectFile) {
+      readAttachment(file)
+        .then(({ fileData, fileInfo }) => {
+          const newMsgId = Date.now().toString() + Math.random().toString(36).substring(2);
+          const newMsg: Message = { id: newMsgId, fileData, fileInfo, type: 'file', sender: 'me', timestamp: Date.now(), reactions: [], status: 'sent' };
+          addMessageToLocal(newMsg);
+          sendDirectFile(peer.id, fileData, fileInfo, newMsgId);
+        })
+        .catch(err => alert(err.message));
+    }
+    if (privateAttachmentInputRef.current) privateAttachmentInputRef.current.value = '';
+  };
+
   const handleConfirmPrivateImage = (expiryDuration: number) => {
     if (pendingImage && activePeer && sendDirectImage) {
         const base64 = pendingImage;
@@ -408,7 +510,7 @@ export const SocialHub = React.memo<SocialHubProps>(({
         const expiresAt = expiryDuration > 0 ? Date.now() + expiryDuration : undefined;
         
         const newMsg: Message = { id: newMsgId, fileData: base64, type: 'image', sender: 'me', timestamp: Date.now(), reactions: [], status: 'sent', expiryDuration: expiryDuration, expiresAt };
-        addMessageToLocal(newMsg, activePeer.id);
+        addMessageToLocal(newMsg);
         sendDirectImage(activePeer.id, base64, newMsgId, expiryDuration > 0 ? expiryDuration : undefined);
         setPendingImage(null);
     }
@@ -431,7 +533,7 @@ export const SocialHub = React.memo<SocialHubProps>(({
            const newMsgId = Date.now().toString() + Math.random().toString(36).substring(2);
            const newMsg: Message = { id: newMsgId, fileData: base64Audio, type: 'audio', sender: 'me', timestamp: Date.now(), reactions: [], status: 'sent', };
            if (activePeer) {
-             addMessageToLocal(newMsg, activePeer.id);
+             addMessageToLocal(newMsg);
              sendDirectAudio?.(activePeer.id, base64Audio, newMsgId);
            }
         };
@@ -452,22 +554,33 @@ export const SocialHub = React.memo<SocialHubProps>(({
 
   const handleReactionSend = (messageId: string, emoji: string) => {
     if (activePeer) {
-      setLocalChatHistory(prev => {
-         const updated = prev.map(msg => msg.id === messageId ? { ...msg, reactions: [...(msg.reactions || []), { emoji, sender: 'me' as const }] } : msg);
-         const storageKey = getStorageKey(activePeer.id, activePeer.profile);
-         localStorage.setItem(storageKey, JSON.stringify(updated));
-         return updated;
-      });
+      const addReaction = (msg: Message) => ({ ...msg, reactions: [...(msg.reactions || []), { emoji, sender: 'me' as const }] });
+      setLocalChatHistory(prev => prev.map(msg => msg.id === messageId ? addReaction(msg) : msg));
+      updateMessage(conversationIdFor(activePeer.id, activePeer.profile), messageId, addReaction).catch(reportStorageError);
       sendDirectReaction?.(activePeer.id, messageId, emoji);
     } else {
       sendReaction?.(messageId, emoji);
     }
   };
 
+  const handleExportChat = async (format: ExportFormat) => {
+    setShowExportMenu(false);
+    if (!activePeer) return;
+    const peer = activePeer;
+    try {
+      const archive = await buildArchive(null, friends, [conversationIdFor(peer.id, peer.profile)]);
+      archive.conversations.forEach(c => { c.profile = c.profile || peer.profile; });
+      downloadArchive(archive, format, myProfile?.username || 'Me', `chat-${peer.profile.username}`);
+    } catch (e) {
+      console.error("Export failed", e);
+      alert("Could not export this chat.");
+    }
+  };
+
   const handleReply = (msg: Message) => {
      setReplyingTo({
         id: msg.id,
-        text: msg.text || (msg.type === 'image' ? 'Image' : 'Audio'),
+        text: msg.text || (msg.type === 'image' ? 'Image' : msg.type === 'file' ? (msg.fileInfo?.name || 'File') : 'Audio'),
         senderName: msg.sender === 'me' ? 'You' : (msg.senderName || 'Stranger')
      });
   };
@@ -491,6 +604,7 @@ export const SocialHub = React.memo<SocialHubProps>(({
     setActivePeer(null);
     onCloseDirectChat?.();
     setReplyingTo(null);
+    setShowExportMenu(false);
   };
 
   const handleFriendRequest = (peerId: string) => {
@@ -500,6 +614,26 @@ export const SocialHub = React.memo<SocialHubProps>(({
      setViewingProfile(null);
   };
 
+  const isBlocked = (profile?: UserProfile) => !!profile?.uid && blockedUsers.some(b => b.uid === profile.uid);
+
+  const handleBlock = (profile: UserProfile) => {
+     blockUser?.(profile);
+     setViewingProfile(null);
+     if (activePeer?.profile.uid === profile.uid) closePrivateChat();
+  };
+
+  const handleReport = async (reason: string, details: string, alsoBlock: boolean) => {
+     if (!reportTarget || !reportUser) return false;
+     const { profile, context } = reportTarget;
+     // Attach what the reporter saw: the Global Meet feed or the private chat with this user
+     const recent = context === 'global'
+        ? globalMessages
+        : (activePeer?.profile.uid === profile.uid ? localChatHistory : []);
+     const sent = await reportUser(profile, context, reason, details, recent);
+     if (sent && alsoBlock) handleBlock(profile);
+     return sent;
+  };
+
   const confirmRemove = () => {
     if (confirmRemoveFriend && removeFriend) {
        removeFriend(confirmRemoveFriend);
@@ -535,7 +669,7 @@ export const SocialHub = React.memo<SocialHubProps>(({
   };
 
   const getTotalUnreadCount = () => {
-     return (Object.values(unreadCounts) as number[]).reduce((a, b) => a + b, 0) + friendRequests.length;
+     return (Object.values(unreadCounts) as number[]).reduce((a, b) => a + b, 0) + friendRequests.length + unreadGlobalMentions;
   };
 
   const filteredFriendsList = friends.filter(f => 
@@ -556,13 +690,14 @@ export const SocialHub = React.memo<SocialHubProps>(({
   );
 
   const filteredOnlineUsers = onlineUsers.filter(u => {
+    if (isBlocked(u.profile)) return false;
     const matchesSearch = !searchQuery || (u.profile?.username || 'Anonymous').toLowerCase().includes(searchQuery.toLowerCase());
     const matchesState = stateFilter === 'All States' || (u.profile?.location && u.profile.location.toLowerCase().includes(stateFilter.toLowerCase()));
     return matchesSearch && matchesState;
   });
   
   const filteredRecentPeers = recentPeers.filter(p =>
-    !searchQuery || p.profile.username.toLowerCase().includes(searchQuery.toLowerCase())
+    !isBlocked(p.profile) && (!searchQuery || p.profile.username.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
 
@@ -614,6 +749,24 @@ export const SocialHub = React.memo<SocialHubProps>(({
                 <h2 className="font-bold text-lg text-slate-900 dark:text-white flex items-center gap-2">Global Meet</h2>
               )}
               <div className="flex items-center gap-1">
+                {activePeer && startCall && isPeerConnected?.(activePeer.id) && (
+                   <button onClick={() => startCall(activePeer.id)} disabled={isInCall} className="p-2 text-slate-400 hover:text-brand-500 rounded-full hover:bg-black/5 dark:hover:bg-white/5 transition-all duration-150 active:scale-90 disabled:opacity-40 disabled:pointer-events-none" title="Voice Call"><Phone size={18} /></button>
+                )}
+                {activePeer && localChatHistory.length > 0 && (
+                   <div className="relative">
+                      <button onClick={() => setShowExportMenu(v => !v)} className="p-2 text-slate-400 hover:text-brand-500 rounded-full hover:bg-black/5 dark:hover:bg-white/5 transition-all duration-150 active:scale-90" title="Export Chat"><Download size={18} /></button>
+                      {showExportMenu && (
+                         <div className="absolute right-0 top-full mt-1 z-20 w-44 bg-white dark:bg-[#1a1b26] border border-slate-200 dark:border-white/10 rounded-xl shadow-xl overflow-hidden text-sm animate-in fade-in zoom-in-95 duration-150">
+                            <button onClick={() => handleExportChat('json')} className="w-full text-left px-3 py-2 hover:bg-slate-100 dark:hover:bg-white/5 text-slate-700 dark:text-slate-200">Archive (.json)</button>
+                            <button onClick={() => handleExportChat('html')} className="w-full text-left px-3 py-2 hover:bg-slate-100 dark:hover:bg-white/5 text-slate-700 dark:text-slate-200">Transcript (.html)</button>
+                            <button onClick={() => handleExportChat('text')} className="w-full text-left px-3 py-2 hover:bg-slate-100 dark:hover:bg-white/5 text-slate-700 dark:text-slate-200">Transcript (.txt)</button>
+                         </div>
+                      )}
+                   </div>
+                )}
+                {activePeer && activePeer.profile.uid && reportUser && (
+                   <button onClick={() => setReportTarget({ profile: activePeer.profile, context: 'direct' })} className="p-2 text-slate-400 hover:text-red-500 rounded-full hover:bg-black/5 dark:hover:bg-white/5 transition-all duration-150 active:scale-90" title="Report / Block"><Flag size={18} /></button>
+                )}
                 {activePeer && isFriend(activePeer.id, activePeer.profile) && (
                    <button onClick={() => setConfirmRemoveFriend(activePeer.id)} className="p-2 text-slate-400 hover:text-red-500 rounded-full hover:bg-black/5 dark:hover:bg-white/5 transition-all duration-150 active:scale-90" title="Remove Friend"><Trash2 size={18} /></button>
                 )}
@@ -660,6 +813,29 @@ export const SocialHub = React.memo<SocialHubProps>(({
                             <h4 className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-3 flex items-center gap-2"><Smile size={12}/> Interests</h4>
                             <div className="flex flex-wrap gap-2">{viewingProfile.profile.interests.map(int => (<span key={int} className="px-3 py-1 bg-white dark:bg-white/10 rounded-full text-xs font-medium text-slate-700 dark:text-slate-300 shadow-sm border border-slate-200 dark:border-white/5">{int}</span>))}</div>
                          </div>
+                         {viewingProfile.profile.uid && isFriend(viewingProfile.id, viewingProfile.profile) && (
+                            <SafetyNumberCard
+                               uid={viewingProfile.profile.uid}
+                               username={viewingProfile.profile.username}
+                               myKey={myIdentityKey}
+                               theirKey={getPeerIdentityKey?.(viewingProfile.id) || viewingProfile.profile.publicKey}
+                            />
+                         )}
+                         {moderatorRole && activeTab === 'global' && viewingProfile.profile.uid && (
+                            <div className="bg-amber-50 dark:bg-amber-900/10 p-4 rounded-2xl border border-amber-100 dark:border-amber-500/10">
+                               <h4 className="text-xs font-bold text-amber-600 dark:text-amber-400 uppercase tracking-widest mb-3 flex items-center gap-2"><Shield size={12}/> Moderation</h4>
+                               <div className="flex flex-wrap gap-2">
+                                  {MUTE_DURATIONS_MINUTES.map(minutes => (
+                                     <button key={minutes} onClick={() => runModeration(muteGlobalUser?.(viewingProfile.profile.uid!, minutes), `Muted in #${activeGlobalRoom.name} for ${formatMinutes(minutes)}.`)} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white dark:bg-white/10 text-slate-700 dark:text-slate-300 border border-slate-200 dark:border-white/5 hover:bg-slate-100 dark:hover:bg-white/20 transition-all duration-150 active:scale-95">Mute {formatMinutes(minutes)}</button>
+                                  ))}
+                                  {moderatorRole === 'admin' && (
+                                     <button onClick={() => runModeration(banGlobalUser?.(viewingProfile.profile.uid!), 'Banned from Global Meet.')} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-red-500 text-white hover:bg-red-600 transition-all duration-150 active:scale-95">Ban</button>
+                                  )}
+                                  <button onClick={() => runModeration(liftGlobalUser?.(viewingProfile.profile.uid!), 'Mutes and bans lifted.')} className="px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100 dark:hover:bg-white/10 transition-all duration-150 active:scale-95">Lift all</button>
+                               </div>
+                               {moderationNotice && <p className="text-xs text-slate-500 dark:text-slate-400 mt-2">{moderationNotice}</p>}
+                            </div>
+                         )}
                       </div>
                   </div>
                   <div className="p-6 border-t border-slate-100 dark:border-white/5 shrink-0 flex flex-col gap-3 bg-white/50 dark:bg-white/5 backdrop-blur-md">
@@ -668,6 +844,14 @@ export const SocialHub = React.memo<SocialHubProps>(({
                       ) : (
                         <Button fullWidth onClick={() => handleFriendRequest(viewingProfile.id)}><UserPlus size={18}/> Add Friend</Button>
                       )}
+                      {viewingProfile.profile.uid && !isBlocked(viewingProfile.profile) && (
+                        <div className="flex gap-3">
+                          <button onClick={() => handleBlock(viewingProfile.profile)} className="flex-1 py-2.5 rounded-xl text-sm font-bold text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-white/5 flex items-center justify-center gap-2 transition-all duration-150 active:scale-95"><Ban size={16}/> Block</button>
+                          {reportUser && (
+                            <button onClick={() => setReportTarget({ profile: viewingProfile.profile, context: activeTab === 'global' ? 'global' : 'direct' })} className="flex-1 py-2.5 rounded-xl text-sm font-bold text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 flex items-center justify-center gap-2 transition-all duration-150 active:scale-95"><Flag size={16}/> Report</button>
+                          )}
+                        </div>
+                      )}
                   </div>
                </div>
             )}
@@ -695,6 +879,7 @@ export const SocialHub = React.memo<SocialHubProps>(({
                            {tab === 'global' ? 'Global Meet' : tab}
                            {tab === 'friends' && (friends.some(f => unreadCounts[f.id] > 0 || (f.profile.uid && unreadCounts[f.profile.uid] > 0)) || friendRequests.length > 0) && <span className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full" />}
                            {tab === 'recent' && recentPeers.some(p => unreadCounts[p.peerId] > 0) && <span className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full" />}
+                           {tab === 'global' && unreadGlobalMentions > 0 && <span className="absolute top-2 right-2 w-2 h-2 bg-amber-500 rounded-full" />}
                         </button>
                      ))}
                   </div>
@@ -912,38 +1097,107 @@ export const SocialHub = React.memo<SocialHubProps>(({
                             </div>
                          </div>
                       )}
-                      
-                      {/* MESSAGES CONTAINER - Oldest at Top (Standard Chat) */}
-                      <div className="flex-1 overflow-y-auto p-4 space-y-3 min-h-0 flex flex-col">
-                         {globalMessages.length === 0 && (
+
+                      {showRoomDirectory ? (
+                         <RoomDirectory
+                           rooms={globalRooms}
+                           activeRoomId={activeGlobalRoom.id}
+                           onJoin={joinGlobalRoom}
+                           onCreate={createGlobalRoom}
+                           onClose={() => setShowRoomDirectory(false)}
+                         />
+                      ) : (
+                      <>
+                      {/* ROOM SWITCHER */}
+                      <button onClick={openRoomDirectory} className="mx-4 mt-3 shrink-0 flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-slate-100 dark:bg-white/5 hover:bg-slate-200 dark:hover:bg-white/10 transition-all duration-150 active:scale-[0.98]">
+                         <span className="font-bold text-sm text-slate-900 dark:text-white truncate"># {activeGlobalRoom.name}</span>
+                         <span className="flex items-center gap-2 shrink-0 text-xs text-slate-500 dark:text-slate-400">
+                            {!!activeGlobalRoom.slowModeSeconds && <span className="flex items-center gap-0.5 text-amber-500 font-medium" title="Slow mode"><Timer size={12} /> {activeGlobalRoom.slowModeSeconds}s</span>}
+                            <span className="flex items-center gap-1 text-emerald-500 font-medium"><span className="w-1.5 h-1.5 bg-emerald-500 rounded-full animate-pulse"/> {activeGlobalRoom.onlineCount} online</span>
+                            <span className="flex items-center gap-0.5 font-bold">Rooms <ChevronDown size={14} /></span>
+                         </span>
+                      </button>
+                      {moderatorRole && (
+                         <label className="mx-4 mt-2 shrink-0 flex items-center justify-between gap-2 text-xs text-slate-500 dark:text-slate-400">
+                            <span className="flex items-center gap-1 font-bold"><Shield size={12} className="text-amber-500" /> Slow mode</span>
+                            <select
+                              value={activeGlobalRoom.slowModeSeconds || 0}
+                              onChange={e => setGlobalSlowMode?.(Number(e.target.value))}
+                              className="bg-slate-100 dark:bg-white/5 rounded-lg px-2 py-1 text-slate-900 dark:text-white focus:outline-none"
+                            >
+                               {SLOW_MODE_OPTIONS_SECONDS.map(seconds => <option key={seconds} value={seconds}>{seconds ? `${seconds}s` : 'Off'}</option>)}
+                            </select>
+                         </label>
+                      )}
+
+                      {/* MESSAGES - Oldest at Top (Standard Chat), older pages load on scroll */}
+                      <GlobalMessageList
+                         key={activeGlobalRoom.id}
+                         messages={globalMessages}
+                         hasMore={hasMoreGlobalHistory}
+                         isLoadingOlder={isLoadingOlderGlobal}
+                         onLoadOlder={loadOlderGlobalMessages}
+                         onRetry={retryGlobalMessage}
+                         onReply={msg => { setGlobalReplyingTo(toReplyInfo(msg)); globalInputRef.current?.focus(); }}
+                         myUsername={myProfile?.username}
+                         memberNames={globalRoomMembers.map(m => m.username)}
+                         onDelete={moderatorRole ? deleteGlobalMessage : undefined}
+                         onOpenProfile={msg => { if (msg.senderPeerId && msg.senderProfile) setViewingProfile({ id: msg.senderPeerId, profile: msg.senderProfile }); }}
+                         emptyState={
                             <div className="flex-1 flex flex-col items-center justify-center opacity-60">
                                <div className="w-16 h-16 bg-slate-100 dark:bg-white/5 rounded-full flex items-center justify-center mb-4 text-slate-300 dark:text-slate-500 animate-pulse">
                                   <Globe size={32} />
                                </div>
-                               <p className="text-slate-500 dark:text-slate-400 font-medium">Global Chat</p>
-                               <p className="text-xs text-slate-400 max-w-[200px] text-center mt-1">Talk to everyone currently online.</p>
+                               <p className="text-slate-500 dark:text-slate-400 font-medium">{activeGlobalRoom.kind === 'general' ? 'Global Chat' : activeGlobalRoom.name}</p>
+                               <p className="text-xs text-slate-400 max-w-[200px] text-center mt-1">{activeGlobalRoom.kind === 'general' ? 'Talk to everyone currently online.' : 'No messages in this room yet. Say hello!'}</p>
                             </div>
+                         }
+                      />
+                      {globalSendError && <p className="px-4 pt-2 shrink-0 text-xs text-red-500">{globalSendError}</p>}
+                      <form onSubmit={handleGlobalSubmit} className="p-4 shrink-0 border-t border-slate-100 dark:border-white/5 bg-white/50 dark:bg-black/20 backdrop-blur-md flex flex-col gap-2 relative">
+                         {/* Mention Autocomplete */}
+                         {mentionSuggestions.length > 0 && (
+                           <div className="absolute bottom-full left-4 right-4 mb-2 bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-white/10 overflow-hidden z-20">
+                              {mentionSuggestions.map((member, i) => (
+                                <button
+                                  key={member.peerId}
+                                  type="button"
+                                  onMouseDown={e => e.preventDefault()}
+                                  onClick={() => chooseMention(member)}
+                                  className={clsx("w-full text-left px-3 py-2 text-sm flex items-center gap-2", i === mentionIndex ? "bg-brand-50 dark:bg-brand-900/30 text-brand-600 dark:text-brand-300" : "text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-white/5")}
+                                >
+                                  <span className="font-bold">@{member.username}</span>
+                                </button>
+                              ))}
+                           </div>
                          )}
-                         {globalMessages.map(msg => (
-                           <div key={msg.id} className={clsx("flex flex-col", msg.sender === 'me' ? "items-end" : "items-start")}>
-                              <div className={clsx("px-3 py-2 rounded-2xl text-sm max-w-[85%] break-words shadow-sm", msg.sender === 'me' ? "bg-brand-500 text-white rounded-tr-sm" : "bg-white dark:bg-slate-800 text-slate-900 dark:text-white rounded-tl-sm")}>
-                                 <button onClick={() => { if (msg.sender !== 'me' && msg.senderPeerId && msg.senderProfile) setViewingProfile({ id: msg.senderPeerId, profile: msg.senderProfile }); }} className={clsx("text-[10px] block font-bold mb-0.5", msg.sender === 'me' ? "text-brand-100 cursor-default" : "text-brand-500 hover:underline cursor-pointer")}>{msg.sender === 'me' ? 'You' : msg.senderName}</button>
-                                 {msg.text}
+                         {/* Replying To Banner */}
+                         {globalReplyingTo && (
+                           <div className="flex items-center justify-between bg-slate-200 dark:bg-white/10 p-2 rounded-lg border-l-4 border-brand-500">
+                              <div className="text-xs truncate max-w-[80%]">
+                                 <div className="font-bold text-brand-600 dark:text-brand-400">Replying to {globalReplyingTo.senderName}</div>
+                                 <div className="text-slate-600 dark:text-slate-300 truncate">{globalReplyingTo.text}</div>
                               </div>
+                              <button type="button" onClick={() => setGlobalReplyingTo(null)} className="p-1 hover:bg-slate-300 dark:hover:bg-white/20 rounded-full"><X size={14}/></button>
                            </div>
-                         ))}
-                         <div ref={globalMessagesEndRef} />
-                      </div>
-                      <form onSubmit={handleGlobalSubmit} className="p-4 shrink-0 border-t border-slate-100 dark:border-white/5 bg-white/50 dark:bg-black/20 backdrop-blur-md flex gap-2">
-                         <input 
-                           className="flex-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 transition-all disabled:opacity-50" 
-                           placeholder={!myPeerId ? "Connecting..." : "Message Global Meet..."} 
-                           value={globalInput} 
-                           onChange={e => setGlobalInput(e.target.value)} 
-                           disabled={false}
-                         />
-                         <button type="submit" disabled={!myPeerId} className="p-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-all duration-150 active:scale-90 shadow-lg shadow-brand-500/20 disabled:opacity-50"><Send size={18} /></button>
+                         )}
+                         <div className="flex gap-2">
+                           <input 
+                             ref={globalInputRef}
+                             className="flex-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-500/50 transition-all disabled:opacity-50" 
+                             placeholder={!myPeerId ? "Connecting..." : `Message ${activeGlobalRoom.name}...`} 
+                             value={globalInput} 
+                             onChange={e => { setGlobalInput(e.target.value); updateMentionQuery(e.target); }} 
+                             onSelect={e => updateMentionQuery(e.currentTarget)}
+                             onKeyDown={handleGlobalKeyDown}
+                             onBlur={() => setMentionQuery(null)}
+                             disabled={false}
+                           />
+                           <button type="submit" disabled={!myPeerId} className="p-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-all duration-150 active:scale-90 shadow-lg shadow-brand-500/20 disabled:opacity-50"><Send size={18} /></button>
+                         </div>
                       </form>
+                      </>
+                      )}
                     </div>
                   )}
                 </div>
@@ -967,9 +1221,16 @@ export const SocialHub = React.memo<SocialHubProps>(({
 
                   <div className="flex-1 space-y-3 mb-4 overflow-y-auto min-h-0 pr-1 pt-4">
                      {localChatHistory.map(msg => (
-                       <MessageBubble key={msg.id} message={msg} senderName={activePeer.profile.username} onReact={(emoji) => handleReactionSend(msg.id, emoji)} onEdit={onEditMessage} onReply={handleReply} onImageClick={setPreviewImage} />
+                       <MessageBubble key={msg.id} message={msg} senderName={activePeer.profile.username} onReact={(emoji) => handleReactionSend(msg.id, emoji)} onEdit={onEditMessage} onReply={handleReply} onImageClick={setPreviewImage} transfer={transfers[msg.id]} onCancelTransfer={cancelTransfer} />
+                     ))}
+                     {/* Media still arriving; it joins the saved history once complete */}
+                     {Object.entries(transfers)
+                       .filter(([id, t]) => t.direction === 'download' && t.status === 'active' && t.peerId === activePeer.id && !localChatHistory.some(m => m.id === id))
+                       .map(([id, t]) => (
+                         <MessageBubble key={id} message={{ id, type: t.dataType, sender: 'stranger', timestamp: t.startedAt }} senderName={activePeer.profile.username} transfer={t} onCancelTransfer={cancelTransfer} />
                      ))}
                      {localChatHistory.length === 0 && <div className="text-center text-slate-500 text-sm mt-10">Start a conversation with {activePeer.profile.username}.<br/><span className="text-xs opacity-70">Messages are saved locally.</span></div>}
+                     {storageError && <div className="text-center text-xs text-amber-600 dark:text-amber-400">Some messages couldn't be saved on this device. Your browser's storage may be full.</div>}
                      <div ref={privateMessagesEndRef} />
                   </div>
                   <form onSubmit={handlePrivateSubmit} className="mt-auto flex flex-col gap-2 shrink-0 pb-1">
@@ -988,10 +1249,14 @@ export const SocialHub = React.memo<SocialHubProps>(({
                           <input type="file" accept="image/*" className="hidden" ref={privateFileInputRef} onChange={handlePrivateImageUpload} />
                           <button type="button" onClick={() => privateFileInputRef.current?.click()} className="p-2.5 text-slate-400 hover:text-brand-500 hover:bg-white dark:hover:bg-white/10 rounded-xl transition-all duration-150 active:scale-90 shrink-0"><ImageIcon size={22} /></button>
                        </div>
+                       <div className="flex flex-col items-center gap-1 shrink-0">
+                          <input type="file" accept={ATTACHMENT_ACCEPT} className="hidden" ref={privateAttachmentInputRef} onChange={handlePrivateAttachmentUpload} />
+                          <button type="button" onClick={() => privateAttachmentInputRef.current?.click()} aria-label="Attach file" className="p-2.5 text-slate-400 hover:text-brand-500 hover:bg-white dark:hover:bg-white/10 rounded-xl transition-all duration-150 active:scale-90 shrink-0"><Paperclip size={22} /></button>
+                       </div>
                        
                        {!privateInput.trim() && (isRecordingPrivate ? (<button type="button" onClick={stopPrivateRecording} className="p-2.5 bg-red-500 text-white rounded-xl animate-pulse shrink-0 shadow-lg shadow-red-500/20"><Square size={22} fill="currentColor"/></button>) : (<button type="button" onClick={startPrivateRecording} className="p-2.5 text-slate-400 hover:text-brand-500 hover:bg-white dark:hover:bg-white/10 rounded-xl shrink-0 transition-all duration-150 active:scale-90"><Mic size={22} /></button>))}
                        <div className="flex-1 bg-white dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl flex items-center focus-within:ring-2 focus-within:ring-brand-500/50 transition-all">
-                          <input className="w-full bg-transparent px-4 py-3 text-sm text-slate-900 dark:text-white focus:outline-none" placeholder="Type message..." value={privateInput} onChange={handlePrivateTyping} autoFocus />
+                          <input className="w-full bg-transparent px-4 py-3 text-sm text-slate-900 dark:text-white focus:outline-none" placeholder="Type message..." value={privateInput} onChange={handlePrivateTyping} maxLength={MESSAGE_MAX_LENGTH} autoFocus />
                        </div>
                        <button type="submit" disabled={!privateInput.trim()} className="p-3 bg-brand-500 text-white rounded-xl hover:bg-brand-600 transition-all duration-150 active:scale-90 disabled:opacity-50 shrink-0 shadow-lg shadow-brand-500/20"><Send size={20} /></button>
                      </div>
@@ -1009,6 +1274,16 @@ export const SocialHub = React.memo<SocialHubProps>(({
             {previewImage && (
                <ImageViewer src={previewImage} onClose={() => setPreviewImage(null)} />
             )}
+
+            {reportTarget && (
+               <ReportModal
+                 isOpen={!!reportTarget}
+                 onClose={() => setReportTarget(null)}
+                 profile={reportTarget.profile}
+                 onBlock={() => handleBlock(reportTarget.profile)}
+                 onReport={handleReport}
+               />
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,64 @@
+import React, { useEffect, useRef } from 'react';
+import { SwitchCamera, Droplets, Loader2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface VideoTilesProps {
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  partnerName?: string;
+  isBlurred: boolean;
+  canSwitchCamera: boolean;
+  onToggleBlur: () => void;
+  onSwitchCamera: () => void;
+}
+
+const StreamVideo: React.FC<{ stream: MediaStream | null; muted?: boolean; className?: string }> = ({ stream, muted = false, className }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return <video ref={videoRef} autoPlay playsInline muted={muted} className={className} />;
+};
+
+export const VideoTiles: React.FC<VideoTilesProps> = ({ localStream, remoteStream, partnerName, isBlurred, canSwitchCamera, onToggleBlur, onSwitchCamera }) => {
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 sm:px-6 pt-4 shrink-0 z-10 animate-in fade-in duration-300">
+      <div className="relative w-full aspect-video max-h-[45vh] bg-slate-900 rounded-2xl overflow-hidden shadow-xl border border-slate-200 dark:border-white/5">
+        {remoteStream ? (
+          <StreamVideo stream={remoteStream} className="w-full h-full object-cover" />
+        ) : (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-slate-400 text-sm font-medium">
+            <Loader2 size={20} className="animate-spin" />
+            Waiting for {partnerName || 'Stranger'}'s video...
+          </div>
+        )}
+
+        {/* Own camera: what the partner receives, mirrored like a selfie */}
+        <div className="absolute bottom-3 right-3 w-24 sm:w-36 aspect-video rounded-xl overflow-hidden bg-slate-800 border border-white/20 shadow-lg">
+          {localStream && <StreamVideo stream={localStream} muted className="w-full h-full object-cover -scale-x-100" />}
+        </div>
+
+        <div className="absolute bottom-3 left-3 flex items-center gap-2">
+          <button
+            onClick={onToggleBlur}
+            aria-label={isBlurred ? 'Unblur my video' : 'Blur my video'}
+            title={isBlurred ? 'Unblur my video' : 'Blur my video'}
+            className={clsx(
+              "p-2.5 rounded-full backdrop-blur-md transition-all duration-150 active:scale-90",
+              isBlurred ? "bg-brand-500 text-white" : "bg-black/40 text-white hover:bg-black/60"
+            )}
+          >
+            <Droplets size={18} />
+          </button>
+          {canSwitchCamera && (
+            <button onClick={onSwitchCamera} aria-label="Switch camera" title="Switch camera" className="p-2.5 rounded-full bg-black/40 text-white hover:bg-black/60 backdrop-blur-md transition-all duration-150 active:scale-90">
+              <SwitchCamera size={18} />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
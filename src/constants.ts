@@ -1,5 +1,5 @@
 
-import { Message } from './types';
+import { Message, MatchPreferences } from './types';
 
 export const INITIAL_GREETING: Message = {
   id: 'init-1',
@@ -21,6 +21,83 @@ export const COMMON_INTERESTS = [
   "Tech", "Anime", "Movies", "Travel", "Music", "Gaming", "Art", "Books", "Fitness", "Food", "Cricket", "Football"
 ];
 
+// Global Meet rooms: the default room keeps the history and channel from before rooms existed
+export const GENERAL_ROOM_ID = 'general';
+export const MAX_CUSTOM_ROOM_NAME_LENGTH = 40;
+// Replies carry this much of the original message as a quote
+export const GLOBAL_REPLY_QUOTE_LENGTH = 140;
+
+// Global Meet moderation choices
+export const MUTE_DURATIONS_MINUTES = [10, 60, 1440];
+export const SLOW_MODE_OPTIONS_SECONDS = [0, 10, 30, 60, 300];
+
+// Matchmaking: require at least one shared interest at first, then accept anyone
+export const INTEREST_MATCH_MIN_SCORE = 1;
+export const INTEREST_MATCH_RELAX_MS = 8000;
+
+// Connect to an AI stranger if nobody else is waiting after this long
+export const AI_FALLBACK_AFTER_MS = 20000;
+
+// Heartbeat on every DataConnection: ping this often, flag the link as unstable
+// after this much silence, and give up on the peer after the timeout
+export const HEARTBEAT_INTERVAL_MS = 5000;
+export const HEARTBEAT_UNSTABLE_MS = 12000;
+export const HEARTBEAT_TIMEOUT_MS = 30000;
+
+// A connection whose key handshake hasn't finished after this long is dropped
+export const KEY_HANDSHAKE_TIMEOUT_MS = 15000;
+
+// After a random chat drops, keep it on screen this long while the peers try to reconnect
+export const RESUME_GRACE_MS = 30000;
+export const RESUME_RETRY_MS = 3000;
+
+// PeerData protocol (see lib/protocol): the version we speak, the oldest we still talk to,
+// and the longest text a single message may carry
+export const PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+export const MESSAGE_MAX_LENGTH = 4000;
+
+// An unanswered call stops ringing after this long
+export const CALL_RING_TIMEOUT_MS = 30000;
+
+// Images and voice notes travel as binary chunks; one chunk stays under PeerJS's 16KB message MTU
+export const TRANSFER_CHUNK_BYTES = 15 * 1024;
+export const TRANSFER_MAX_BYTES = 25 * 1024 * 1024;
+
+// Generic attachments: allowed extensions and the MIME type each is sent as
+export const FILE_MAX_BYTES = 10 * 1024 * 1024;
+export const FILE_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  zip: 'application/zip',
+};
+
+export const GENDER_OPTIONS = ["Male", "Female", "Non-binary"];
+
+export const AGE_BRACKETS = ["18-21", "22-25", "26-30", "30+"];
+
+export const MATCH_FALLBACK_OPTIONS = [
+  { label: 'After 15 seconds', value: 15000 },
+  { label: 'After 30 seconds', value: 30000 },
+  { label: 'After 1 minute', value: 60000 },
+  { label: 'Never', value: null },
+];
+
+export const DEFAULT_MATCH_PREFERENCES: MatchPreferences = {
+  genders: [],
+  ageBrackets: [],
+  sameStateOnly: false,
+  fallbackAfterMs: 30000,
+};
+
 export const INDIA_STATES = [
   "Andaman and Nicobar Islands", "Andhra Pradesh", "Arunachal Pradesh", "Assam", "Bihar", "Chandigarh", 
   "Chhattisgarh", "Dadra and Nagar Haveli and Daman and Diu", "Delhi", "Goa", "Gujarat", "Haryana", 
@@ -45,3 +122,18 @@ export const ICE_SERVERS = [
   { urls: 'stun:stun.voipstunt.com' },
   { urls: 'stun:stun.voxgratia.org' }
 ];
+
+export const REPORT_REASONS = [
+  "Spam or scam",
+  "Harassment",
+  "Sexual content",
+  "Hate speech",
+  "Looks underage",
+  "Other"
+];
+
+// A friend request we sent can be accepted for this long
+export const FRIEND_REQUEST_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How many recent messages from the chat are attached to a report
+export const REPORT_EXCERPT_LENGTH = 10;
@@ -1,82 +1,193 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { supabase, getGlobalMessages, insertGlobalMessage, getGlobalRooms, createGlobalRoom, globalHistoryCursor, GlobalHistoryCursor, GLOBAL_PAGE_SIZE, PostRejection, signInModerator, signOutModerator, deleteGlobalMessage, sanctionUser, liftSanctions, setRoomSlowMode } from '../lib/supabase';
+import { getConversation, saveMessages, trimConversation, updateMessage, roomConversationId } from '../lib/messageStore';
+import { GlobalMessageRow, newClientMessageId, rowToMessage, mergeMessages, confirmSend, failSend, retrySend, restoreCached, applyDeletion, cacheSignature } from '../lib/globalMessages';
+import { mentionsUser } from '../lib/mentions';
+import { ROOM_DIRECTORY_CHANNEL, roomChannelName, buildDirectory, findBuiltInRoom, countByRoom, membersOfRoom, isRoomId, newCustomRoomId, validateRoomName } from '../lib/rooms';
+import { GENERAL_ROOM_ID, MAX_CUSTOM_ROOM_NAME_LENGTH } from '../constants';
+import { ChatRoom, MentionEvent, Message, ModeratorRole, ReplyInfo, UserProfile } from '../types';
+
+const HISTORY_LIMIT = 50; // Messages kept on the device per room; older ones are paged in from the DB
+const ACTIVE_ROOM_KEY = 'chat_global_room';
+const MODERATOR_KEY = 'chat_moderator_key';
+
+const formatUntil = (until: number) => new Date(until).toLocaleString([], { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+
+const describeRejection = (rejection: PostRejection) => {
+  if (rejection.reason === 'not_signed_in') return "Couldn't verify this device. Check your connection and try again.";
+  if (rejection.reason === 'slow_mode') return `Slow mode is on: one message every ${rejection.seconds}s.`;
+  const until = rejection.until ? ` until ${formatUntil(rejection.until)}` : '';
+  return rejection.reason === 'banned' ? `You are banned from Global Meet${until}.` : `You are muted in this room${until}.`;
+};
+
+// What we share on the directory channel
+interface DirectoryPresence {
+  room?: unknown;
+  username?: unknown;
+  uid?: unknown;
+}
+
+const loadActiveRoom = () => {
+  const saved = localStorage.getItem(ACTIVE_ROOM_KEY);
+  return isRoomId(saved) ? saved : GENERAL_ROOM_ID;
+};
+
+// A custom room announced on the directory channel
+const parseAnnouncedRoom = (value: any): ChatRoom | null => {
+  if (!value || !isRoomId(value.id) || !value.id.startsWith('custom-')) return null;
+  if (typeof value.name !== 'string' || !value.name.trim() || value.name.length > MAX_CUSTOM_ROOM_NAME_LENGTH) return null;
+  return { id: value.id, name: value.name, kind: 'custom', createdBy: typeof value.createdBy === 'string' ? value.createdBy : undefined, lastActivity: null, onlineCount: 0 };
+};
+
+export const useGlobalChat = (userProfile: UserProfile | null, myPeerId: string | null, blockedUids: string[] = []) => {
+  const [roomId, setRoomId] = useState<string>(loadActiveRoom);
+  const [globalMessages, setGlobalMessages] = useState<Message[]>([]);
+  const [knownRooms, setKnownRooms] = useState<ChatRoom[]>([]);
+  const [roomActivity, setRoomActivity] = useState<Record<string, number>>({});
+  const [presence, setPresence] = useState<Record<string, DirectoryPresence[]>>({});
+  const [unreadMentions, setUnreadMentions] = useState(0);
+  const [latestMention, setLatestMention] = useState<MentionEvent | null>(null);
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { supabase, getGlobalMessages, insertGlobalMessage } from '../lib/supabase';
-import { Message, UserProfile } from '../types';
-
-export const useGlobalChat = (userProfile: UserProfile | null, myPeerId: string | null) => {
-  const [globalMessages, setGlobalMessages] = useState<Message[]>(() => {
-     // Initialize from LocalStorage for instant display
-     if (typeof window !== 'undefined') {
-        try {
-           const saved = localStorage.getItem('global_meet_messages');
-           if (saved) return JSON.parse(saved);
-        } catch(e) {}
-     }
-     return [];
-  });
-  
   const [isReady, setIsReady] = useState(false);
-  const channelRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [moderatorKey, setModeratorKeyState] = useState(() => localStorage.getItem(MODERATOR_KEY) || '');
+  const [moderatorRole, setModeratorRole] = useState<ModeratorRole | null>(null);
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const cursorRef = useRef<GlobalHistoryCursor | null>(null);
+  const loadingOlderRef = useRef(false);
+  const directoryRef = useRef<ReturnType<typeof supabase.channel> | null>(null);
+  const directoryJoinedRef = useRef(false);
+  const roomIdRef = useRef(roomId);
+  const storedRef = useRef<Map<string, string>>(new Map()); // cacheSignature of each message as last saved
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = globalMessages;
+  const profileRef = useRef(userProfile);
+  profileRef.current = userProfile;
+  const blockedRef = useRef(blockedUids);
+  blockedRef.current = blockedUids;
+
+  const noteActivity = useCallback((room: string, at: number) => {
+    setRoomActivity(prev => (prev[room] ?? 0) >= at ? prev : { ...prev, [room]: at });
+  }, []);
+
+  const noteSlowMode = useCallback((room: string, seconds: number) => {
+    setKnownRooms(prev => {
+      if (prev.some(r => r.id === room)) return prev.map(r => r.id === room ? { ...r, slowModeSeconds: seconds } : r);
+      const base = findBuiltInRoom(room) || { id: room, name: room, kind: 'custom' as const, lastActivity: null, onlineCount: 0 };
+      return [...prev, { ...base, slowModeSeconds: seconds }];
+    });
+  }, []);
+
+  // Switching rooms clears the feed in the same render, so nothing from the old room is saved under the new one
+  const joinRoom = useCallback((id: string) => {
+    if (!isRoomId(id) || id === roomIdRef.current) return;
+    roomIdRef.current = id;
+    storedRef.current = new Map();
+    cursorRef.current = null;
+    loadingOlderRef.current = false;
+    setHasMoreHistory(false);
+    setIsLoadingOlder(false);
+    setSendError(null);
+    localStorage.setItem(ACTIVE_ROOM_KEY, id);
+    setGlobalMessages([]);
+    setIsReady(false);
+    setRoomId(id);
+  }, []);
 
-  // Persistence: Save to LocalStorage whenever messages change
+  // Sign in again with a saved moderator key, in case our auth session is new
   useEffect(() => {
-     try {
-        localStorage.setItem('global_meet_messages', JSON.stringify(globalMessages));
-     } catch(e) {}
+    if (!moderatorKey || !userProfile?.uid) {
+      setModeratorRole(null);
+      return;
+    }
+    let cancelled = false;
+    signInModerator(userProfile.uid, moderatorKey).then(role => {
+      if (!cancelled) setModeratorRole(role);
+    });
+    return () => { cancelled = true; };
+  }, [moderatorKey, userProfile?.uid]);
+
+  // Restore the room's last messages from storage for instant display
+  useEffect(() => {
+     getConversation(roomConversationId(roomId))
+       .then(saved => {
+          if (roomIdRef.current !== roomId) return;
+          saved.forEach(m => storedRef.current.set(m.id, cacheSignature(m)));
+          setGlobalMessages(prev => mergeMessages(prev, restoreCached(saved)));
+       })
+       .catch(e => console.error("Failed to load Global Meet history", e));
+  }, [roomId]);
+
+  // Persistence: Store new messages (and changed send states or deletions) and drop the ones
+  // that fell out of the window. Pages of older history are only kept in memory.
+  useEffect(() => {
+     const stored = storedRef.current;
+     const unsaved = globalMessages.slice(-HISTORY_LIMIT).filter(m => stored.get(m.id) !== cacheSignature(m));
+     if (unsaved.length === 0) return;
+     unsaved.forEach(m => stored.set(m.id, cacheSignature(m)));
+     const conversationId = roomConversationId(roomIdRef.current);
+     saveMessages(conversationId, unsaved)
+       .then(() => trimConversation(conversationId, HISTORY_LIMIT))
+       .catch(e => console.error("Failed to save Global Meet history", e));
   }, [globalMessages]);
 
   // 1. Initial History Load
   useEffect(() => {
     let mounted = true;
     const load = async () => {
-      const data = await getGlobalMessages();
-      if (!mounted) return;
-      
-      // DB returns Newest First (DESC).
-      const formatted: Message[] = data.map((row: any) => ({
-        id: row.id.toString(),
-        text: row.content,
-        sender: row.sender_id === myPeerId ? 'me' : 'stranger',
-        senderName: row.sender_name,
-        senderPeerId: row.sender_id,
-        senderProfile: row.sender_profile,
-        timestamp: new Date(row.created_at).getTime(),
-        type: 'text'
-      }));
-      
-      setGlobalMessages(prev => {
-         // Deduplicate
-         const existingIds = new Set(prev.map(m => m.id));
-         const newMsgs = formatted.filter(m => !existingIds.has(m.id));
-         
-         // Combine and Sort Chronologically (Oldest -> Newest)
-         const combined = [...prev, ...newMsgs].sort((a,b) => a.timestamp - b.timestamp);
-         
-         // Limit to 50 messages
-         return combined.slice(-50);
-      });
+      const data = await getGlobalMessages(roomId);
+      if (!mounted || roomIdRef.current !== roomId) return;
+      const rows = data || [];
+
+      // DB returns Newest First (DESC), so the last row is where older pages continue.
+      // A refetch (e.g. once our peer ID arrives) leaves the pages already loaded alone.
+      if (!cursorRef.current) {
+        if (rows.length > 0) cursorRef.current = globalHistoryCursor(rows[rows.length - 1]);
+        setHasMoreHistory(rows.length === GLOBAL_PAGE_SIZE);
+      }
+
+      setGlobalMessages(prev => mergeMessages(prev, rows.map(row => rowToMessage(row, myPeerId))));
       setIsReady(true);
     };
     load();
     return () => { mounted = false; };
-  }, [myPeerId]);
+  }, [myPeerId, roomId]);
+
+  // New messages that mention us or reply to one of ours, unless the sender is blocked
+  const mentionKind = useCallback((message: Message): MentionEvent['kind'] | null => {
+    const senderUid = message.senderProfile?.uid;
+    if (senderUid && blockedRef.current.includes(senderUid)) return null;
+    if (mentionsUser(message.text, profileRef.current?.username)) return 'mention';
+    const quoted = message.replyTo?.id;
+    return quoted && messagesRef.current.some(m => m.id === quoted && m.sender === 'me') ? 'reply' : null;
+  }, []);
 
-  // 2. Realtime Subscription (Broadcast + DB Sync)
+  const clearMentions = useCallback(() => setUnreadMentions(0), []);
+
+  // 2. Realtime Subscription (DB Sync). Messages and deletions come from the database itself,
+  // so only posts that passed the moderation guard show up and nobody can fake a deletion.
   useEffect(() => {
-    const channel = supabase.channel('global-meet-v3');
-    channelRef.current = channel;
+    const filter = `room=eq.${roomId}`;
+    const channel = supabase.channel(roomChannelName(roomId));
 
     channel
-      .on('broadcast', { event: 'message' }, (payload) => {
-         const msg = payload.payload as Message;
-         // Ignore my own broadcasts to prevent duplication
-         if (msg.senderPeerId === myPeerId) return;
-
-         setGlobalMessages(prev => {
-            if (prev.some(m => m.id === msg.id)) return prev;
-            // Append to end (Standard Chat) + Limit 50
-            return [...prev, { ...msg, sender: 'stranger' } as Message].slice(-50);
-         });
+      .on<GlobalMessageRow>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'global_messages', filter }, (payload) => {
+         const msg = rowToMessage(payload.new, myPeerId);
+         if (msg.sender !== 'me') {
+           noteActivity(roomId, Date.now());
+           const kind = mentionKind(msg);
+           if (kind) {
+             setUnreadMentions(n => n + 1);
+             setLatestMention({ message: msg, kind });
+           }
+         }
+         // Append to end (Standard Chat); our own row confirms the optimistic copy
+         setGlobalMessages(prev => mergeMessages(prev, [msg]));
+      })
+      .on<GlobalMessageRow>('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'global_messages', filter }, (payload) => {
+         const msg = rowToMessage(payload.new, myPeerId);
+         if (msg.isDeleted) setGlobalMessages(prev => applyDeletion(prev, msg.id));
       })
       .subscribe((status) => {
         if (status === 'SUBSCRIBED') setIsReady(true);
@@ -84,46 +195,239 @@ export const useGlobalChat = (userProfile: UserProfile | null, myPeerId: string
 
     return () => {
       supabase.removeChannel(channel);
-      channelRef.current = null;
     };
+  }, [myPeerId, roomId, noteActivity, mentionKind]);
+
+  // 3. Older History: one page before the oldest row fetched so far
+  const loadOlderMessages = useCallback(async () => {
+    const cursor = cursorRef.current;
+    if (!cursor || loadingOlderRef.current) return;
+    const room = roomIdRef.current;
+    loadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+
+    const rows = await getGlobalMessages(room, cursor);
+    if (roomIdRef.current !== room) return;
+    loadingOlderRef.current = false;
+    setIsLoadingOlder(false);
+    // On failure keep the cursor, so scrolling up again retries
+    if (!rows) return;
+
+    if (rows.length > 0) cursorRef.current = globalHistoryCursor(rows[rows.length - 1]);
+    setHasMoreHistory(rows.length === GLOBAL_PAGE_SIZE);
+    setGlobalMessages(prev => mergeMessages(prev, rows.map(row => rowToMessage(row, myPeerId))));
   }, [myPeerId]);
 
-  // 3. Send Message (Optimistic Broadcast)
-  const sendGlobalMessage = useCallback(async (text: string) => {
+  // 4. Room Directory: custom rooms and last activity from the DB, online counts from presence
+  const refreshRooms = useCallback(() => {
+    getGlobalRooms().then(setKnownRooms);
+  }, []);
+
+  useEffect(() => { refreshRooms(); }, [refreshRooms]);
+
+  const presencePayload = useCallback((): DirectoryPresence => ({
+    room: roomIdRef.current,
+    username: profileRef.current?.username,
+    uid: profileRef.current?.uid
+  }), []);
+
+  useEffect(() => {
+    if (!myPeerId) return;
+    const channel = supabase.channel(ROOM_DIRECTORY_CHANNEL, { config: { presence: { key: myPeerId } } });
+    directoryRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setPresence(channel.presenceState() as Record<string, DirectoryPresence[]>);
+      })
+      .on('broadcast', { event: 'activity' }, ({ payload }) => {
+        if (isRoomId(payload?.roomId)) noteActivity(payload.roomId, Date.now());
+      })
+      .on('broadcast', { event: 'room' }, ({ payload }) => {
+        const room = parseAnnouncedRoom(payload);
+        if (room) setKnownRooms(prev => prev.some(r => r.id === room.id) ? prev : [...prev, room]);
+      })
+      .subscribe(async (status) => {
+        if (status !== 'SUBSCRIBED') return;
+        directoryJoinedRef.current = true;
+        await channel.track(presencePayload());
+      });
+
+    return () => {
+      directoryJoinedRef.current = false;
+      supabase.removeChannel(channel);
+      directoryRef.current = null;
+    };
+  }, [myPeerId, noteActivity, presencePayload]);
+
+  // Move our presence along with us, and keep our name current for others' mentions
+  useEffect(() => {
+    if (directoryJoinedRef.current) directoryRef.current?.track(presencePayload());
+  }, [roomId, userProfile?.username, presencePayload]);
+
+  const onlineCounts = useMemo(() => countByRoom(Object.values(presence).flat()), [presence]);
+  const roomMembers = useMemo(() => membersOfRoom(presence, roomId, myPeerId), [presence, roomId, myPeerId]);
+
+  const rooms = useMemo(() => buildDirectory(knownRooms, roomActivity, onlineCounts), [knownRooms, roomActivity, onlineCounts]);
+
+  // Rooms we haven't fetched yet (e.g. a saved custom room beyond the directory limit) show their ID
+  const activeRoom = useMemo<ChatRoom>(() =>
+    rooms.find(r => r.id === roomId) || { id: roomId, name: roomId, kind: 'custom', lastActivity: null, onlineCount: onlineCounts[roomId] || 0 },
+  [rooms, roomId, onlineCounts]);
+
+  // Returns a user-facing error, or null once the room exists and we've joined it
+  const createRoom = useCallback(async (name: string): Promise<string | null> => {
+    if (!userProfile) return "Set up your profile first.";
+    const invalid = validateRoomName(name, rooms);
+    if (invalid) return invalid;
+
+    const trimmed = name.trim();
+    const room: ChatRoom = { id: newCustomRoomId(trimmed), name: trimmed, kind: 'custom', createdBy: userProfile.uid, lastActivity: null, onlineCount: 0 };
+    if (!await createGlobalRoom(room)) return "Could not create the room. Please try again.";
+
+    setKnownRooms(prev => [...prev, room]);
+    directoryRef.current?.send({ type: 'broadcast', event: 'room', payload: { id: room.id, name: room.name, createdBy: room.createdBy } });
+    joinRoom(room.id);
+    return null;
+  }, [userProfile, rooms, joinRoom]);
+
+  // 5. Send Message (Optimistic, then the DB row confirms it and reaches everyone else)
+  const nudgeDirectory = useCallback((room: string) => {
+    directoryRef.current?.send({ type: 'broadcast', event: 'activity', payload: { roomId: room } });
+  }, []);
+
+  const persistMessage = useCallback(async (message: Message, room: string) => {
     if (!userProfile || !myPeerId) return;
+    const { error, rejection } = await insertGlobalMessage(message.id, message.text || '', userProfile, myPeerId, room, message.replyTo);
+    if (rejection?.reason === 'slow_mode') noteSlowMode(room, rejection.seconds);
+    if (roomIdRef.current === room) {
+      setGlobalMessages(prev => error ? failSend(prev, message.id) : confirmSend(prev, message.id));
+      setSendError(rejection ? describeRejection(rejection) : null);
+    } else {
+      // We left the room meanwhile; fix up its cached copy instead
+      updateMessage(roomConversationId(room), message.id, m => ({ ...m, sendState: error ? 'failed' : undefined }))
+        .catch(e => console.error("Failed to save Global Meet history", e));
+    }
+    if (!error) nudgeDirectory(room);
+  }, [userProfile, myPeerId, noteSlowMode, nudgeDirectory]);
+
+  // Returns false (and explains why in sendError) when slow mode says it's too soon
+  const sendGlobalMessage = useCallback((text: string, replyTo?: ReplyInfo): boolean => {
+    if (!userProfile || !myPeerId) return false;
+
+    const slowMode = activeRoom.slowModeSeconds || 0;
+    if (slowMode > 0 && !moderatorRole) {
+      const last = [...messagesRef.current].reverse().find(m => m.sender === 'me' && m.sendState !== 'failed');
+      const waitSeconds = last ? Math.ceil((last.timestamp + slowMode * 1000 - Date.now()) / 1000) : 0;
+      if (waitSeconds > 0) {
+        setSendError(`Slow mode is on: wait ${waitSeconds}s before your next message.`);
+        return false;
+      }
+    }
 
-    const tempId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
     const newMessage: Message = {
-      id: tempId,
+      id: newClientMessageId(),
       text: text,
       sender: 'me',
       senderName: userProfile.username,
       senderPeerId: myPeerId,
       senderProfile: userProfile,
       timestamp: Date.now(),
-      type: 'text'
+      type: 'text',
+      sendState: 'pending',
+      replyTo
     };
 
     // A. Optimistic Local Update (Append to end)
-    setGlobalMessages(prev => [...prev, newMessage].slice(-50));
-
-    // B. Instant Broadcast to others
-    if (channelRef.current) {
-      channelRef.current.send({
-        type: 'broadcast',
-        event: 'message',
-        payload: newMessage
-      });
-    }
+    setGlobalMessages(prev => [...prev, newMessage]);
+    noteActivity(roomId, newMessage.timestamp);
+    setSendError(null);
+
+    // B. DB Insert; the guard trigger may refuse it, otherwise Realtime delivers it to the room
+    persistMessage(newMessage, roomId);
+    return true;
+
+  }, [userProfile, myPeerId, roomId, activeRoom, moderatorRole, noteActivity, persistMessage]);
+
+  // Sends a failed message again under the same client ID, so nobody ends up with two copies
+  const retryGlobalMessage = useCallback((id: string) => {
+    const message = messagesRef.current.find(m => m.id === id);
+    if (!message || message.sendState !== 'failed' || !myPeerId) return;
+    setGlobalMessages(prev => retrySend(prev, id));
+    persistMessage(message, roomId);
+  }, [myPeerId, roomId, persistMessage]);
+
+  // 6. Moderation: every action is checked against our auth session and logged by the database
+  // Verifies and remembers a moderator key; an empty or wrong key signs out of moderation
+  const setModeratorKey = useCallback(async (key: string): Promise<ModeratorRole | null> => {
+    const trimmed = key.trim();
+    const role = trimmed && userProfile?.uid ? await signInModerator(userProfile.uid, trimmed) : null;
+    if (!role) await signOutModerator();
+    if (role) localStorage.setItem(MODERATOR_KEY, trimmed);
+    else localStorage.removeItem(MODERATOR_KEY);
+    setModeratorKeyState(role ? trimmed : '');
+    setModeratorRole(role);
+    return role;
+  }, [userProfile]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!moderatorRole) return false;
+    const ok = await deleteGlobalMessage(messageId);
+    if (ok) setGlobalMessages(prev => applyDeletion(prev, messageId));
+    return ok;
+  }, [moderatorRole]);
+
+  // Mutes apply to the current room; bans (admins only) to every room until lifted
+  const muteUser = useCallback(async (uid: string, minutes: number) =>
+    moderatorRole ? sanctionUser(uid, 'mute', roomIdRef.current, minutes) : false,
+  [moderatorRole]);
+
+  const banUser = useCallback(async (uid: string) =>
+    moderatorRole === 'admin' ? sanctionUser(uid, 'ban', null, null) : false,
+  [moderatorRole]);
+
+  const liftUser = useCallback(async (uid: string) =>
+    moderatorRole ? liftSanctions(uid) : false,
+  [moderatorRole]);
 
-    // C. Background DB Insert (Persistence)
-    insertGlobalMessage(text, userProfile, myPeerId);
+  const setSlowMode = useCallback(async (seconds: number) => {
+    const room = roomIdRef.current;
+    if (!moderatorRole || !await setRoomSlowMode(room, seconds)) return false;
+    noteSlowMode(room, seconds);
+    return true;
+  }, [moderatorRole, noteSlowMode]);
 
-  }, [userProfile, myPeerId]);
+  // Blocked users' messages are kept in state but never shown, so unblocking brings them back
+  const visibleMessages = useMemo(() => {
+    if (blockedUids.length === 0) return globalMessages;
+    const blocked = new Set(blockedUids);
+    return globalMessages.filter(m => !(m.senderProfile?.uid && blocked.has(m.senderProfile.uid)));
+  }, [globalMessages, blockedUids]);
 
   return {
-    globalMessages,
+    globalMessages: visibleMessages,
     sendGlobalMessage,
-    isReady
+    retryGlobalMessage,
+    sendError,
+    isReady,
+    hasMoreHistory,
+    isLoadingOlder,
+    loadOlderMessages,
+    rooms,
+    activeRoom,
+    joinRoom,
+    createRoom,
+    refreshRooms,
+    roomMembers,
+    unreadMentions,
+    latestMention,
+    clearMentions,
+    moderatorRole,
+    setModeratorKey,
+    deleteMessage,
+    muteUser,
+    banUser,
+    liftUser,
+    setSlowMode
   };
 };
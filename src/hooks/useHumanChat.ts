@@ -1,12 +1,84 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import Peer, { DataConnection } from 'peerjs';
-import { supabase, fetchOfflineMessages } from '../lib/supabase';
-import { Message, ChatMode, PeerData, PresenceState, UserProfile, ConnectionMetadata, DirectMessageEvent, DirectStatusEvent, Friend, FriendRequest, ReplyInfo, RecentPeer } from '../types';
-import { ICE_SERVERS, STRANGER_DISCONNECTED_MSG } from '../constants';
+import { useState, useRef, useEffect } from 'react';
+import Peer, { DataConnection, MediaConnection } from 'peerjs';
+import { supabase, ensureIdentity, fetchOfflineMessages, openOfflineMessage, acknowledgeOfflineMessages, markOfflineMessagesSeen, fetchOfflineReceipts, deleteOfflineRows, subscribeToOfflineMessages, sendOfflineMessage, OfflineReceipt, submitReport, toReportExcerpt } from '../lib/supabase';
+import { Message, ChatMode, PeerData, PresenceState, UserProfile, MatchPreferences, ConnectionMetadata, DirectMessageEvent, DirectStatusEvent, Friend, FriendRequest, ReplyInfo, RecentPeer, BlockedUser, ReportContext, MessageType, TransferState, FileInfo, CallState, ConnectionAttempt, MessageStatus } from '../types';
+import { AI_FALLBACK_AFTER_MS, REPORT_EXCERPT_LENGTH, HEARTBEAT_INTERVAL_MS, HEARTBEAT_UNSTABLE_MS, HEARTBEAT_TIMEOUT_MS, KEY_HANDSHAKE_TIMEOUT_MS, RESUME_GRACE_MS, RESUME_RETRY_MS, TRANSFER_MAX_BYTES, PROTOCOL_VERSION, CALL_RING_TIMEOUT_MS, FRIEND_REQUEST_EXPIRY_MS, MESSAGE_MAX_LENGTH } from '../constants';
+import { pickWaiter, hasCompatibleWaiter, isMutualMatch, getSharedInterests, formatSharedInterests } from '../lib/matchmaking';
+import { requestMatch, leaveMatchQueue } from '../lib/matchApi';
+import { AiChatError, AiPersona, fetchAiPersona, streamAiReply, toAiHistory } from '../lib/aiChat';
+import { KeyShare, getIdentity, createKeyShare, deriveSessionKey, sealPeerData, openPeerData } from '../lib/e2e';
+import { readFrame, readSealedFrame, negotiateVersion, CLEARTEXT_TYPES } from '../lib/protocol';
+import { ProcessedTrack, createBlurredTrack } from '../lib/videoEffects';
+import { IceConfig, fetchIceConfig } from '../lib/iceConfig';
+import { getSelectedRoute, describeConnectFailure } from '../lib/iceDiagnostics';
+import { getList, saveList, conversationIdFor, updateMessage, advanceStatus } from '../lib/messageStore';
+import { mergeFriends } from '../lib/chatArchive';
+import { TransferReceiver, createManifest, createTransferReceiver, dataUrlToBlob, blobToDataUrl, isAcceptableTransfer, sanitizeFileName, sendChunks } from '../lib/fileTransfer';
 
 const MATCHMAKING_CHANNEL = 'global-lobby-v1';
+const MAX_CONNECTION_ATTEMPTS = 20; // Kept for the diagnostics panel
+const DIRECT_MESSAGE_QUEUE_LIMIT = 50; // Incoming direct messages not yet picked up by the UI
 
-export const useHumanChat = (userProfile: UserProfile | null, persistentId?: string) => {
+interface SecureSession {
+  keyShare: Promise<KeyShare>;
+  key: Promise<CryptoKey>; // Resolves once the peer's handshake arrives, rejects if it never does
+  setKey: (key: CryptoKey) => void;
+  failKey: (reason: Error) => void;
+  hasKey: boolean;
+  handshakeStarted: boolean;
+  outgoing: Promise<void>; // Encrypt and send in order
+  incoming: Promise<void>; // Decrypt and handle in order
+}
+
+const createSecureSession = (): SecureSession => {
+  let resolveKey: (key: CryptoKey) => void = () => {};
+  let rejectKey: (reason: Error) => void = () => {};
+  const key = new Promise<CryptoKey>((resolve, reject) => { resolveKey = resolve; rejectKey = reject; });
+  key.catch(() => {}); // Queued sends and receives report the failure themselves
+  const session: SecureSession = {
+    keyShare: createKeyShare(),
+    key,
+    setKey: k => { session.hasKey = true; resolveKey(k); },
+    failKey: rejectKey,
+    hasKey: false,
+    handshakeStarted: false,
+    outgoing: Promise.resolve(),
+    incoming: Promise.resolve()
+  };
+  return session;
+};
+
+// Friend requests we sent; a 'friend_accept' only counts if it answers one of them
+const SENT_FRIEND_REQUESTS_KEY = 'chat_sent_friend_requests';
+
+interface SentFriendRequest {
+  peerId: string;
+  uid?: string;
+  sentAt: number;
+}
+
+const loadSentFriendRequests = (): SentFriendRequest[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SENT_FRIEND_REQUESTS_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(r => typeof r?.peerId === 'string' && r.sentAt > Date.now() - FRIEND_REQUEST_EXPIRY_MS) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveSentFriendRequests = (requests: SentFriendRequest[]) => {
+  localStorage.setItem(SENT_FRIEND_REQUESTS_KEY, JSON.stringify(requests));
+};
+
+interface IncomingTransfer {
+  conn: DataConnection;
+  isMain: boolean;
+  receiver: TransferReceiver;
+  message: Message; // Shown once the file has arrived
+  reported: number; // Bytes at the last progress update
+}
+
+export const useHumanChat = (userProfile: UserProfile | null, persistentId?: string, matchPreferences?: MatchPreferences) => {
   // --- STATE ---
   const [messages, setMessages] = useState<Message[]>([]);
   const [status, setStatus] = useState<ChatMode>(ChatMode.IDLE);
@@ -15,20 +87,33 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
   const [partnerProfile, setPartnerProfile] = useState<UserProfile | null>(null);
   const [remoteVanishMode, setRemoteVanishMode] = useState<boolean | null>(null);
   const [partnerPeerId, setPartnerPeerId] = useState<string | null>(null);
+  const [isAiSession, setIsAiSession] = useState(false);
+  const [isConnectionUnstable, setIsConnectionUnstable] = useState(false);
   
   const [onlineUsers, setOnlineUsers] = useState<PresenceState[]>([]);
   const [myPeerId, setMyPeerId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [disconnectReason, setDisconnectReason] = useState<string | null>(null);
   
-  const [incomingDirectMessage, setIncomingDirectMessage] = useState<DirectMessageEvent | null>(null);
+  const [incomingDirectMessages, setIncomingDirectMessages] = useState<DirectMessageEvent[]>([]);
   const [incomingReaction, setIncomingReaction] = useState<{ peerId: string, messageId: string, emoji: string, sender: 'stranger' } | null>(null);
   const [incomingDirectStatus, setIncomingDirectStatus] = useState<DirectStatusEvent | null>(null);
   
   const [friends, setFriends] = useState<Friend[]>([]);
+  const [friendsLoaded, setFriendsLoaded] = useState(false); // Don't overwrite stored friends before they are read
   const [friendRequests, setFriendRequests] = useState<FriendRequest[]>([]);
-  const [activeDirectConnections, setActiveDirectConnections] = useState<Set<string>>(new Set());
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
   const [notification, setNotification] = useState<string | null>(null);
+  const [transfers, setTransfers] = useState<Record<string, TransferState>>({});
+  const [identityKey, setIdentityKey] = useState<string | null>(null);
+  const [call, setCall] = useState<CallState | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [localVideoStream, setLocalVideoStream] = useState<MediaStream | null>(null);
+  const [remoteVideoStream, setRemoteVideoStream] = useState<MediaStream | null>(null);
+  const [isVideoBlurred, setIsVideoBlurred] = useState(false);
+  const [canSwitchCamera, setCanSwitchCamera] = useState(false);
+  const [iceConfig, setIceConfig] = useState<IceConfig | null>(null);
+  const [connectionAttempts, setConnectionAttempts] = useState<ConnectionAttempt[]>([]);
 
   const peerRef = useRef<Peer | null>(null);
   const mainConnRef = useRef<DataConnection | null>(null);
@@ -41,20 +126,125 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
   
   const connectionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const failedPeersRef = useRef<Set<string>>(new Set());
+  const searchStartedAtRef = useRef<number>(Date.now()); // Used to relax interest matching over time
+  const serverMatchingRef = useRef<'unknown' | 'available' | 'unavailable'>('unknown');
+  const expectedPartnerRef = useRef<string | null>(null); // Set when the match server told us who will dial us
+  const matchRequestInFlightRef = useRef(false);
+  const lastMatchRequestAtRef = useRef(0);
+  const myPeerIdRef = useRef<string | null>(null);
+  const isAiSessionRef = useRef(false);
+  const aiPersonaRef = useRef<AiPersona | null>(null); // Pinned for every request of the AI session
+  const aiStartingRef = useRef(false);
+  const aiRetryAtRef = useRef(0);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const partnerProfileRef = useRef<UserProfile | null>(null);
+  const userProfileRef = useRef<UserProfile | null>(userProfile);
+  const friendsRef = useRef<Friend[]>([]);
+  const sentFriendRequestsRef = useRef<SentFriendRequest[]>(loadSentFriendRequests());
+  const matchPreferencesRef = useRef<MatchPreferences | undefined>(matchPreferences);
+  const blockedUidsRef = useRef<Set<string>>(new Set()); // For peer callbacks that outlive renders
+  const lastHeardRef = useRef<WeakMap<DataConnection, number>>(new WeakMap()); // Last time any data arrived
+  const heartbeatConnsRef = useRef<WeakSet<DataConnection>>(new WeakSet()); // Peers that answer pings
+  const sessionRef = useRef<{ peerId: string; token: string } | null>(null); // Current random chat, for resuming
+  const resumeTimersRef = useRef<{ retry: ReturnType<typeof setInterval> | null; timeout: ReturnType<typeof setTimeout> } | null>(null);
+  const resumeQueueRef = useRef<((conn: DataConnection) => void)[]>([]); // Sends made while the chat was resuming
+  const outgoingTransfersRef = useRef<Map<string, { conn: DataConnection; controller: AbortController }>>(new Map());
+  const incomingTransfersRef = useRef<Map<string, IncomingTransfer>>(new Map());
+  const secureSessionsRef = useRef<WeakMap<DataConnection, SecureSession>>(new WeakMap());
+  const callRef = useRef<CallState | null>(null);
+  const callConnRef = useRef<DataConnection | null>(null); // The chat connection the call is signalled on
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const mediaConnRef = useRef<MediaConnection | null>(null);
+  const callRingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const cameraStreamRef = useRef<MediaStream | null>(null); // Raw camera and microphone
+  const outgoingVideoRef = useRef<MediaStream | null>(null); // What the partner receives (maybe blurred)
+  const blurRef = useRef<ProcessedTrack | null>(null);
+  const facingModeRef = useRef<'user' | 'environment'>('user');
+  const videoMediaRef = useRef<MediaConnection | null>(null);
+  const pendingVideoCallRef = useRef<MediaConnection | null>(null); // Arrived before our camera was ready
+  const iceConfigRef = useRef<IceConfig | null>(null);
+  const identityKeyRef = useRef<string | null>(null);
+  const peerIdentityKeysRef = useRef<Map<string, string>>(new Map()); // Identity key each peer's session was keyed with
 
   // Keep ref updated
   useEffect(() => {
     statusRef.current = status;
   }, [status]);
 
-  // Load friends from local storage
   useEffect(() => {
-    const storedFriends = localStorage.getItem('chat_friends');
-    if (storedFriends) {
-      setFriends(JSON.parse(storedFriends));
-    }
+    myPeerIdRef.current = myPeerId;
+  }, [myPeerId]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    partnerProfileRef.current = partnerProfile;
+  }, [partnerProfile]);
+
+  useEffect(() => {
+    blockedUidsRef.current = new Set(blockedUsers.map(b => b.uid));
+  }, [blockedUsers]);
+
+  useEffect(() => {
+    friendsRef.current = friends;
+  }, [friends]);
+
+  useEffect(() => {
+    userProfileRef.current = userProfile;
+    matchPreferencesRef.current = matchPreferences;
+  }, [userProfile, matchPreferences]);
+
+  const getPresence = (peerId: string) => {
+    const presence = channelRef.current?.presenceState()[peerId] as unknown as PresenceState[] | undefined;
+    return presence?.[0];
+  };
+
+  useEffect(() => {
+    getIdentity().then(identity => {
+      identityKeyRef.current = identity.publicKey;
+      setIdentityKey(identity.publicKey);
+    }).catch(e => console.error("Could not load identity key", e));
   }, []);
 
+  // Our profile as peers see it, with the identity key once it has loaded
+  const withIdentityKey = (profile: UserProfile | null) =>
+    profile && identityKeyRef.current ? { ...profile, publicKey: identityKeyRef.current } : profile;
+
+  const isBlockedUid = (uid?: string) => !!uid && blockedUidsRef.current.has(uid);
+
+  // The dialer checks both sides' preferences, but we re-check ours against their presence in case it was stale
+  const acceptsIncomingMatch = (peerId: string) => {
+    if (expectedPartnerRef.current) return peerId === expectedPartnerRef.current;
+    const me = userProfileRef.current;
+    const caller = getPresence(peerId);
+    if (!me || !caller) return true;
+    if (isBlockedUid(caller.profile?.uid)) return false;
+    return isMutualMatch(me, matchPreferencesRef.current, caller, searchStartedAtRef.current, Date.now());
+  };
+
+  // Load friends from the message store and blocked users from local storage
+  useEffect(() => {
+    getList('friends')
+      .then(stored => {
+         setFriendsLoaded(true);
+         setFriends(prev => prev.length ? [...stored, ...prev.filter(f => !stored.some(s => s.id === f.id))] : stored);
+      })
+      .catch(e => console.error("Failed to load friends", e));
+    try {
+      const storedBlocked = localStorage.getItem('chat_blocked_users');
+      if (storedBlocked) setBlockedUsers(JSON.parse(storedBlocked));
+    } catch (e) {}
+  }, []);
+
+  // Persist friends once loaded, whichever side added or removed them
+  useEffect(() => {
+    if (!friendsLoaded) return;
+    saveList('friends', friends).catch(e => console.error("Failed to save friends", e));
+  }, [friends, friendsLoaded]);
+
   // Sync Friends Status (Last Seen) - OPTIMIZED: Update faster (10s) to catch refreshes
   useEffect(() => {
     if (onlineUsers.length > 0 && friends.length > 0) {
@@ -79,11 +269,7 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
             return friend;
          });
          
-         if (changed) {
-            localStorage.setItem('chat_friends', JSON.stringify(updated));
-            return updated;
-         }
-         return prev;
+         return changed ? updated : prev;
       });
     }
   }, [onlineUsers]);
@@ -98,104 +284,188 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
 
   // --- HELPER: Save Recent Peer ---
   const addToRecentPeers = (profile: UserProfile, peerId: string) => {
-    try {
-       const existing = localStorage.getItem('recent_peers');
-       let recents: RecentPeer[] = existing ? JSON.parse(existing) : [];
-       
-       // Deduplicate by UID (preferred) or PeerID
-       recents = recents.filter(r => {
-         if (r.profile.uid && profile.uid) return r.profile.uid !== profile.uid;
-         return r.peerId !== peerId;
-       });
-       
-       recents.unshift({
-         id: profile.uid || peerId,
-         peerId: peerId,
-         profile: profile,
-         metAt: Date.now()
-       });
-       
-       localStorage.setItem('recent_peers', JSON.stringify(recents.slice(0, 50)));
-    } catch(e) { console.error("Failed to save recent peer", e); }
+    getList('recent_peers')
+      .then(existing => {
+         // Deduplicate by UID (preferred) or PeerID
+         const recents: RecentPeer[] = existing.filter(r => {
+           if (r.profile.uid && profile.uid) return r.profile.uid !== profile.uid;
+           return r.peerId !== peerId;
+         });
+         
+         recents.unshift({
+           id: profile.uid || peerId,
+           peerId: peerId,
+           profile: profile,
+           metAt: Date.now()
+         });
+         
+         return saveList('recent_peers', recents.slice(0, 50));
+      })
+      .catch(e => console.error("Failed to save recent peer", e));
   };
 
   // --- 1. INITIALIZE PEER ---
   useEffect(() => {
     if (!userProfile) return;
     if (peerRef.current && !peerRef.current.destroyed) return;
+    let cancelled = false;
 
-    // Use persistentId if provided, otherwise let PeerJS generate a random one (prevents collisions in local testing)
-    const peer = persistentId 
-      ? new Peer(persistentId, { debug: 1, config: { iceServers: ICE_SERVERS } })
-      : new Peer({ debug: 1, config: { iceServers: ICE_SERVERS } });
+    // TURN credentials come from /api/turn; without it we start with the built-in STUN list
+    fetchIceConfig().then(ice => {
+      if (cancelled || (peerRef.current && !peerRef.current.destroyed)) return;
+      updateIceConfig(ice);
 
-    peerRef.current = peer;
+      // Use persistentId if provided, otherwise let PeerJS generate a random one (prevents collisions in local testing)
+      const peer = persistentId 
+        ? new Peer(persistentId, { debug: 1, config: ice.rtc })
+        : new Peer({ debug: 1, config: ice.rtc });
 
-    peer.on('open', (id) => {
-      console.log('My Peer ID:', id);
-      setMyPeerId(id);
-    });
+      peerRef.current = peer;
 
-    peer.on('connection', (conn) => {
-      const meta = conn.metadata as ConnectionMetadata;
+      peer.on('open', (id) => {
+        console.log('My Peer ID:', id);
+        setMyPeerId(id);
+      });
+
+      peer.on('connection', (conn) => {
+        const meta = conn.metadata as ConnectionMetadata;
       
-      // STRICT CHECK 1: Only accept random connections if we are actively searching or waiting
-      if (meta?.type === 'random') {
-        const currentStatus = statusRef.current;
-        if (currentStatus !== ChatMode.SEARCHING && currentStatus !== ChatMode.WAITING) {
-           conn.close();
-           return;
-        }
-        if (mainConnRef.current) {
-           conn.close();
-           return;
+        // STRICT CHECK 1: Only accept random connections if we are actively searching or waiting
+        if (meta?.type === 'random') {
+          const currentStatus = statusRef.current;
+          if (currentStatus !== ChatMode.SEARCHING && currentStatus !== ChatMode.WAITING) {
+             conn.close();
+             return;
+          }
+          if (mainConnRef.current) {
+             conn.close();
+             return;
+          }
+          if (!acceptsIncomingMatch(conn.peer)) {
+             conn.close();
+             return;
+          }
+        } else if (meta?.type === 'resume') {
+          const session = sessionRef.current;
+          const status = statusRef.current;
+          if (!session || session.peerId !== conn.peer || session.token !== meta.sessionToken ||
+              (status !== ChatMode.RECONNECTING && status !== ChatMode.CONNECTED)) {
+             conn.close();
+             return;
+          }
+          // The partner may notice the drop before we do; their resume replaces our stale connection
+          const stale = mainConnRef.current;
+          mainConnRef.current = null;
+          stale?.close();
+        } else if (isBlockedUid(getPresence(conn.peer)?.profile?.uid)) {
+          conn.close();
+          return;
         }
-      }
       
-      setupConnection(conn, meta);
-    });
+        setupConnection(conn, meta);
+      });
 
-    peer.on('error', (err: any) => {
-      console.error("Peer Error:", err);
-      // If we were trying to connect as matchmaker and failed, reset flag
-      if (err.type === 'peer-unavailable' && isMatchmakerRef.current) {
-         isMatchmakerRef.current = false;
-         if (statusRef.current === ChatMode.SEARCHING) {
-             mainConnRef.current = null;
-         }
-      }
+      peer.on('call', (media) => {
+        if (media.metadata?.type === 'video') {
+          handleIncomingVideo(media);
+          return;
+        }
+        // Only the call we accepted over the chat connection gets answered
+        const current = callRef.current;
+        if (!current || current.direction !== 'incoming' || current.status !== 'connecting' ||
+            media.peer !== current.peerId || media.metadata?.callId !== current.id || !localStreamRef.current) {
+          media.close();
+          return;
+        }
+        media.answer(localStreamRef.current);
+        attachMediaConnection(media);
+      });
+
+      peer.on('disconnected', () => {
+        // Lost the signalling server (network blip). Reconnect with the same ID so chats can resume.
+        setTimeout(() => {
+          if (!peer.destroyed && peer.disconnected) peer.reconnect();
+        }, 2000);
+      });
+
+      peer.on('error', (err: any) => {
+        console.error("Peer Error:", err);
+        if (err.type === 'peer-unavailable') {
+           failAttemptsTo(err.message, 'They went offline before the connection opened');
+        }
+        // If we were trying to connect as matchmaker and failed, reset flag
+        if (err.type === 'peer-unavailable' && isMatchmakerRef.current) {
+           isMatchmakerRef.current = false;
+           if (statusRef.current === ChatMode.SEARCHING) {
+               mainConnRef.current = null;
+           }
+        }
+      });
     });
 
-    return () => {
-      // Cleanup is handled by disconnect() usually, but here we just leave it for re-renders
-    };
+    // Cleanup is handled by disconnect() usually; this only stops a creation still waiting on the ICE config
+    return () => { cancelled = true; };
   }, [userProfile, persistentId]);
 
-  // --- 2. POLL FOR OFFLINE MESSAGES ---
+  // Short-lived TURN credentials: refetch before they expire. PeerJS reads options.config for
+  // every new RTCPeerConnection, so open connections keep theirs and new ones get fresh ones.
   useEffect(() => {
-    if (!myPeerId) return;
-    const checkOffline = async () => {
-       const msgs = await fetchOfflineMessages(myPeerId);
-       msgs.forEach(row => {
-          const msg: Message = {
-             id: row.id.toString(),
-             text: row.type === 'text' ? row.content : undefined,
-             fileData: row.type !== 'text' ? row.content : undefined,
-             type: row.type as any,
-             sender: 'stranger',
-             timestamp: new Date(row.created_at).getTime(),
-             status: 'sent',
-             senderPeerId: row.sender_id
-          };
-          // For offline messages, we might not have the full profile immediately available
-          // logic in SocialHub will try to resolve it via friends list
-          setIncomingDirectMessage({ peerId: row.sender_id, message: msg });
-       });
+    if (!iceConfig?.expiresAt) return;
+    const delay = Math.max(30000, (iceConfig.expiresAt - Date.now()) * 0.8);
+    const timer = setTimeout(() => {
+      fetchIceConfig().then(next => {
+        if (peerRef.current) peerRef.current.options.config = next.rtc;
+        updateIceConfig(next);
+      });
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [iceConfig]);
+
+  // --- 2. OFFLINE MESSAGES ---
+  // Backlog first, then realtime. Receipts for what we sent while friends were away come the same way.
+  const myUid = userProfile?.uid;
+  useEffect(() => {
+    if (!myUid || !identityKey || !friendsLoaded) return;
+    let cancelled = false;
+
+    const receiveRows = async (rows: any[]) => {
+       const handled: number[] = [];
+       for (const row of rows) {
+          if (cancelled) return;
+          // Rows that aren't sealed to our identity key (including old plaintext ones) are acknowledged and dropped
+          const opened = await openOfflineMessage(row);
+          const friend = friendsRef.current.find(f => f.profile.uid === row.sender_id);
+          handled.push(row.id);
+          // Only friends can leave messages, sealed with the identity key we know for them; blocked users never get through
+          if (!opened || !friend || !friend.profile.publicKey || opened.senderKey !== friend.profile.publicKey || isBlockedUid(row.sender_id)) continue;
+          pushDirectMessage({ peerId: friend.id, message: { ...opened.message, senderProfile: friend.profile } });
+       }
+       return acknowledgeOfflineMessages(handled);
     };
-    checkOffline();
-    const interval = setInterval(checkOffline, 15000);
-    return () => clearInterval(interval);
-  }, [myPeerId]);
+
+    const drainBacklog = async () => {
+       // Acknowledged rows drop out of the query, so this pages through the backlog
+       let rows = await fetchOfflineMessages(myUid);
+       while (!cancelled && rows.length > 0 && await receiveRows(rows)) {
+          rows = await fetchOfflineMessages(myUid);
+       }
+       const receipts = await fetchOfflineReceipts(myUid);
+       if (!cancelled) receipts.forEach(applyOfflineReceipt);
+    };
+
+    // chat_history only shows its rows to the session that has claimed our uid
+    let unsubscribe = () => {};
+    ensureIdentity(myUid).then(ok => {
+       if (cancelled || !ok) return;
+       drainBacklog();
+       unsubscribe = subscribeToOfflineMessages(myUid, row => { receiveRows([row]); }, applyOfflineReceipt);
+    });
+    return () => {
+       cancelled = true;
+       unsubscribe();
+    };
+    // Friends load asynchronously; senders are only recognised once they have
+  }, [myUid, identityKey, friendsLoaded]);
 
   // --- 3. PERSISTENT LOBBY ---
   useEffect(() => {
@@ -222,65 +492,126 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     };
   }, [userProfile, myPeerId]);
 
-  // --- MATCHMAKING (Polling Strategy for High Load) ---
+  // --- MATCHMAKING ---
+  // Primary: the /api/match queue pairs us atomically and tells exactly one side to dial.
+  // Fallback (endpoint unreachable): pick a waiter from lobby presence and race for them.
+  const dialRandomPeer = (targetPeerId: string) => {
+      if (statusRef.current !== ChatMode.SEARCHING || mainConnRef.current) {
+          isMatchmakerRef.current = false;
+          return;
+      }
+
+      try {
+          console.log("Attempting to connect to:", targetPeerId);
+          const metadata: ConnectionMetadata = { type: 'random', sessionToken: crypto.randomUUID() };
+          const conn = peerRef.current?.connect(targetPeerId, { 
+              reliable: true, 
+              metadata
+          });
+
+          if (conn) {
+              setupConnection(conn, metadata);
+              
+              if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
+              // Timeout if connection doesn't open within 5s
+              connectionTimeoutRef.current = setTimeout(() => {
+                  if (statusRef.current === ChatMode.SEARCHING && !mainConnRef.current?.open) {
+                      console.log("Connection timeout, retrying...");
+                      failAttempt(conn).finally(() => conn.close()); // Read its ICE state before closing
+                      mainConnRef.current = null;
+                      failedPeersRef.current.add(targetPeerId); // Temporarily ignore this peer
+                      isMatchmakerRef.current = false;
+                      releaseServerMatch();
+                  }
+              }, 5000);
+          } else {
+              isMatchmakerRef.current = false;
+          }
+      } catch (e) {
+          console.error("Connect error:", e);
+          isMatchmakerRef.current = false;
+      }
+  };
+
+  // Drop our queue ticket (and any pairing on it) so the next search starts fresh
+  const releaseServerMatch = () => {
+      expectedPartnerRef.current = null;
+      if (serverMatchingRef.current === 'available' && myPeerIdRef.current) {
+          leaveMatchQueue(myPeerIdRef.current);
+      }
+  };
+
+  // Others in the lobby we could dial
+  const getDialableWaiters = () => onlineUsers.filter(u => 
+      u.status === 'waiting' && 
+      u.peerId !== myPeerId && 
+      !failedPeersRef.current.has(u.peerId) &&
+      !isBlockedUid(u.profile?.uid)
+  );
+
   useEffect(() => {
     if (status !== ChatMode.SEARCHING) return;
-    
-    // Polling function to retry matchmaking frequently
-    const attemptMatch = () => {
-        if (!myPeerId || isMatchmakerRef.current || mainConnRef.current || statusRef.current !== ChatMode.SEARCHING) return;
 
-        // Filter valid waiters
-        const waiters = onlineUsers.filter(u => 
-            u.status === 'waiting' && 
-            u.peerId !== myPeerId && 
-            !failedPeersRef.current.has(u.peerId)
-        );
+    const attemptPresenceMatch = () => {
+        const waiters = getDialableWaiters();
 
-        if (waiters.length > 0) {
-            // OPTIMIZATION: Pick a RANDOM waiter instead of the oldest.
-            // This prevents race conditions where 100 people all try to connect to the same "oldest" waiter.
-            const target = waiters[Math.floor(Math.random() * waiters.length)];
-            
+        // Prefer waiters sharing our interests; the requirement relaxes the longer either side waits.
+        // Ties are broken randomly so 100 searchers don't all dial the same "best" waiter.
+        const candidate = userProfile ? pickWaiter(userProfile, matchPreferences, waiters, searchStartedAtRef.current) : null;
+
+        if (candidate) {
             isMatchmakerRef.current = true;
-            
             // Short random delay to further reduce collision probability in high concurrency
-            setTimeout(() => {
-                if (statusRef.current !== ChatMode.SEARCHING || mainConnRef.current) {
-                    isMatchmakerRef.current = false;
-                    return;
-                }
+            setTimeout(() => dialRandomPeer(candidate.waiter.peerId), Math.random() * 200 + 50); // Faster reaction time (50-250ms)
+        }
+    };
 
-                try {
-                    console.log("Attempting to connect to:", target.peerId);
-                    const conn = peerRef.current?.connect(target.peerId, { 
-                        reliable: true, 
-                        metadata: { type: 'random' } 
-                    });
-
-                    if (conn) {
-                        setupConnection(conn, { type: 'random' });
-                        
-                        if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
-                        // Timeout if connection doesn't open within 5s
-                        connectionTimeoutRef.current = setTimeout(() => {
-                            if (statusRef.current === ChatMode.SEARCHING && !mainConnRef.current?.open) {
-                                console.log("Connection timeout, retrying...");
-                                conn.close();
-                                mainConnRef.current = null;
-                                failedPeersRef.current.add(target.peerId); // Temporarily ignore this peer
-                                isMatchmakerRef.current = false;
-                            }
-                        }, 5000);
-                    } else {
-                        isMatchmakerRef.current = false;
-                    }
-                } catch (e) {
-                    console.error("Connect error:", e);
-                    isMatchmakerRef.current = false;
-                }
-            }, Math.random() * 200 + 50); // Faster reaction time (50-250ms)
+    const attemptServerMatch = async () => {
+        if (!myPeerId || matchRequestInFlightRef.current || expectedPartnerRef.current) return;
+        if (Date.now() - lastMatchRequestAtRef.current < 1000) return;
+
+        matchRequestInFlightRef.current = true;
+        lastMatchRequestAtRef.current = Date.now();
+        const result = await requestMatch(myPeerId, userProfile, matchPreferences, Array.from(failedPeersRef.current), Array.from(blockedUidsRef.current));
+        matchRequestInFlightRef.current = false;
+
+        if (statusRef.current !== ChatMode.SEARCHING || mainConnRef.current || isMatchmakerRef.current) return;
+        if (!result) {
+            serverMatchingRef.current = 'unavailable';
+            attemptPresenceMatch();
+            return;
         }
+        serverMatchingRef.current = 'available';
+        if (result.status !== 'matched') return;
+
+        if (result.initiator) {
+            isMatchmakerRef.current = true;
+            dialRandomPeer(result.partnerPeerId);
+            return;
+        }
+
+        // Our partner dials us; only their connection is accepted until this expires
+        const partnerPeerId = result.partnerPeerId;
+        expectedPartnerRef.current = partnerPeerId;
+        if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
+        connectionTimeoutRef.current = setTimeout(() => {
+            if (statusRef.current === ChatMode.SEARCHING && !mainConnRef.current?.open) {
+                console.log("Matched partner never connected, retrying...");
+                if (mainConnRef.current) failAttempt(mainConnRef.current);
+                else recordMissedMatch(partnerPeerId);
+                mainConnRef.current?.close();
+                mainConnRef.current = null;
+                failedPeersRef.current.add(partnerPeerId);
+                releaseServerMatch();
+            }
+        }, 8000);
+    };
+
+    // Polling function to retry matchmaking frequently
+    const attemptMatch = () => {
+        if (!myPeerId || isMatchmakerRef.current || mainConnRef.current || statusRef.current !== ChatMode.SEARCHING) return;
+        if (serverMatchingRef.current === 'unavailable') attemptPresenceMatch();
+        else attemptServerMatch();
     };
 
     // Run immediately
@@ -289,12 +620,150 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     // Poll every 1 second to ensure fast connections if initial presence sync was missed/delayed
     const interval = setInterval(attemptMatch, 1000);
 
+    return () => clearInterval(interval);
+  }, [status, onlineUsers, myPeerId, userProfile, matchPreferences]);
+
+  // Re-announce preferences if they change mid-search so other matchers see them
+  useEffect(() => {
+    if (statusRef.current !== ChatMode.SEARCHING || !myPeerId) return;
+    channelRef.current?.track({ peerId: myPeerId, status: 'waiting', timestamp: searchStartedAtRef.current, profile: userProfile, preferences: matchPreferences });
+  }, [matchPreferences]);
+
+  // --- HEARTBEAT ---
+  // A frozen tab never closes its connection, so silence is the only signal. Timeouts are
+  // only enforced on peers that have pinged us, so older clients without heartbeats aren't dropped.
+  useEffect(() => {
+    const interval = setInterval(() => {
+        const now = Date.now();
+        const silenceOf = (conn: DataConnection) => now - (lastHeardRef.current.get(conn) ?? now);
+
+        const main = mainConnRef.current;
+        if (main?.open && statusRef.current === ChatMode.CONNECTED) {
+            main.send({ type: 'ping', payload: now });
+            if (heartbeatConnsRef.current.has(main)) {
+                const silence = silenceOf(main);
+                if (silence > HEARTBEAT_TIMEOUT_MS) {
+                    console.log("Partner stopped responding, trying to resume");
+                    beginResume('inactive');
+                    main.close();
+                } else {
+                    setIsConnectionUnstable(silence > HEARTBEAT_UNSTABLE_MS);
+                }
+            }
+        }
+
+        directConnsRef.current.forEach(conn => {
+            if (!conn.open) return;
+            conn.send({ type: 'ping', payload: now });
+            if (heartbeatConnsRef.current.has(conn) && silenceOf(conn) > HEARTBEAT_TIMEOUT_MS) {
+                conn.close(); // The close handler cleans up the direct chat
+            }
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [myPeerId, userProfile]);
+
+  // --- AI STRANGER FALLBACK ---
+  useEffect(() => {
+    if (status !== ChatMode.SEARCHING || !myPeerId) return;
+
+    const interval = setInterval(() => {
+        if (statusRef.current !== ChatMode.SEARCHING || mainConnRef.current || isMatchmakerRef.current || expectedPartnerRef.current) return;
+        if (aiStartingRef.current || Date.now() < aiRetryAtRef.current) return;
+        if (Date.now() - searchStartedAtRef.current < AI_FALLBACK_AFTER_MS) return;
+        if (matchPreferencesRef.current?.videoMode) return; // The AI stranger has no camera
+        // Waiting for people we could never be paired with would keep us searching forever
+        const me = userProfileRef.current;
+        if (!me || !hasCompatibleWaiter(me, matchPreferencesRef.current, getDialableWaiters(), searchStartedAtRef.current)) startAiSession();
+    }, 1000);
+
     return () => clearInterval(interval);
   }, [status, onlineUsers, myPeerId]);
 
+  const startAiSession = async () => {
+    aiStartingRef.current = true;
+    const persona = await fetchAiPersona();
+    aiStartingRef.current = false;
+
+    if (!persona) {
+      // AI unavailable right now; keep searching for humans and try again later
+      aiRetryAtRef.current = Date.now() + AI_FALLBACK_AFTER_MS;
+      return;
+    }
+    if (statusRef.current !== ChatMode.SEARCHING || mainConnRef.current || isMatchmakerRef.current || expectedPartnerRef.current) return;
+
+    aiPersonaRef.current = persona;
+    const profile = persona.profile;
+    isAiSessionRef.current = true;
+    setIsAiSession(true);
+    releaseServerMatch();
+    if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
+
+    setStatus(ChatMode.CONNECTED);
+    setPartnerProfile(profile);
+    const sharedText = formatSharedInterests(getSharedInterests(userProfile?.interests, profile.interests));
+    setMessages(prev => [
+       ...prev,
+       { id: 'sys-conn-' + Date.now(), text: `Connected with ${profile.username}.`, sender: 'system', timestamp: Date.now(), type: 'text' },
+       ...(sharedText ? [{ id: 'sys-interests-' + Date.now(), text: `${sharedText}.`, sender: 'system' as const, timestamp: Date.now(), type: 'text' as const }] : [])
+    ]);
+    channelRef.current?.track({ peerId: myPeerId, status: 'paired', timestamp: Date.now(), profile: userProfile });
+  };
+
+  // Streams the AI stranger's reply into the message list, like a human typing
+  const requestAiReply = async (history: Message[]) => {
+    const persona = aiPersonaRef.current;
+    if (!persona) return;
+    aiAbortRef.current?.abort();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
+    const replyId = 'ai-' + Date.now();
+    let started = false;
+
+    try {
+      // Short human-like pause before "typing"
+      await new Promise(resolve => setTimeout(resolve, 500 + Math.random() * 1000));
+      if (controller.signal.aborted) return;
+      setPartnerTyping(true);
+
+      await streamAiReply(toAiHistory(history), persona.token, (text) => {
+        if (controller.signal.aborted) return;
+        if (!started) {
+          started = true;
+          setPartnerTyping(false);
+          setMessages(prev => [
+            ...prev.map(m => m.sender === 'me' ? { ...m, status: 'seen' as const } : m),
+            { id: replyId, text, sender: 'stranger', timestamp: Date.now(), type: 'text', reactions: [], isStreaming: true }
+          ]);
+        } else {
+          setMessages(prev => prev.map(m => m.id === replyId ? { ...m, text } : m));
+        }
+      }, controller.signal);
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        if (e instanceof AiChatError && e.status === 429) {
+          // Rate limited: keep the chat open, the user can just send again later
+          setMessages(prev => [...prev, { id: 'sys-slow-' + Date.now(), text: 'You are sending messages too fast. Wait a moment and try again.', sender: 'system', timestamp: Date.now(), type: 'text' }]);
+          return;
+        }
+        console.error("AI reply failed:", e);
+        handleMainDisconnect('network');
+        return;
+      }
+    } finally {
+      if (aiAbortRef.current === controller) {
+        aiAbortRef.current = null;
+        setPartnerTyping(false);
+      }
+      if (started) setMessages(prev => prev.map(m => m.id === replyId ? { ...m, isStreaming: false } : m));
+    }
+  };
+
   // --- CONNECTION SETUP ---
   const setupConnection = (conn: DataConnection, metadata: ConnectionMetadata) => {
-    const isMain = metadata.type === 'random';
+    const isMain = metadata.type === 'random' || metadata.type === 'resume';
+    const isResume = metadata.type === 'resume';
 
     if (isMain) {
        if (mainConnRef.current) {
@@ -304,63 +773,221 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
        mainConnRef.current = conn;
     } else {
        directConnsRef.current.set(conn.peer, conn);
-       setActiveDirectConnections(prev => new Set(prev).add(conn.peer));
     }
 
+    const secure = createSecureSession();
+    secureSessionsRef.current.set(conn, secure);
+    trackAttempt(conn, metadata.type);
+
+    // Without a session key nothing private can be sent or read, so a stalled handshake ends the connection
+    let handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+    const failHandshake = (reason: string) => {
+      if (secure.hasKey) return;
+      if (handshakeTimer) clearTimeout(handshakeTimer);
+      console.warn(`Key exchange with ${conn.peer} failed: ${reason}`);
+      secure.failKey(new Error(reason));
+      if (isMain && mainConnRef.current === conn) {
+        setNotification("Couldn't set up an encrypted connection, finding someone else...");
+      } else if (!isMain) {
+        setNotification(`Couldn't connect securely to ${directPeerProfilesRef.current.get(conn.peer)?.username || 'your friend'}`);
+      }
+      dropPeerConnection(conn, isMain);
+    };
+
     conn.on('open', () => {
       console.log(`Connection opened with ${conn.peer} (${metadata.type})`);
-      if (isMain) {
+      markAttemptOpen(conn);
+      lastHeardRef.current.set(conn, Date.now());
+      if (isResume) {
+        if (mainConnRef.current !== conn) {
+          conn.close(); // Superseded by a newer attempt
+          return;
+        }
+        clearResume();
+        statusRef.current = ChatMode.CONNECTED;
+        setStatus(ChatMode.CONNECTED);
+        setMessages(prev => [...prev, { id: 'sys-resumed-' + Date.now(), text: 'Reconnected.', sender: 'system', timestamp: Date.now(), type: 'text' }]);
+        // Encrypted frames wait for the new session key, so these go out after the handshake
+        resumeQueueRef.current.splice(0).forEach(send => send(conn));
+      } else if (isMain) {
         if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
+        sessionRef.current = metadata.sessionToken ? { peerId: conn.peer, token: metadata.sessionToken } : null;
         setStatus(ChatMode.CONNECTED);
         setPartnerPeerId(conn.peer);
         isMatchmakerRef.current = false;
         failedPeersRef.current.clear();
+        releaseServerMatch();
         channelRef.current?.track({ peerId: myPeerId, status: 'paired', timestamp: Date.now(), profile: userProfile });
       }
 
+      handshakeTimer = setTimeout(() => failHandshake('timed out'), KEY_HANDSHAKE_TIMEOUT_MS);
       if (userProfile) {
-         conn.send({ type: 'profile', payload: userProfile });
+         // The handshake: our profile with its identity key, plus this connection's key share
+         Promise.all([getIdentity(), secure.keyShare]).then(([identity, share]) => {
+            if (conn.open) conn.send({ type: 'profile', payload: { ...userProfile, publicKey: identity.publicKey }, keyShare: share.publicKey, version: PROTOCOL_VERSION });
+         }).catch(e => console.error("Could not start key exchange", e));
+      }
+    });
+
+    const toIncomingMessage = (payload: PeerData, fileData?: string): Message => {
+      const msgTimestamp = Date.now();
+      return {
+        id: payload.id || msgTimestamp.toString(),
+        text: payload.dataType === 'text' ? payload.payload : undefined,
+        fileData,
+        sender: 'stranger',
+        timestamp: msgTimestamp,
+        type: payload.dataType || 'text',
+        reactions: [],
+        replyTo: payload.replyTo,
+        senderProfile: !isMain ? directPeerProfilesRef.current.get(conn.peer) : undefined,
+        senderPeerId: conn.peer,
+        expiryDuration: payload.expiryDuration,
+        expiresAt: payload.expiryDuration ? msgTimestamp + payload.expiryDuration : undefined,
+        isVanish: payload.isVanish, // Sync vanish state
+      };
+    };
+
+    // Unknown types (from newer clients) are skipped quietly
+    const reportMalformed = () => console.warn("Dropped malformed data from", conn.peer);
+
+    conn.on('data', (data: unknown) => {
+      lastHeardRef.current.set(conn, Date.now());
+      if (isMain && mainConnRef.current === conn) setIsConnectionUnstable(false);
+
+      const payload = readFrame(data, reportMalformed);
+      if (!payload) return;
+
+      if (payload.type === 'encrypted') {
+        secure.incoming = secure.incoming.then(async () => {
+          const opened = await openPeerData(await secure.key, payload);
+          const inner = opened && readSealedFrame(opened, reportMalformed);
+          if (inner) handleData(inner);
+        }).catch(e => console.error("Could not handle encrypted data:", e));
+      } else {
+        handleData(payload);
       }
     });
 
-    conn.on('data', (data: any) => {
-      const payload = data as PeerData;
+    const handleData = (payload: PeerData) => {
+      // Nothing from a blocked user gets through, whichever connection they arrive on
+      const knownProfile = isMain ? null : directPeerProfilesRef.current.get(conn.peer);
+      if (isBlockedUid(knownProfile?.uid) || (payload.type === 'profile' && isBlockedUid(payload.payload?.uid))) {
+         dropPeerConnection(conn, isMain);
+         return;
+      }
       
+      if (payload.type === 'ping' || payload.type === 'pong') {
+        heartbeatConnsRef.current.add(conn);
+        if (payload.type === 'ping') conn.send({ type: 'pong', payload: payload.payload });
+        return;
+      }
+
       if (payload.type === 'message') {
-        const senderProfile = !isMain ? directPeerProfilesRef.current.get(conn.peer) : undefined;
-        const msgTimestamp = Date.now();
-        const expiresAt = payload.expiryDuration ? msgTimestamp + payload.expiryDuration : undefined;
-
-        const newMsg: Message = {
-          id: payload.id || Date.now().toString(),
-          text: payload.dataType === 'text' ? payload.payload : undefined,
-          fileData: payload.dataType !== 'text' ? payload.payload : undefined,
-          sender: 'stranger',
-          timestamp: msgTimestamp,
-          type: payload.dataType || 'text',
-          reactions: [],
-          replyTo: payload.replyTo,
-          senderProfile: senderProfile,
-          senderPeerId: conn.peer,
-          expiryDuration: payload.expiryDuration,
-          expiresAt: expiresAt,
-          isVanish: payload.isVanish, // Sync vanish state
-        };
+        // Older clients still send media inline as a data URL
+        const newMsg = toIncomingMessage(payload, payload.dataType !== 'text' ? payload.payload : undefined);
         
         if (isMain) {
           setMessages(prev => [...prev, newMsg]);
           if (payload.id) {
-            conn.send({ type: 'seen', messageId: payload.id });
+            sendSecure(conn, { type: 'seen', messageId: payload.id });
           }
         } else {
-          setIncomingDirectMessage({ peerId: conn.peer, message: newMsg });
+          pushDirectMessage({ peerId: conn.peer, message: newMsg });
+          // 'seen' follows once the chat is open (markDirectSeen)
+          if (payload.id) sendSecure(conn, { type: 'delivered', messageId: payload.id });
         }
       }
       
+      else if (payload.type === 'file_start') {
+         const id = payload.id;
+         const manifest = payload.payload;
+         if (!id) return;
+         if (!isAcceptableTransfer(payload.dataType, manifest) || incomingTransfersRef.current.has(id)) {
+            sendSecure(conn, { type: 'file_cancel', messageId: id });
+            return;
+         }
+         const message = toIncomingMessage(payload);
+         if (message.type === 'file') {
+            message.fileInfo = { name: sanitizeFileName(manifest.name!), size: manifest.size, mimeType: manifest.mimeType };
+         }
+         incomingTransfersRef.current.set(id, { conn, isMain, receiver: createTransferReceiver(manifest), message, reported: 0 });
+         setTransfers(prev => ({ ...prev, [id]: { peerId: conn.peer, direction: 'download', dataType: message.type, loaded: 0, total: manifest.size, status: 'active', startedAt: message.timestamp } }));
+         if (isMain) setMessages(prev => [...prev, message]); // Placeholder with progress until the file arrives
+      }
+
+      else if (payload.type === 'file_chunk') {
+         const id = payload.messageId;
+         const transfer = id ? incomingTransfersRef.current.get(id) : undefined;
+         if (!id || !transfer || transfer.conn !== conn) return;
+
+         if (!transfer.receiver.addChunk(payload.payload?.index, payload.payload?.data)) {
+            incomingTransfersRef.current.delete(id);
+            sendSecure(conn, { type: 'file_cancel', messageId: id });
+            updateTransfer(id, { status: 'failed' });
+            return;
+         }
+
+         const received = transfer.receiver.received();
+         if (transfer.receiver.isComplete()) {
+            completeIncomingTransfer(id, transfer);
+         } else if (received - transfer.reported >= transfer.receiver.manifest.size / 100) {
+            transfer.reported = received;
+            updateTransfer(id, { loaded: received });
+         }
+      }
+
+      else if (payload.type === 'file_cancel') {
+         const id = payload.messageId;
+         if (!id) return;
+         const incoming = incomingTransfersRef.current.get(id);
+         if (incoming?.conn === conn) {
+            incomingTransfersRef.current.delete(id);
+            updateTransfer(id, { status: 'cancelled' });
+         }
+         const outgoing = outgoingTransfersRef.current.get(id);
+         if (outgoing?.conn === conn) {
+            outgoing.controller.abort();
+         } else if (payload.payload === 'integrity') {
+            // Everything was sent but the receiver's copy didn't match
+            setTransfers(prev => prev[id]?.peerId === conn.peer ? { ...prev, [id]: { ...prev[id], status: 'failed' } } : prev);
+         }
+      }
+
       else if (payload.type === 'profile') {
          const profile = payload.payload as UserProfile;
+
+         // Both sides speak the lower version; only one exists so far, so there is nothing to switch on yet
+         if (negotiateVersion(payload.version) === null) {
+            if (isMain) setNotification(`${profile.username} is on an older version of the app, finding someone else...`);
+            dropPeerConnection(conn, isMain);
+            return;
+         }
+
+         // A resumed chat has to be with the same identity the first handshake proved
+         const resumedKey = isResume ? peerIdentityKeysRef.current.get(conn.peer) : undefined;
+         if (resumedKey && profile.publicKey !== resumedKey) {
+            failHandshake('identity key changed on resume');
+            return;
+         }
+
+         if (!secure.handshakeStarted && typeof profile?.publicKey === 'string' && typeof payload.keyShare === 'string') {
+            secure.handshakeStarted = true;
+            const theirKey = profile.publicKey;
+            const theirShare = payload.keyShare;
+            Promise.all([getIdentity(), secure.keyShare])
+              .then(([identity, share]) => deriveSessionKey(identity, share, theirKey, theirShare))
+              .then(key => {
+                 peerIdentityKeysRef.current.set(conn.peer, theirKey);
+                 secure.setKey(key);
+                 if (handshakeTimer) clearTimeout(handshakeTimer);
+              })
+              .catch(e => failHandshake(e instanceof Error ? e.message : String(e)));
+         }
          
-         if (isMain) {
+         if (isResume) {
+            setPartnerProfile(profile); // Same chat; no second "Connected with" message
+         } else if (isMain) {
             setPartnerProfile(profile);
             setMessages(prev => [
                ...prev, 
@@ -373,6 +1000,14 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
                }
             ]);
 
+            const sharedText = formatSharedInterests(getSharedInterests(userProfile?.interests, profile.interests));
+            if (sharedText) {
+               setMessages(prev => [
+                  ...prev,
+                  { id: 'sys-interests-' + Date.now(), text: `${sharedText}.`, sender: 'system', timestamp: Date.now(), type: 'text' }
+               ]);
+            }
+
             // Save to Recent Peers immediately
             addToRecentPeers(profile, conn.peer);
 
@@ -383,7 +1018,8 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
       }
       
       else if (payload.type === 'profile_update') {
-          const updatedProfile = payload.payload as UserProfile;
+          // The session stays keyed to the identity from the handshake
+          const updatedProfile = { ...(payload.payload as UserProfile), publicKey: peerIdentityKeysRef.current.get(conn.peer) };
           if (isMain) {
               setPartnerProfile(updatedProfile);
               setNotification(`Stranger updated their profile to ${updatedProfile.username}`);
@@ -405,9 +1041,9 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
       }
       
       else if (payload.type === 'disconnect') {
-        if (isMain) {
-           conn.close();
+        if (isMain && mainConnRef.current === conn) {
            handleMainDisconnect('explicit');
+           conn.close();
         }
       }
 
@@ -438,44 +1074,98 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
       }
 
       else if (payload.type === 'friend_request') {
-         if (payload.payload?.username) {
+         // Keep the key this session was keyed with, not whatever the payload claims
+         const profile: UserProfile = { ...payload.payload, publicKey: peerIdentityKeysRef.current.get(conn.peer) };
+         if (profile.username && !isBlockedUid(profile.uid)) {
             setFriendRequests(prev => {
                const existing = prev.find(r => 
-                 (r.profile.uid && payload.payload.uid && r.profile.uid === payload.payload.uid) || 
+                 (r.profile.uid && profile.uid && r.profile.uid === profile.uid) || 
                  r.peerId === conn.peer
                );
                if (existing) return prev;
-               return [...prev, { peerId: conn.peer, profile: payload.payload }];
+               return [...prev, { peerId: conn.peer, profile }];
             });
          }
       }
 
       else if (payload.type === 'friend_accept') {
-         if (payload.payload?.username) {
+         const profile: UserProfile = { ...payload.payload, publicKey: peerIdentityKeysRef.current.get(conn.peer) };
+         // An accept nobody asked for would add its sender as a friend, so it has to answer our request
+         if (profile.username && !isBlockedUid(profile.uid) && takeSentFriendRequest(conn.peer, profile.uid)) {
             setFriends(prev => {
                const existing = prev.find(f => 
-                  (f.profile.uid && payload.payload.uid && f.profile.uid === payload.payload.uid) ||
+                  (f.profile.uid && profile.uid && f.profile.uid === profile.uid) ||
                   f.id === conn.peer
                );
                if (existing) return prev;
-               return [...prev, { id: conn.peer, profile: payload.payload, addedAt: Date.now(), lastSeen: Date.now() }];
+               return [...prev, { id: conn.peer, profile, addedAt: Date.now(), lastSeen: Date.now() }];
             });
             // Show notification
-            setNotification(`${payload.payload.username} accepted your friend request`);
+            setNotification(`${profile.username} accepted your friend request`);
          }
       }
       
-      else if (payload.type === 'seen') {
+      else if (payload.type === 'delivered' || payload.type === 'seen') {
+         const status = payload.type;
          if (isMain) {
-            setMessages(prev => prev.map(m => m.id === payload.messageId ? { ...m, status: 'seen' } : m));
+            setMessages(prev => prev.map(m => m.id === payload.messageId ? advanceStatus(m, status) : m));
+         } else {
+            updateDirectStatus(conversationIdFor(conn.peer, directPeerProfilesRef.current.get(conn.peer)), payload.messageId!, status);
          }
       }
-    });
+
+      else if (payload.type === 'call_request') {
+         if (callRef.current || (isMain && mainConnRef.current !== conn)) {
+            sendSecure(conn, { type: 'call_decline', id: payload.id, payload: 'busy' });
+            return;
+         }
+         const profile = isMain ? partnerProfileRef.current : directPeerProfilesRef.current.get(conn.peer);
+         callConnRef.current = conn;
+         updateCall({ id: payload.id!, peerId: conn.peer, profile: profile || undefined, direction: 'incoming', status: 'ringing', isMuted: false });
+         callRingTimeoutRef.current = setTimeout(() => declineCall(), CALL_RING_TIMEOUT_MS);
+      }
+
+      else if (payload.type === 'call_accept') {
+         const current = callRef.current;
+         if (!current || current.id !== payload.id || callConnRef.current !== conn || current.status !== 'ringing' || !localStreamRef.current) return;
+         if (callRingTimeoutRef.current) clearTimeout(callRingTimeoutRef.current);
+         updateCall({ ...current, status: 'connecting' });
+         const media = peerRef.current?.call(conn.peer, localStreamRef.current, { metadata: { callId: current.id } });
+         if (media) attachMediaConnection(media);
+         else endCall();
+      }
+
+      else if (payload.type === 'call_decline' || payload.type === 'call_end') {
+         const current = callRef.current;
+         if (!current || current.id !== payload.id || callConnRef.current !== conn) return;
+         const name = current.profile?.username || 'Stranger';
+         cleanupCall();
+         if (payload.type === 'call_end') setNotification('Call ended');
+         else setNotification(payload.payload === 'busy' ? `${name} is busy` : `${name} declined the call`);
+      }
+    };
 
     conn.on('close', () => {
+      if (handshakeTimer) clearTimeout(handshakeTimer);
+      if (!conn.open) failAttempt(conn, 'The other side closed the connection before it opened (they may already be in a chat)');
+
+      if (callConnRef.current === conn) {
+         cleanupCall();
+         setNotification('Call ended');
+      }
+
+      incomingTransfersRef.current.forEach((transfer, id) => {
+        if (transfer.conn !== conn) return;
+        incomingTransfersRef.current.delete(id);
+        updateTransfer(id, { status: 'failed' });
+      });
+
       if (isMain) {
+        if (mainConnRef.current !== conn) return; // Already replaced or torn down
         if (statusRef.current === ChatMode.CONNECTED) {
-          handleMainDisconnect('network');
+          beginResume('network');
+        } else if (statusRef.current === ChatMode.RECONNECTING) {
+          mainConnRef.current = null; // Failed resume attempt; the retry timer dials again
         } else if (statusRef.current === ChatMode.SEARCHING) {
            isMatchmakerRef.current = false;
            mainConnRef.current = null;
@@ -483,14 +1173,16 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
       } else {
          directConnsRef.current.delete(conn.peer);
          directPeerProfilesRef.current.delete(conn.peer);
-         setActiveDirectConnections(prev => { const n = new Set(prev); n.delete(conn.peer); return n; });
       }
     });
 
     conn.on('error', (err) => {
       console.error("Connection Error:", err);
+      failAttempt(conn);
       if (isMain) {
-        if (statusRef.current === ChatMode.CONNECTED) handleMainDisconnect('network');
+        if (mainConnRef.current !== conn) return;
+        if (statusRef.current === ChatMode.CONNECTED) beginResume('network');
+        else if (statusRef.current === ChatMode.RECONNECTING) mainConnRef.current = null;
         else {
            isMatchmakerRef.current = false; 
            mainConnRef.current = null;
@@ -499,7 +1191,476 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     });
   };
 
+  // --- CALLS ---
+  // Signalling (request/accept/decline/end) goes over the encrypted chat connection; the audio
+  // itself is a PeerJS media connection the caller opens once the other side accepts.
+  const updateCall = (next: CallState | null) => {
+    callRef.current = next;
+    setCall(next);
+  };
+
+  const cleanupCall = () => {
+    if (callRingTimeoutRef.current) clearTimeout(callRingTimeoutRef.current);
+    callRingTimeoutRef.current = null;
+    const media = mediaConnRef.current;
+    mediaConnRef.current = null;
+    media?.close();
+    localStreamRef.current?.getTracks().forEach(track => track.stop());
+    localStreamRef.current = null;
+    callConnRef.current = null;
+    updateCall(null);
+    setRemoteStream(null);
+  };
+
+  const attachMediaConnection = (media: MediaConnection) => {
+    mediaConnRef.current = media;
+    media.on('stream', stream => {
+      setRemoteStream(stream);
+      if (callRef.current) updateCall({ ...callRef.current, status: 'active', startedAt: Date.now() });
+    });
+    const hangUp = () => {
+      if (mediaConnRef.current === media) endCall();
+    };
+    media.on('close', hangUp);
+    media.on('error', hangUp);
+  };
+
+  const getMicrophone = async () => {
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (e) {
+      console.error("Microphone unavailable", e);
+      setNotification("Allow microphone access to make calls");
+      return null;
+    }
+  };
+
+  // Calls the random partner, or a friend with an open direct connection
+  const startCall = async (peerId?: string) => {
+    if (callRef.current || isAiSessionRef.current) return;
+    const conn = peerId ? directConnsRef.current.get(peerId) : mainConnRef.current;
+    if (!conn?.open) return;
+
+    const stream = await getMicrophone();
+    if (!stream) return;
+    if (callRef.current || !conn.open) {
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+
+    const id = crypto.randomUUID();
+    const profile = peerId ? directPeerProfilesRef.current.get(peerId) : partnerProfileRef.current;
+    localStreamRef.current = stream;
+    callConnRef.current = conn;
+    updateCall({ id, peerId: conn.peer, profile: profile || undefined, direction: 'outgoing', status: 'ringing', isMuted: false });
+    sendSecure(conn, { type: 'call_request', id });
+    callRingTimeoutRef.current = setTimeout(() => {
+      endCall();
+      setNotification('No answer');
+    }, CALL_RING_TIMEOUT_MS);
+  };
+
+  const acceptCall = async () => {
+    const current = callRef.current;
+    if (!current || current.direction !== 'incoming' || current.status !== 'ringing') return;
+    if (callRingTimeoutRef.current) clearTimeout(callRingTimeoutRef.current);
+
+    const stream = await getMicrophone();
+    const conn = callConnRef.current;
+    if (!stream || callRef.current?.id !== current.id || !conn?.open) {
+      stream?.getTracks().forEach(track => track.stop());
+      if (callRef.current?.id === current.id) declineCall();
+      return;
+    }
+    localStreamRef.current = stream;
+    updateCall({ ...current, status: 'connecting' });
+    sendSecure(conn, { type: 'call_accept', id: current.id });
+  };
+
+  const declineCall = () => {
+    const current = callRef.current;
+    if (!current) return;
+    const conn = callConnRef.current;
+    if (conn?.open) sendSecure(conn, { type: 'call_decline', id: current.id });
+    cleanupCall();
+  };
+
+  const endCall = () => {
+    const current = callRef.current;
+    if (!current) return;
+    const conn = callConnRef.current;
+    if (conn?.open) sendSecure(conn, { type: 'call_end', id: current.id });
+    cleanupCall();
+  };
+
+  const toggleMute = () => {
+    const current = callRef.current;
+    if (!current) return;
+    const isMuted = !current.isMuted;
+    localStreamRef.current?.getAudioTracks().forEach(track => { track.enabled = !isMuted; });
+    updateCall({ ...current, isMuted });
+  };
+
+  // --- VIDEO MODE ---
+  // Random chats matched in video mode stream camera and microphone over a media connection
+  // dialled by the peer with the smaller ID. Text keeps flowing over the DataConnection.
+  const isVideoActive = !!matchPreferences?.videoMode && !isAiSession && (status === ChatMode.CONNECTED || status === ChatMode.RECONNECTING);
+
+  const attachVideoMedia = (media: MediaConnection) => {
+    videoMediaRef.current = media;
+    media.on('stream', stream => setRemoteVideoStream(stream));
+    const onClosed = () => {
+      if (videoMediaRef.current !== media) return;
+      videoMediaRef.current = null;
+      setRemoteVideoStream(null);
+    };
+    media.on('close', onClosed);
+    media.on('error', onClosed);
+  };
+
+  const answerVideo = (media: MediaConnection, stream: MediaStream) => {
+    videoMediaRef.current?.close();
+    media.answer(stream);
+    attachVideoMedia(media);
+  };
+
+  const handleIncomingVideo = (media: MediaConnection) => {
+    if (!matchPreferencesRef.current?.videoMode || mainConnRef.current?.peer !== media.peer) {
+      media.close();
+      return;
+    }
+    if (outgoingVideoRef.current) {
+      answerVideo(media, outgoingVideoRef.current);
+    } else {
+      pendingVideoCallRef.current?.close();
+      pendingVideoCallRef.current = media;
+    }
+  };
+
+  const stopVideo = () => {
+    pendingVideoCallRef.current?.close();
+    pendingVideoCallRef.current = null;
+    const media = videoMediaRef.current;
+    videoMediaRef.current = null;
+    media?.close();
+    blurRef.current?.stop();
+    blurRef.current = null;
+    cameraStreamRef.current?.getTracks().forEach(track => track.stop());
+    cameraStreamRef.current = null;
+    outgoingVideoRef.current = null;
+    setLocalVideoStream(null);
+    setRemoteVideoStream(null);
+    setIsVideoBlurred(false);
+  };
+
+  useEffect(() => {
+    if (!isVideoActive) {
+      if (cameraStreamRef.current || videoMediaRef.current || pendingVideoCallRef.current) stopVideo();
+      return;
+    }
+    if (cameraStreamRef.current) return;
+
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: facingModeRef.current }, audio: true }).then(stream => {
+      if (cancelled) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      cameraStreamRef.current = stream;
+      const outgoing = new MediaStream(stream.getTracks());
+      outgoingVideoRef.current = outgoing;
+      setLocalVideoStream(outgoing);
+      navigator.mediaDevices.enumerateDevices()
+        .then(devices => setCanSwitchCamera(devices.filter(d => d.kind === 'videoinput').length > 1))
+        .catch(() => {});
+
+      const pending = pendingVideoCallRef.current;
+      pendingVideoCallRef.current = null;
+      if (pending && pending.peer === mainConnRef.current?.peer) answerVideo(pending, outgoing);
+      else pending?.close();
+    }).catch(e => {
+      console.error("Camera unavailable", e);
+      if (!cancelled) setNotification("Allow camera access to use video chat");
+    });
+    return () => { cancelled = true; };
+  }, [isVideoActive]);
+
+  useEffect(() => {
+    if (status !== ChatMode.CONNECTED || !localVideoStream || !partnerPeerId || !myPeerId || videoMediaRef.current) return;
+    if (myPeerId > partnerPeerId) return; // They dial us
+    const media = peerRef.current?.call(partnerPeerId, localVideoStream, { metadata: { type: 'video' } });
+    if (media) attachVideoMedia(media);
+  }, [status, localVideoStream, partnerPeerId, myPeerId]);
+
+  // Swaps the video the partner receives without renegotiating
+  const replaceOutgoingVideo = (track: MediaStreamTrack) => {
+    const outgoing = outgoingVideoRef.current;
+    if (!outgoing) return;
+    outgoing.getVideoTracks().forEach(old => outgoing.removeTrack(old));
+    outgoing.addTrack(track);
+    const sender = videoMediaRef.current?.peerConnection?.getSenders().find(s => s.track?.kind === 'video');
+    sender?.replaceTrack(track).catch(e => console.error("Could not replace video track", e));
+    setLocalVideoStream(new MediaStream(outgoing.getTracks())); // New object so the preview re-renders
+  };
+
+  const toggleVideoBlur = () => {
+    const cameraTrack = cameraStreamRef.current?.getVideoTracks()[0];
+    if (!cameraTrack) return;
+    if (blurRef.current) {
+      replaceOutgoingVideo(cameraTrack);
+      blurRef.current.stop();
+      blurRef.current = null;
+      setIsVideoBlurred(false);
+    } else {
+      blurRef.current = createBlurredTrack(cameraTrack);
+      replaceOutgoingVideo(blurRef.current.track);
+      setIsVideoBlurred(true);
+    }
+  };
+
+  const switchCamera = async () => {
+    const camera = cameraStreamRef.current;
+    if (!camera) return;
+    const facingMode = facingModeRef.current === 'user' ? 'environment' : 'user';
+    try {
+      const [track] = (await navigator.mediaDevices.getUserMedia({ video: { facingMode } })).getVideoTracks();
+      if (cameraStreamRef.current !== camera) {
+        track.stop();
+        return;
+      }
+      facingModeRef.current = facingMode;
+      camera.getVideoTracks().forEach(old => { camera.removeTrack(old); old.stop(); });
+      camera.addTrack(track);
+      if (blurRef.current) {
+        blurRef.current.stop();
+        blurRef.current = createBlurredTrack(track);
+        replaceOutgoingVideo(blurRef.current.track);
+      } else {
+        replaceOutgoingVideo(track);
+      }
+    } catch (e) {
+      console.error("Could not switch camera", e);
+    }
+  };
+
+  // --- CONNECTION DIAGNOSTICS ---
+  const updateIceConfig = (next: IceConfig) => {
+    iceConfigRef.current = next;
+    setIceConfig(next);
+  };
+
+  const addAttempt = (attempt: ConnectionAttempt) => {
+    setConnectionAttempts(prev => [attempt, ...prev.filter(a => a.id !== attempt.id)].slice(0, MAX_CONNECTION_ATTEMPTS));
+  };
+
+  // Only attempts still connecting can settle, so the first outcome recorded wins
+  const settleAttempt = (id: string, patch: Partial<ConnectionAttempt>) => {
+    setConnectionAttempts(prev => prev.map(a => a.id === id && a.status === 'connecting' ? { ...a, ...patch } : a));
+  };
+
+  const trackAttempt = (conn: DataConnection, kind: ConnectionAttempt['kind']) => {
+    addAttempt({ id: conn.connectionId, peerId: conn.peer, kind, startedAt: Date.now(), status: 'connecting' });
+  };
+
+  const markAttemptOpen = (conn: DataConnection) => {
+    settleAttempt(conn.connectionId, { status: 'connected', openedAt: Date.now() });
+    getSelectedRoute(conn.peerConnection).then(route => {
+      if (route) setConnectionAttempts(prev => prev.map(a => a.id === conn.connectionId ? { ...a, route } : a));
+    });
+  };
+
+  const failAttempt = async (conn: DataConnection, reason?: string) => {
+    const failure = reason || await describeConnectFailure(conn.peerConnection, !!iceConfigRef.current?.hasTurn);
+    settleAttempt(conn.connectionId, { status: 'failed', failure });
+  };
+
+  // PeerJS reports unreachable peers on the Peer, naming them only in the error message
+  const failAttemptsTo = (errorMessage: string, failure: string) => {
+    setConnectionAttempts(prev => prev.map(a => a.status === 'connecting' && errorMessage.includes(a.peerId) ? { ...a, status: 'failed', failure } : a));
+  };
+
+  // The server paired us but the partner never dialled in, so there is no connection to inspect
+  const recordMissedMatch = (peerId: string) => {
+    addAttempt({ id: `missed-${peerId}-${Date.now()}`, peerId, kind: 'random', startedAt: Date.now(), status: 'failed', failure: 'Your match never connected to you; the problem was probably on their side' });
+  };
+
+  // --- ENCRYPTION ---
+  // Private PeerData is queued until the connection's handshake completes, then sealed and sent
+  // in order. The returned promise settles once this message has been handed to the channel.
+  const sendSecure = (conn: DataConnection, data: PeerData): Promise<void> => {
+    if (CLEARTEXT_TYPES.has(data.type)) {
+      if (conn.open) conn.send(data);
+      return Promise.resolve();
+    }
+    const secure = secureSessionsRef.current.get(conn);
+    if (!secure) return Promise.resolve(); // Temporary connections only carry cleartext types
+
+    secure.outgoing = secure.outgoing.then(async () => {
+      const sealed = await sealPeerData(await secure.key, data);
+      if (conn.open) conn.send(sealed);
+    }).catch(e => console.error("Could not encrypt data:", e));
+    return secure.outgoing;
+  };
+
+  const getPeerIdentityKey = (peerId: string) => peerIdentityKeysRef.current.get(peerId);
+
+  // --- FILE TRANSFERS ---
+  const updateTransfer = (messageId: string, patch: Partial<TransferState>) => {
+    setTransfers(prev => prev[messageId] ? { ...prev, [messageId]: { ...prev[messageId], ...patch } } : prev);
+  };
+
+  // Sends an image, voice note or file as binary chunks. The sender already shows the message;
+  // its transfer entry tracks progress until the last chunk is handed to the channel.
+  const startTransfer = async (
+    conn: DataConnection,
+    id: string,
+    fileData: string,
+    dataType: MessageType,
+    extras: Pick<PeerData, 'replyTo' | 'expiryDuration' | 'isVanish'> = {},
+    fileName?: string
+  ) => {
+    const controller = new AbortController();
+    outgoingTransfersRef.current.set(id, { conn, controller });
+    setTransfers(prev => ({ ...prev, [id]: { peerId: conn.peer, direction: 'upload', dataType, loaded: 0, total: 0, status: 'active', startedAt: Date.now() } }));
+
+    try {
+      const { manifest, buffer } = await createManifest(await dataUrlToBlob(fileData), fileName);
+      if (manifest.size > TRANSFER_MAX_BYTES) {
+        setNotification(`Files can be at most ${Math.round(TRANSFER_MAX_BYTES / (1024 * 1024))} MB`);
+        updateTransfer(id, { total: manifest.size, status: 'failed' });
+        return;
+      }
+      updateTransfer(id, { total: manifest.size });
+      if (controller.signal.aborted || !conn.open) throw new Error('Transfer stopped before it started');
+
+      sendSecure(conn, { type: 'file_start', id, dataType, payload: manifest, ...extras });
+      await sendChunks(conn, data => sendSecure(conn, data), id, manifest, buffer, loaded => updateTransfer(id, { loaded }), controller.signal);
+      updateTransfer(id, { loaded: manifest.size, status: 'done' });
+    } catch (e) {
+      const cancelled = controller.signal.aborted;
+      if (cancelled && conn.open) sendSecure(conn, { type: 'file_cancel', messageId: id });
+      updateTransfer(id, { status: cancelled ? 'cancelled' : 'failed' });
+    } finally {
+      outgoingTransfersRef.current.delete(id);
+    }
+  };
+
+  const completeIncomingTransfer = async (id: string, transfer: IncomingTransfer) => {
+    incomingTransfersRef.current.delete(id);
+    const { conn, isMain, receiver, message } = transfer;
+
+    const blob = await receiver.assemble();
+    if (!blob) {
+      if (conn.open) sendSecure(conn, { type: 'file_cancel', messageId: id, payload: 'integrity' });
+      updateTransfer(id, { status: 'failed' });
+      return;
+    }
+
+    // Stored as a data URL so rendering and saved history work as before
+    const fileData = await blobToDataUrl(blob);
+    const arrivedAt = Date.now();
+    const complete: Message = { ...message, fileData, expiresAt: message.expiryDuration ? arrivedAt + message.expiryDuration : undefined };
+    updateTransfer(id, { loaded: receiver.manifest.size, status: 'done' });
+
+    if (isMain) {
+      setMessages(prev => prev.map(m => m.id === id ? complete : m));
+      if (conn.open) sendSecure(conn, { type: 'seen', messageId: id });
+    } else {
+      pushDirectMessage({ peerId: conn.peer, message: complete });
+      if (conn.open) sendSecure(conn, { type: 'delivered', messageId: id });
+    }
+  };
+
+  const cancelTransfer = (messageId: string) => {
+    outgoingTransfersRef.current.get(messageId)?.controller.abort();
+
+    const incoming = incomingTransfersRef.current.get(messageId);
+    if (incoming) {
+      incomingTransfersRef.current.delete(messageId);
+      if (incoming.conn.open) sendSecure(incoming.conn, { type: 'file_cancel', messageId });
+      updateTransfer(messageId, { status: 'cancelled' });
+    }
+  };
+
+  // --- SESSION RESUME ---
+  // A network blip closes the DataConnection, but both tabs keep their peer IDs. During a grace
+  // period the chat stays on screen while the peer with the smaller ID redials with the session
+  // token; the other side accepts that 'resume' connection as the same chat.
+  const beginResume = (failReason: string) => {
+    const session = sessionRef.current;
+    const myId = myPeerIdRef.current;
+    if (!session || !myId || resumeTimersRef.current) {
+      handleMainDisconnect(failReason);
+      return;
+    }
+
+    mainConnRef.current = null;
+    statusRef.current = ChatMode.RECONNECTING;
+    setStatus(ChatMode.RECONNECTING);
+    setPartnerTyping(false);
+    setPartnerRecording(false);
+    setIsConnectionUnstable(false);
+
+    const dial = () => {
+      if (statusRef.current !== ChatMode.RECONNECTING || !peerRef.current || peerRef.current.disconnected) return;
+      mainConnRef.current?.close(); // Drop an attempt that never opened
+      mainConnRef.current = null;
+      const metadata: ConnectionMetadata = { type: 'resume', sessionToken: session.token };
+      setupConnection(peerRef.current.connect(session.peerId, { reliable: true, metadata }), metadata);
+    };
+
+    const isDialer = myId < session.peerId;
+    if (isDialer) dial();
+    resumeTimersRef.current = {
+      retry: isDialer ? setInterval(dial, RESUME_RETRY_MS) : null,
+      timeout: setTimeout(() => {
+        console.log("Could not resume chat");
+        const pending = mainConnRef.current;
+        handleMainDisconnect(failReason);
+        pending?.close();
+      }, RESUME_GRACE_MS)
+    };
+  };
+
+  const clearResume = () => {
+    const timers = resumeTimersRef.current;
+    if (!timers) return;
+    if (timers.retry) clearInterval(timers.retry);
+    clearTimeout(timers.timeout);
+    resumeTimersRef.current = null;
+  };
+
+  // Closes a connection from a blocked user or an outdated client. A random match quietly goes back to searching.
+  const dropPeerConnection = (conn: DataConnection, isMain: boolean) => {
+    if (isMain && mainConnRef.current === conn) {
+      failedPeersRef.current.add(conn.peer);
+      statusRef.current = ChatMode.SEARCHING; // So the close handler doesn't treat this as a dropped chat
+      if (conn.open) conn.send({ type: 'disconnect' });
+      mainConnRef.current = null;
+      conn.close();
+      setPartnerPeerId(null);
+      setPartnerProfile(null);
+      connect();
+      return;
+    }
+    conn.close();
+  };
+
   const handleMainDisconnect = (reason: string) => {
+    if (callConnRef.current && callConnRef.current === mainConnRef.current) cleanupCall();
+    clearResume();
+    if (resumeQueueRef.current.length > 0) {
+      resumeQueueRef.current = [];
+      setNotification("The chat couldn't reconnect, so your last messages weren't delivered");
+    }
+    sessionRef.current = null;
+    aiAbortRef.current?.abort();
+    aiAbortRef.current = null;
+    isAiSessionRef.current = false;
+    aiPersonaRef.current = null;
+    setIsAiSession(false);
+    setPartnerTyping(false);
+    setIsConnectionUnstable(false);
     setDisconnectReason(reason);
     setStatus(ChatMode.DISCONNECTED);
     setPartnerProfile(null);
@@ -508,6 +1669,7 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     setMessages([]); // Clear history immediately on disconnect
     mainConnRef.current = null;
     isMatchmakerRef.current = false;
+    releaseServerMatch();
     
     channelRef.current?.track({ peerId: myPeerId, status: 'idle', timestamp: Date.now(), profile: userProfile });
   };
@@ -516,30 +1678,51 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
 
   const connect = async () => {
     if (!myPeerId) return;
+    searchStartedAtRef.current = Date.now();
+    serverMatchingRef.current = 'unknown';
+    expectedPartnerRef.current = null;
     setStatus(ChatMode.SEARCHING);
     setMessages([]);
     setError(null);
     setDisconnectReason(null);
     setPartnerProfile(null);
     
-    await channelRef.current?.track({ peerId: myPeerId, status: 'waiting', timestamp: Date.now(), profile: userProfile });
+    await channelRef.current?.track({ peerId: myPeerId, status: 'waiting', timestamp: searchStartedAtRef.current, profile: userProfile, preferences: matchPreferences });
   };
 
   const disconnect = () => {
-    if (mainConnRef.current) {
-      mainConnRef.current.send({ type: 'disconnect' });
-      mainConnRef.current.close();
+    const conn = mainConnRef.current;
+    mainConnRef.current = null; // Detach first so its close handler doesn't try to resume
+    if (conn) {
+      if (conn.open) conn.send({ type: 'disconnect' });
+      conn.close();
     }
     handleMainDisconnect('local_network');
     setStatus(ChatMode.IDLE);
   };
 
+  // While a dropped chat is resuming there is no open connection; sends wait for the resumed one
+  const sendToPartner = (send: (conn: DataConnection) => void) => {
+    if (statusRef.current === ChatMode.RECONNECTING) resumeQueueRef.current.push(send);
+    else if (mainConnRef.current?.open) send(mainConnRef.current);
+  };
+
+  // The peer's parsePeerData drops longer text, so it would never arrive
+  const isTooLong = (text: string) => {
+    if (text.length <= MESSAGE_MAX_LENGTH) return false;
+    setNotification(`Messages can be at most ${MESSAGE_MAX_LENGTH} characters`);
+    return true;
+  };
+
   const sendMessage = (text: string, replyTo?: ReplyInfo, isVanish?: boolean) => {
+    if (isTooLong(text)) return;
     const id = Date.now().toString();
     const msg: Message = { id, text, sender: 'me', timestamp: Date.now(), type: 'text', reactions: [], status: 'sent', replyTo, isVanish };
     setMessages(prev => [...prev, msg]);
-    if (mainConnRef.current?.open) {
-      mainConnRef.current.send({ type: 'message', payload: text, dataType: 'text', id, replyTo, isVanish });
+    if (isAiSessionRef.current) {
+      requestAiReply([...messagesRef.current, msg]);
+    } else {
+      sendToPartner(conn => sendSecure(conn, { type: 'message', payload: text, dataType: 'text', id, replyTo, isVanish }));
     }
   };
 
@@ -548,8 +1731,10 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     const expiresAt = expiryDuration ? Date.now() + expiryDuration : undefined;
     const msg: Message = { id, fileData: base64, sender: 'me', timestamp: Date.now(), type: 'image', reactions: [], status: 'sent', expiryDuration, expiresAt, isVanish };
     setMessages(prev => [...prev, msg]);
-    if (mainConnRef.current?.open) {
-      mainConnRef.current.send({ type: 'message', payload: base64, dataType: 'image', id, expiryDuration, isVanish });
+    if (isAiSessionRef.current) {
+      requestAiReply([...messagesRef.current, msg]);
+    } else {
+      sendToPartner(conn => startTransfer(conn, id, base64, 'image', { expiryDuration, isVanish }));
     }
   };
   
@@ -557,50 +1742,78 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
     const id = Date.now().toString();
     const msg: Message = { id, fileData: base64, sender: 'me', timestamp: Date.now(), type: 'audio', reactions: [], status: 'sent', isVanish };
     setMessages(prev => [...prev, msg]);
-    if (mainConnRef.current?.open) {
-      mainConnRef.current.send({ type: 'message', payload: base64, dataType: 'audio', id, isVanish });
+    if (isAiSessionRef.current) {
+      requestAiReply([...messagesRef.current, msg]);
+    } else {
+      sendToPartner(conn => startTransfer(conn, id, base64, 'audio', { isVanish }));
+    }
+  };
+
+  const sendFile = (fileData: string, fileInfo: FileInfo, isVanish?: boolean) => {
+    const id = Date.now().toString();
+    const msg: Message = { id, fileData, fileInfo, sender: 'me', timestamp: Date.now(), type: 'file', reactions: [], status: 'sent', isVanish };
+    setMessages(prev => [...prev, msg]);
+    if (isAiSessionRef.current) {
+      requestAiReply([...messagesRef.current, msg]);
+    } else {
+      sendToPartner(conn => startTransfer(conn, id, fileData, 'file', { isVanish }, fileInfo.name));
     }
   };
 
   const sendReaction = (messageId: string, emoji: string) => {
      setMessages(prev => prev.map(m => m.id === messageId ? { ...m, reactions: [...(m.reactions || []), { emoji, sender: 'me' }] } : m));
-     if (mainConnRef.current?.open) {
-        mainConnRef.current.send({ type: 'reaction', messageId, payload: emoji });
-     }
+     sendToPartner(conn => sendSecure(conn, { type: 'reaction', messageId, payload: emoji }));
   };
 
   const editMessage = (id: string, text: string) => {
+     if (isTooLong(text)) return;
      setMessages(prev => prev.map(m => m.id === id ? { ...m, text, isEdited: true } : m));
-     if (mainConnRef.current?.open) {
-        mainConnRef.current.send({ type: 'edit_message', messageId: id, payload: text });
-     }
+     sendToPartner(conn => sendSecure(conn, { type: 'edit_message', messageId: id, payload: text }));
   };
 
   const sendTyping = (isTyping: boolean) => {
-    if (mainConnRef.current?.open) mainConnRef.current.send({ type: 'typing', payload: isTyping });
+    if (mainConnRef.current?.open) sendSecure(mainConnRef.current, { type: 'typing', payload: isTyping });
   };
   
   const sendRecording = (isRec: boolean) => {
-    if (mainConnRef.current?.open) mainConnRef.current.send({ type: 'recording', payload: isRec });
+    if (mainConnRef.current?.open) sendSecure(mainConnRef.current, { type: 'recording', payload: isRec });
   };
 
   const updateMyProfile = (newProfile: UserProfile) => {
      // 1. Update Supabase Presence
-     channelRef.current?.track({ peerId: myPeerId, status: status === ChatMode.SEARCHING ? 'waiting' : 'idle', timestamp: Date.now(), profile: newProfile });
+     if (status === ChatMode.SEARCHING) {
+        channelRef.current?.track({ peerId: myPeerId, status: 'waiting', timestamp: searchStartedAtRef.current, profile: newProfile, preferences: matchPreferences });
+     } else {
+        channelRef.current?.track({ peerId: myPeerId, status: 'idle', timestamp: Date.now(), profile: newProfile });
+     }
      
      // 2. Broadcast to active connection
-     if (mainConnRef.current?.open) {
-         mainConnRef.current.send({ type: 'profile_update', payload: newProfile });
-     }
+     sendToPartner(conn => sendSecure(conn, { type: 'profile_update', payload: withIdentityKey(newProfile) }));
      
      // 3. (Optional) Broadcast to direct connections could go here if needed
   };
 
   const sendVanishMode = (enabled: boolean) => {
-     if (mainConnRef.current?.open) mainConnRef.current.send({ type: 'vanish_mode', payload: enabled });
+     sendToPartner(conn => sendSecure(conn, { type: 'vanish_mode', payload: enabled }));
   };
 
   // --- FRIEND ACTIONS ---
+
+  // The accept may come from the same session (peer ID) or a later one (the same uid)
+  const recordSentFriendRequest = (peerId: string, uid?: string) => {
+     const others = loadSentFriendRequests().filter(r => r.peerId !== peerId && (!uid || r.uid !== uid));
+     sentFriendRequestsRef.current = [...others, { peerId, uid, sentAt: Date.now() }];
+     saveSentFriendRequests(sentFriendRequestsRef.current);
+  };
+
+  const takeSentFriendRequest = (peerId: string, uid?: string) => {
+     const pending = loadSentFriendRequests();
+     const match = pending.find(r => r.peerId === peerId || (!!uid && r.uid === uid));
+     if (!match) return false;
+     sentFriendRequestsRef.current = pending.filter(r => r !== match);
+     saveSentFriendRequests(sentFriendRequestsRef.current);
+     return true;
+  };
   
   const sendFriendRequest = () => {
      if (partnerProfile) {
@@ -615,7 +1828,8 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
      }
   
      if (mainConnRef.current?.open && userProfile) {
-        mainConnRef.current.send({ type: 'friend_request', payload: userProfile });
+        recordSentFriendRequest(mainConnRef.current.peer, partnerProfile?.uid);
+        sendSecure(mainConnRef.current, { type: 'friend_request', payload: withIdentityKey(userProfile) });
         setNotification("Friend request sent");
      }
   };
@@ -635,27 +1849,20 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
         return;
      }
      
-     const conn = directConnsRef.current.get(peerId);
-     if (conn?.open && userProfile) {
-        conn.send({ type: 'friend_request', payload: userProfile });
-        setNotification("Friend request sent");
-     } else if (peerRef.current) {
-        const temp = peerRef.current.connect(peerId, { metadata: { type: 'direct' }});
-        
+     if (!userProfile) return;
+     recordSentFriendRequest(peerId, targetUid || directPeerProfilesRef.current.get(peerId)?.uid);
+     const existing = directConnsRef.current.get(peerId);
+     const conn = existing || connectDirect(peerId);
+     if (!conn) return;
+     if (!existing) {
         // Optimistic feedback
         setNotification("Sending friend request...");
-        
-        temp.on('open', () => {
-           temp.send({ type: 'profile', payload: userProfile });
-           temp.send({ type: 'friend_request', payload: userProfile });
-           setNotification("Friend request sent");
-           setTimeout(() => temp.close(), 2000); 
-        });
-        
-        temp.on('error', () => {
-            setNotification("Failed to send request. User might be offline.");
-        });
+        conn.on('error', () => setNotification("Failed to send request. User might be offline."));
      }
+     // Goes out once the connection's handshake is done
+     sendSecure(conn, { type: 'friend_request', payload: withIdentityKey(userProfile) }).then(() => {
+        if (conn.open) setNotification("Friend request sent");
+     });
   };
 
   const acceptFriendRequest = (request: FriendRequest) => {
@@ -670,30 +1877,11 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
      setFriendRequests(prev => prev.filter(r => r.peerId !== request.peerId));
      
      // Notify the other user that we accepted
-     const conn = mainConnRef.current?.peer === request.peerId ? mainConnRef.current : directConnsRef.current.get(request.peerId);
-     if (conn?.open && userProfile) {
-        conn.send({ type: 'friend_accept', payload: userProfile });
-     } else if (peerRef.current) {
-         // Connect temporarily to send the accept message
-         try {
-             const temp = peerRef.current.connect(request.peerId, { metadata: { type: 'direct' }});
-             temp.on('open', () => {
-                temp.send({ type: 'profile', payload: userProfile });
-                temp.send({ type: 'friend_accept', payload: userProfile });
-                setTimeout(() => temp.close(), 2000); 
-             });
-         } catch(e) {
-             console.error("Could not send accept notification", e);
-         }
+     const conn = (mainConnRef.current?.peer === request.peerId ? mainConnRef.current : directConnsRef.current.get(request.peerId)) || connectDirect(request.peerId);
+     if (conn && userProfile) {
+        sendSecure(conn, { type: 'friend_accept', payload: withIdentityKey(userProfile) });
      }
      
-     // Save to local storage
-     setTimeout(() => {
-        const current = JSON.parse(localStorage.getItem('chat_friends') || '[]');
-        const updated = [...current, { id: request.peerId, profile: request.profile, addedAt: Date.now(), lastSeen: Date.now() }];
-        localStorage.setItem('chat_friends', JSON.stringify(updated));
-     }, 0);
-     
      // Notify self
      setNotification(`You are now friends with ${request.profile.username}`);
   };
@@ -704,60 +1892,186 @@ export const useHumanChat = (userProfile: UserProfile | null, persistentId?: str
   
   const removeFriend = (peerId: string) => {
      setFriends(prev => prev.filter(f => f.id !== peerId));
-     const current = JSON.parse(localStorage.getItem('chat_friends') || '[]');
-     const updated = current.filter((f: Friend) => f.id !== peerId);
-     localStorage.setItem('chat_friends', JSON.stringify(updated));
+  };
+
+  // Friends from a backup archive; existing and blocked ones are skipped
+  const importFriends = (incoming: Friend[]) => {
+     setFriends(prev => mergeFriends(prev, incoming.filter(f => !isBlockedUid(f.profile.uid))));
+  };
+
+  // --- SAFETY ACTIONS ---
+
+  const blockUser = (profile: UserProfile) => {
+     if (!profile.uid) return;
+     const uid = profile.uid;
+     const entry: BlockedUser = { uid, username: profile.username, blockedAt: Date.now() };
+     blockedUidsRef.current.add(uid);
+     setBlockedUsers(prev => {
+        const updated = [...prev.filter(b => b.uid !== uid), entry];
+        localStorage.setItem('chat_blocked_users', JSON.stringify(updated));
+        return updated;
+     });
+
+     // Blocking also unfriends and discards pending requests
+     const friend = friends.find(f => f.profile.uid === uid);
+     if (friend) removeFriend(friend.id);
+     setFriendRequests(prev => prev.filter(r => r.profile.uid !== uid));
+
+     directConnsRef.current.forEach((conn, peerId) => {
+        if (directPeerProfilesRef.current.get(peerId)?.uid === uid) conn.close();
+     });
+
+     const main = mainConnRef.current;
+     if (partnerProfile?.uid === uid && main) {
+        if (main.open) main.send({ type: 'disconnect' });
+        handleMainDisconnect('blocked'); // Detaches the connection before it closes
+        main.close();
+     }
+
+     setNotification(`${profile.username} is blocked`);
+  };
+
+  const unblockUser = (uid: string) => {
+     blockedUidsRef.current.delete(uid);
+     setBlockedUsers(prev => {
+        const updated = prev.filter(b => b.uid !== uid);
+        localStorage.setItem('chat_blocked_users', JSON.stringify(updated));
+        return updated;
+     });
+  };
+
+  const reportUser = async (profile: UserProfile, context: ReportContext, reason: string, details: string, recentMessages: Message[]) => {
+     const reporterId = userProfileRef.current?.uid;
+     if (!profile.uid || !reporterId) return false;
+     const { error } = await submitReport({
+        reporterId,
+        reported: profile,
+        context,
+        reason,
+        details: details.trim().slice(0, 500),
+        excerpt: toReportExcerpt(recentMessages, profile.username, REPORT_EXCERPT_LENGTH)
+     });
+     setNotification(error ? "Could not send report. Try again." : "Report sent. Thanks for keeping Strangerstown safe.");
+     return !error;
   };
 
   // --- DIRECT CHAT ACTIONS ---
   
-  const callPeer = (peerId: string, profile?: UserProfile) => {
+  const connectDirect = (peerId: string): DataConnection | null => {
+     if (!peerRef.current) return null;
+     const conn = peerRef.current.connect(peerId, { metadata: { type: 'direct' } });
+     setupConnection(conn, { type: 'direct' });
+     return conn;
+  };
+
+  const callPeer = (peerId: string) => {
      if (directConnsRef.current.has(peerId) && directConnsRef.current.get(peerId)?.open) {
         return;
      }
-     if (peerRef.current) {
-        const conn = peerRef.current.connect(peerId, { metadata: { type: 'direct' } });
-        setupConnection(conn, { type: 'direct' });
-     }
+     connectDirect(peerId);
   };
   
   const sendDirectMessage = (peerId: string, text: string, id?: string, replyTo?: ReplyInfo) => {
+     if (isTooLong(text)) return;
      const conn = directConnsRef.current.get(peerId);
      if (conn?.open) {
-        conn.send({ type: 'message', payload: text, dataType: 'text', id, replyTo });
+        sendSecure(conn, { type: 'message', payload: text, dataType: 'text', id, replyTo });
+     } else {
+        sendToOfflineFriend(peerId, { id: id || Date.now().toString(), text, type: 'text', sender: 'me', timestamp: Date.now(), replyTo });
      }
   };
   
   const sendDirectImage = (peerId: string, base64: string, id?: string, expiryDuration?: number) => {
      const conn = directConnsRef.current.get(peerId);
-     if (conn?.open) conn.send({ type: 'message', payload: base64, dataType: 'image', id, expiryDuration });
+     if (conn?.open) startTransfer(conn, id || Date.now().toString(), base64, 'image', { expiryDuration });
+     else notifyMediaNeedsConnection(peerId);
   };
   
   const sendDirectAudio = (peerId: string, base64: string, id?: string) => {
      const conn = directConnsRef.current.get(peerId);
-     if (conn?.open) conn.send({ type: 'message', payload: base64, dataType: 'audio', id });
+     if (conn?.open) startTransfer(conn, id || Date.now().toString(), base64, 'audio');
+     else notifyMediaNeedsConnection(peerId);
+  };
+
+  const sendDirectFile = (peerId: string, fileData: string, fileInfo: FileInfo, id?: string) => {
+     const conn = directConnsRef.current.get(peerId);
+     if (conn?.open) startTransfer(conn, id || Date.now().toString(), fileData, 'file', {}, fileInfo.name);
+     else notifyMediaNeedsConnection(peerId);
+  };
+
+  // --- OFFLINE DELIVERY & RECEIPTS ---
+
+  const pushDirectMessage = (event: DirectMessageEvent) => {
+     setIncomingDirectMessages(prev => [...prev, event].slice(-DIRECT_MESSAGE_QUEUE_LIMIT));
+  };
+
+  const findFriendProfile = (peerId: string) =>
+     directPeerProfilesRef.current.get(peerId) || friendsRef.current.find(f => f.id === peerId)?.profile;
+
+  // Text for a friend who isn't connected goes through the server, sealed to their identity key
+  const sendToOfflineFriend = (peerId: string, message: Message) => {
+     const profile = findFriendProfile(peerId);
+     const recipientKey = getPeerIdentityKey(peerId) || profile?.publicKey;
+     const myUid = userProfileRef.current?.uid;
+     if (!profile?.uid || !recipientKey || !myUid) {
+        setNotification("They are offline and can't receive messages yet");
+        return;
+     }
+     sendOfflineMessage(profile.uid, myUid, message, recipientKey).then(ok => {
+        if (!ok) setNotification("Message could not be delivered. Try again later.");
+     });
+  };
+
+  const notifyMediaNeedsConnection = (peerId: string) => {
+     const name = findFriendProfile(peerId)?.username || 'They';
+     setNotification(`${name} is offline. Photos, voice notes and files need them to be online.`);
+  };
+
+  const updateDirectStatus = (conversationId: string, messageId: string, status: MessageStatus) => {
+     updateMessage(conversationId, messageId, m => advanceStatus(m, status)).catch(e => console.error("Could not save receipt", e));
+  };
+
+  const applyOfflineReceipt = (receipt: OfflineReceipt) => {
+     updateDirectStatus(conversationIdFor(receipt.recipientUid, { uid: receipt.recipientUid }), receipt.messageId, receipt.status);
+     if (receipt.status === 'seen') deleteOfflineRows([receipt.rowId]);
+  };
+
+  // Called when a direct chat is on screen: tells the sender, over P2P and on the server
+  const markDirectSeen = (peerId: string, messageIds: string[]) => {
+     if (messageIds.length === 0) return;
+     const conn = directConnsRef.current.get(peerId);
+     if (conn?.open) messageIds.forEach(id => sendSecure(conn, { type: 'seen', messageId: id }));
+     const senderUid = findFriendProfile(peerId)?.uid;
+     const myUid = userProfileRef.current?.uid;
+     if (senderUid && myUid) markOfflineMessagesSeen(myUid, senderUid, messageIds);
   };
   
   const sendDirectReaction = (peerId: string, messageId: string, emoji: string) => {
      const conn = directConnsRef.current.get(peerId);
-     if (conn?.open) conn.send({ type: 'reaction', messageId, payload: emoji });
+     if (conn?.open) sendSecure(conn, { type: 'reaction', messageId, payload: emoji });
   };
   
   const sendDirectTyping = (peerId: string, isTyping: boolean) => {
      const conn = directConnsRef.current.get(peerId);
-     if (conn?.open) conn.send({ type: 'typing', payload: isTyping });
+     if (conn?.open) sendSecure(conn, { type: 'typing', payload: isTyping });
   };
   
   const isPeerConnected = (peerId: string) => directConnsRef.current.get(peerId)?.open || false;
 
   return {
-    messages, setMessages, status, partnerTyping, partnerRecording, partnerProfile, partnerPeerId, remoteVanishMode,
+    messages, setMessages, status, partnerTyping, partnerRecording, partnerProfile, partnerPeerId, remoteVanishMode, isAiSession, isConnectionUnstable,
     onlineUsers, myPeerId, error,
-    friends, friendRequests, removeFriend,
-    incomingReaction, incomingDirectMessage, incomingDirectStatus,
+    friends, friendRequests, removeFriend, importFriends,
+    blockedUsers, blockUser, unblockUser, reportUser,
+    transfers, cancelTransfer,
+    identityKey, getPeerIdentityKey,
+    call, remoteStream, startCall, acceptCall, declineCall, endCall, toggleMute,
+    localVideoStream, remoteVideoStream, isVideoBlurred, canSwitchCamera, toggleVideoBlur, switchCamera,
+    iceConfig, connectionAttempts,
+    incomingReaction, incomingDirectMessages, incomingDirectStatus, markDirectSeen,
     isPeerConnected,
-    sendMessage, sendImage, sendAudio, sendReaction, editMessage, sendTyping, sendRecording,
-    sendDirectMessage, sendDirectImage, sendDirectAudio, sendDirectTyping, sendDirectFriendRequest, sendDirectReaction,
+    sendMessage, sendImage, sendAudio, sendFile, sendReaction, editMessage, sendTyping, sendRecording,
+    sendDirectMessage, sendDirectImage, sendDirectAudio, sendDirectFile, sendDirectTyping, sendDirectFriendRequest, sendDirectReaction,
     updateMyProfile, sendVanishMode,
     sendFriendRequest, acceptFriendRequest, rejectFriendRequest,
     connect, disconnect, callPeer,
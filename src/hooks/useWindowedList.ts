@@ -0,0 +1,176 @@
+import { useState, useRef, useCallback, useLayoutEffect, useEffect, useMemo } from 'react';
+
+/*
+  Renders only the rows of a long scrolling list that are near the viewport.
+  - Rows stay in normal flow between two spacers. Heights are measured with a ResizeObserver
+    once a row has rendered, and estimated until then.
+  - The scroll position is anchored to the first visible row, so rows added or resized above
+    it (older pages, images loading) don't move what the user is reading.
+  - While the user is at the bottom the list stays pinned there as rows are appended.
+*/
+
+const STICK_TO_BOTTOM_PX = 48;
+
+interface WindowedListOptions {
+  keys: string[]; // One per row, in display order
+  estimateHeight: number; // Pixels, for rows that haven't been measured yet
+  overscan?: number; // Pixels rendered beyond each edge of the viewport
+}
+
+// First index whose row ends below `y`
+const findIndexAt = (tops: number[], total: number, y: number) => {
+  let low = 0;
+  let high = tops.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const bottom = mid + 1 < tops.length ? tops[mid + 1] : total;
+    if (bottom <= y) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+};
+
+export const useWindowedList = ({ keys, estimateHeight, overscan = 600 }: WindowedListOptions) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  const observedRef = useRef<Set<Element>>(new Set());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+
+  // Top offset of every row
+  const layout = useMemo(() => {
+    const tops: number[] = [];
+    let total = 0;
+    keys.forEach(key => {
+      tops.push(total);
+      total += heightsRef.current.get(key) ?? estimateHeight;
+    });
+    const indexByKey = new Map(keys.map((key, i) => [key, i]));
+    return { keys, tops, total, indexByKey };
+  }, [keys, estimateHeight, measureVersion]);
+
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+
+  // Remember where the user is, to restore it after the rows above change
+  const captureAnchor = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const { keys, tops, total } = layoutRef.current;
+    stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_PX;
+    if (tops.length === 0) {
+      anchorRef.current = null;
+      return;
+    }
+    const index = findIndexAt(tops, total, el.scrollTop);
+    anchorRef.current = { key: keys[index], offset: tops[index] - el.scrollTop };
+  }, []);
+
+  const onScroll = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    captureAnchor();
+    setViewport({ top: el.scrollTop, height: el.clientHeight });
+  }, [captureAnchor]);
+
+  // One observer for every rendered row, plus the container itself
+  const getObserver = useCallback(() => {
+    if (!observerRef.current) {
+      observerRef.current = new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const el = entry.target as HTMLElement;
+          if (el === containerRef.current) {
+            setViewport({ top: el.scrollTop, height: el.clientHeight });
+            return;
+          }
+          const key = el.dataset.windowKey;
+          if (!key) return;
+          const height = el.offsetHeight;
+          if (height > 0 && heightsRef.current.get(key) !== height) {
+            heightsRef.current.set(key, height);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(v => v + 1);
+      });
+    }
+    return observerRef.current;
+  }, []);
+
+  // Ref for each rendered row; the row needs a `data-window-key` attribute.
+  // Row refs attach before this hook's effects run, so the observer is created on demand.
+  const measureRef = useCallback((el: HTMLElement | null) => {
+    if (!el || observedRef.current.has(el)) return;
+    observedRef.current.add(el);
+    getObserver().observe(el);
+  }, [getObserver]);
+
+  useEffect(() => {
+    const observer = getObserver();
+    if (containerRef.current) observer.observe(containerRef.current);
+    observedRef.current.forEach(row => observer.observe(row));
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+    };
+  }, [getObserver]);
+
+  // Keep the pinned bottom or the anchored row in place after rows change, before the browser paints
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    observedRef.current.forEach(row => {
+      if (!row.isConnected) {
+        observerRef.current?.unobserve(row);
+        observedRef.current.delete(row);
+      }
+    });
+
+    const anchor = anchorRef.current;
+    const index = anchor ? layout.indexByKey.get(anchor.key) : undefined;
+    if (stickToBottomRef.current || index === undefined) {
+      el.scrollTop = el.scrollHeight;
+    } else {
+      const wanted = layout.tops[index] - anchor!.offset;
+      if (Math.abs(el.scrollTop - wanted) > 1) el.scrollTop = wanted;
+    }
+    captureAnchor();
+    setViewport(prev => prev.top === el.scrollTop && prev.height === el.clientHeight ? prev : { top: el.scrollTop, height: el.clientHeight });
+  }, [layout, captureAnchor]);
+
+  const scrollToBottom = useCallback(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    stickToBottomRef.current = true;
+    el.scrollTop = el.scrollHeight;
+  }, []);
+
+  // Brings a row to the top of the view (rows are placed by their estimated height until measured)
+  const scrollToKey = useCallback((key: string) => {
+    const el = containerRef.current;
+    const index = layoutRef.current.indexByKey.get(key);
+    if (!el || index === undefined) return false;
+    stickToBottomRef.current = false;
+    el.scrollTop = layoutRef.current.tops[index];
+    return true;
+  }, []);
+
+  const { tops, total } = layout;
+  const start = tops.length ? findIndexAt(tops, total, Math.max(0, viewport.top - overscan)) : 0;
+  const end = tops.length ? findIndexAt(tops, total, viewport.top + viewport.height + overscan) : -1;
+
+  return {
+    containerRef,
+    onScroll,
+    measureRef,
+    scrollToBottom,
+    scrollToKey,
+    items: keys.slice(start, end + 1).map((key, i) => ({ key, index: start + i })),
+    paddingTop: tops.length ? tops[start] : 0,
+    paddingBottom: tops.length ? total - (end + 1 < tops.length ? tops[end + 1] : total) : 0
+  };
+};
@@ -0,0 +1,82 @@
+import { Message, UserProfile } from '../types';
+
+export interface AiHistoryEntry {
+  role: 'me' | 'stranger';
+  content: string;
+}
+
+// Mirrors the /api/chat body limits; the server only uses the recent part of the chat anyway
+const MAX_HISTORY_ENTRIES = 50;
+const MAX_ENTRY_CHARS = 2000;
+
+// The persona shown as the partner, and the server's signature over it for /api/chat
+export interface AiPersona {
+  profile: UserProfile;
+  token: string;
+}
+
+export class AiChatError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Starts an AI session: the server picks a persona that stays fixed for the whole chat
+export const fetchAiPersona = async (): Promise<AiPersona | null> => {
+  try {
+    const res = await fetch('/api/persona', { method: 'POST' });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data?.persona?.username && typeof data.token === 'string' ? { profile: data.persona as UserProfile, token: data.token } : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// The model only sees text, so media is described instead
+const describeMessage = (msg: Message): string => {
+  if (msg.type === 'image') return '[sent a photo]';
+  if (msg.type === 'audio') return '[sent a voice note]';
+  if (msg.type === 'file') return `[sent a file: ${msg.fileInfo?.name || 'attachment'}]`;
+  return msg.text || '';
+};
+
+export const toAiHistory = (messages: Message[]): AiHistoryEntry[] => {
+  return messages
+    .filter(m => m.sender !== 'system')
+    .slice(-MAX_HISTORY_ENTRIES)
+    .map(m => ({ role: m.sender === 'me' ? 'me' : 'stranger', content: describeMessage(m).slice(0, MAX_ENTRY_CHARS) }));
+};
+
+// Streams a reply from /api/chat, calling onText with the full text received so far
+export const streamAiReply = async (
+  history: AiHistoryEntry[],
+  personaToken: string,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const res = await fetch('/api/chat', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: history, personaToken }),
+    signal
+  });
+
+  if (!res.ok || !res.body) {
+    throw new AiChatError(`AI chat failed with status ${res.status}`, res.status);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value, { stream: true });
+    onText(text);
+  }
+
+  text += decoder.decode();
+  return text;
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseArchive, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './chatArchive';
+
+const archiveOf = (messages: unknown[]) => JSON.stringify({
+  format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: 1, profile: null, friends: [], recentPeers: [],
+  conversations: [{ id: 'uid:friend', messages }]
+});
+
+const messagesOf = (messages: unknown[]) => parseArchive(archiveOf(messages)).conversations[0].messages;
+
+describe('parseArchive', () => {
+  it('restores only the fields a chat shows', () => {
+    const [message] = messagesOf([{
+      id: 'm1', type: 'text', sender: 'me', timestamp: 5, text: 'hi', isEdited: true,
+      status: 'seen', sendState: 'pending', expiresAt: 10, expiryDuration: 5, senderPeerId: 'peer-x', isStreaming: true, onClick: 'x',
+      reactions: [{ emoji: '👍', sender: 'stranger', extra: 1 }, { emoji: 7, sender: 'me' }],
+      replyTo: { id: 'm0', text: 'hey', senderName: 'Bo', rogue: true }
+    }]);
+    expect(JSON.parse(JSON.stringify(message))).toEqual({
+      id: 'm1', type: 'text', sender: 'me', timestamp: 5, text: 'hi', isEdited: true,
+      reactions: [{ emoji: '👍', sender: 'stranger' }],
+      replyTo: { id: 'm0', text: 'hey', senderName: 'Bo' }
+    });
+  });
+
+  it('keeps media only as data URLs and cleans file details', () => {
+    const [file, link] = messagesOf([
+      { id: 'f1', type: 'file', sender: 'stranger', timestamp: 1, fileData: 'data:text/plain;base64,aGk=', fileInfo: { name: '../../evil.txt', size: 2, mimeType: 'text/plain' } },
+      { id: 'f2', type: 'file', sender: 'stranger', timestamp: 2, fileData: 'javascript:alert(1)', fileInfo: { size: 2 } },
+    ]);
+    expect(file.fileData).toBe('data:text/plain;base64,aGk=');
+    expect(file.fileInfo?.name).not.toContain('/');
+    expect(link.fileData).toBeUndefined();
+    expect(link.fileInfo).toBeUndefined();
+  });
+
+  it('drops messages it cannot read', () => {
+    expect(messagesOf([{ id: '', type: 'text', sender: 'me', timestamp: 1 }, { id: 'x', type: 'poll', sender: 'me', timestamp: 1 }, { id: 'y', type: 'text', sender: 'me', timestamp: 1, text: 42 }])).toEqual([]);
+  });
+});
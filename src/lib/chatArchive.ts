@@ -0,0 +1,260 @@
+import { Message, MessageType, UserProfile, Friend, RecentPeer, ReplyInfo, FileInfo, Reaction } from '../types';
+import { sanitizeFileName } from './fileTransfer';
+import { listConversationIds, exportConversation, importMessages, getList, saveList, isDirectConversationId } from './messageStore';
+import { parseProfile } from './protocol';
+
+/*
+  Backups of locally stored chats.
+  - An archive is versioned JSON with the profile, friends, recent peers and direct chat
+    histories (media inlined as data URLs). A single conversation exports in the same format.
+  - Importing merges: messages are added per conversation unless their ID is already there,
+    friends and recent peers are deduplicated by UID (or peer ID).
+  - Transcripts (HTML or text) are for reading only and can't be imported.
+  The identity key is deliberately left out, so safety numbers change on a new device.
+*/
+
+export const ARCHIVE_FORMAT = 'chat-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ExportFormat = 'json' | 'html' | 'text';
+
+export interface ArchivedConversation {
+  id: string; // Conversation ID from the message store ("uid:..." or "peer:...")
+  profile?: UserProfile; // Who the chat was with, when known
+  messages: Message[];
+}
+
+export interface ChatArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  profile: UserProfile | null;
+  friends: Friend[];
+  recentPeers: RecentPeer[];
+  conversations: ArchivedConversation[];
+}
+
+export interface ImportSummary {
+  conversations: number; // Conversations that gained messages
+  messages: number;
+}
+
+const MESSAGE_TYPES: MessageType[] = ['text', 'image', 'audio', 'file'];
+const RECENT_PEERS_LIMIT = 50;
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isProfile = (value: unknown): value is UserProfile => isObject(value) && typeof value.username === 'string';
+
+const sameProfile = (a: UserProfile, aId: string, b: UserProfile, bId: string) =>
+  a.uid && b.uid ? a.uid === b.uid : aId === bId;
+
+// --- BUILDING ---
+
+const findProfile = (conversationId: string, friends: Friend[], recentPeers: RecentPeer[], messages: Message[]) => {
+  const [kind, id] = [conversationId.slice(0, conversationId.indexOf(':')), conversationId.slice(conversationId.indexOf(':') + 1)];
+  const matches = (profile: UserProfile, peerId: string) => kind === 'uid' ? profile.uid === id : peerId === id;
+  return friends.find(f => matches(f.profile, f.id))?.profile
+    || recentPeers.find(r => matches(r.profile, r.peerId))?.profile
+    || messages.find(m => m.sender === 'stranger' && m.senderProfile)?.senderProfile;
+};
+
+export const buildArchive = async (profile: UserProfile | null, friends: Friend[], conversationIds?: string[]): Promise<ChatArchive> => {
+  const recentPeers = await getList('recent_peers');
+  const ids = conversationIds || (await listConversationIds()).filter(isDirectConversationId);
+  const conversations = await Promise.all(ids.map(async id => {
+    const messages = await exportConversation(id);
+    return { id, profile: findProfile(id, friends, recentPeers, messages), messages };
+  }));
+
+  // A single-conversation export carries only that chat
+  const isFull = !conversationIds;
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    profile: isFull ? profile : null,
+    friends: isFull ? friends : [],
+    recentPeers: isFull ? recentPeers : [],
+    conversations: conversations.filter(c => c.messages.length > 0)
+  };
+};
+
+// --- PARSING ---
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const parseReplyTo = (value: unknown): ReplyInfo | undefined =>
+  isObject(value) && isString(value.id) && isString(value.text) && isString(value.senderName)
+    ? { id: value.id, text: value.text, senderName: value.senderName }
+    : undefined;
+
+const parseFileInfo = (value: unknown): FileInfo | undefined =>
+  isObject(value) && isString(value.name) && typeof value.size === 'number'
+    ? { name: sanitizeFileName(value.name), size: value.size, mimeType: isString(value.mimeType) ? value.mimeType : 'application/octet-stream' }
+    : undefined;
+
+const parseReactions = (value: unknown): Reaction[] =>
+  Array.isArray(value)
+    ? value.filter(r => isObject(r) && isString(r.emoji) && (r.sender === 'me' || r.sender === 'stranger')).map(r => ({ emoji: r.emoji, sender: r.sender }))
+    : [];
+
+// Rebuilds a stored message from untrusted JSON, or null if it isn't one. Only the fields a
+// restored chat shows are copied; delivery state, expiry and connection details belong to the
+// device that sent the message and stay behind.
+const parseMessage = (value: unknown): Message | null => {
+  if (!isObject(value) || !isString(value.id) || !value.id || typeof value.timestamp !== 'number') return null;
+  if (!MESSAGE_TYPES.includes(value.type) || !['me', 'stranger', 'system'].includes(value.sender)) return null;
+  if (value.text !== undefined && !isString(value.text)) return null;
+  return {
+    id: value.id,
+    type: value.type,
+    sender: value.sender,
+    timestamp: value.timestamp,
+    text: value.text,
+    // Only data URLs carry media across devices; anything else would point nowhere
+    fileData: isString(value.fileData) && value.fileData.startsWith('data:') ? value.fileData : undefined,
+    fileInfo: parseFileInfo(value.fileInfo),
+    senderName: isString(value.senderName) ? value.senderName : undefined,
+    senderProfile: parseProfile(value.senderProfile) ?? undefined,
+    reactions: parseReactions(value.reactions),
+    isEdited: value.isEdited === true || undefined,
+    replyTo: parseReplyTo(value.replyTo)
+  };
+};
+
+export const parseArchive = (json: string): ChatArchive => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error('This file is not a chat archive.');
+  }
+  if (!isObject(data) || data.format !== ARCHIVE_FORMAT || typeof data.version !== 'number') {
+    throw new Error('This file is not a chat archive.');
+  }
+  if (data.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of the app. Update and try again.');
+  }
+
+  const list = (value: unknown) => Array.isArray(value) ? value : [];
+  return {
+    format: ARCHIVE_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    profile: isProfile(data.profile) ? data.profile : null,
+    friends: list(data.friends).filter((f): f is Friend => isObject(f) && typeof f.id === 'string' && isProfile(f.profile)),
+    recentPeers: list(data.recentPeers).filter((r): r is RecentPeer => isObject(r) && typeof r.peerId === 'string' && typeof r.metAt === 'number' && isProfile(r.profile)),
+    conversations: list(data.conversations)
+      .filter(c => isObject(c) && typeof c.id === 'string' && isDirectConversationId(c.id))
+      .map(c => ({
+        id: c.id,
+        profile: isProfile(c.profile) ? c.profile : undefined,
+        messages: list(c.messages).map(parseMessage).filter((m): m is Message => !!m)
+      }))
+  };
+};
+
+// --- MERGING ---
+
+export const mergeFriends = (current: Friend[], incoming: Friend[]) =>
+  incoming.reduce((merged, friend) =>
+    merged.some(f => sameProfile(f.profile, f.id, friend.profile, friend.id)) ? merged : [...merged, friend],
+  current);
+
+const mergeRecentPeers = (current: RecentPeer[], incoming: RecentPeer[]) =>
+  incoming
+    .reduce((merged, peer) => merged.some(r => sameProfile(r.profile, r.peerId, peer.profile, peer.peerId)) ? merged : [...merged, peer], current)
+    .sort((a, b) => b.metAt - a.metAt)
+    .slice(0, RECENT_PEERS_LIMIT);
+
+// Writes histories and recent peers to the store. Friends and the profile live in app state,
+// so the caller merges those (see mergeFriends).
+export const importArchive = async (archive: ChatArchive): Promise<ImportSummary> => {
+  let messages = 0;
+  let conversations = 0;
+  for (const conversation of archive.conversations) {
+    const added = await importMessages(conversation.id, conversation.messages);
+    messages += added;
+    if (added > 0) conversations++;
+  }
+  if (archive.recentPeers.length > 0) {
+    await saveList('recent_peers', mergeRecentPeers(await getList('recent_peers'), archive.recentPeers));
+  }
+  return { conversations, messages };
+};
+
+// --- TRANSCRIPTS ---
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const senderLabel = (message: Message, myName: string, peerName: string) =>
+  message.sender === 'me' ? myName : message.sender === 'system' ? 'System' : (message.senderName || peerName);
+
+const describeMedia = (message: Message) =>
+  message.type === 'image' ? '[Photo]' : message.type === 'audio' ? '[Voice note]' : message.type === 'file' ? `[File: ${message.fileInfo?.name || 'attachment'}]` : '';
+
+export const toTextTranscript = (archive: ChatArchive, myName: string) =>
+  archive.conversations.map(conversation => {
+    const peerName = conversation.profile?.username || 'Stranger';
+    const lines = conversation.messages.map(m => {
+      const body = [m.replyTo ? `(replying to ${m.replyTo.senderName}: "${m.replyTo.text}")` : '', describeMedia(m), m.text || ''].filter(Boolean).join(' ');
+      return `[${formatDate(m.timestamp)}] ${senderLabel(m, myName, peerName)}: ${body}${m.isEdited ? ' (edited)' : ''}`;
+    });
+    return [`Chat with ${peerName}`, '='.repeat(40), ...lines].join('\n');
+  }).join('\n\n\n');
+
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const mediaHtml = (message: Message) => {
+  // parseArchive and exportConversation only leave data URLs here
+  const src = message.fileData && message.fileData.startsWith('data:') ? escapeHtml(message.fileData) : null;
+  if (!src) return message.type === 'text' ? '' : `<em>${escapeHtml(describeMedia(message))}</em>`;
+  if (message.type === 'image') return `<img src="${src}" alt="Photo">`;
+  if (message.type === 'audio') return `<audio controls src="${src}"></audio>`;
+  return `<a href="${src}" download="${escapeHtml(message.fileInfo?.name || 'attachment')}">${escapeHtml(describeMedia(message))}</a>`;
+};
+
+export const toHtmlTranscript = (archive: ChatArchive, myName: string) => {
+  const sections = archive.conversations.map(conversation => {
+    const peerName = conversation.profile?.username || 'Stranger';
+    const rows = conversation.messages.map(m => `
+      <div class="msg ${m.sender}">
+        <div class="meta">${escapeHtml(senderLabel(m, myName, peerName))} · ${escapeHtml(formatDate(m.timestamp))}${m.isEdited ? ' · edited' : ''}</div>
+        ${m.replyTo ? `<blockquote>${escapeHtml(m.replyTo.senderName)}: ${escapeHtml(m.replyTo.text)}</blockquote>` : ''}
+        ${mediaHtml(m)}
+        ${m.text ? `<p>${escapeHtml(m.text)}</p>` : ''}
+      </div>`).join('');
+    return `<section><h2>Chat with ${escapeHtml(peerName)}</h2>${rows}</section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Chat transcript</title>
+<style>
+  body { font-family: system-ui, sans-serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #0f172a; }
+  .msg { margin: .75rem 0; padding: .5rem .75rem; border-radius: .75rem; background: #f1f5f9; }
+  .msg.me { background: #ede9fe; margin-left: 3rem; }
+  .msg.stranger { margin-right: 3rem; }
+  .meta { font-size: .75rem; color: #64748b; }
+  p { margin: .25rem 0 0; white-space: pre-wrap; }
+  img { max-width: 100%; border-radius: .5rem; margin-top: .25rem; }
+  blockquote { margin: .25rem 0; padding-left: .5rem; border-left: 3px solid #8b5cf6; color: #475569; font-size: .85rem; }
+</style></head>
+<body><h1>Chat transcript</h1><p>Exported ${escapeHtml(formatDate(archive.exportedAt))}</p>${sections}</body></html>`;
+};
+
+// --- FILES ---
+
+export const downloadArchive = (archive: ChatArchive, format: ExportFormat, myName: string, baseName = 'chat-backup') => {
+  const [content, type, extension] = format === 'html'
+    ? [toHtmlTranscript(archive, myName), 'text/html', 'html']
+    : format === 'text'
+      ? [toTextTranscript(archive, myName), 'text/plain', 'txt']
+      : [JSON.stringify(archive), 'application/json', 'json'];
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${sanitizeFileName(baseName)}-${new Date(archive.exportedAt).toISOString().slice(0, 10)}.${extension}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,219 @@
+import { PeerData } from '../types';
+
+/*
+  End-to-end encryption with WebCrypto.
+  - Every browser has a long-lived ECDH P-256 identity key (localStorage 'chat_identity_key').
+    Its public half travels in the profile as `publicKey`.
+  - Each connection also exchanges a fresh key share in the 'profile' handshake. The AES-GCM
+    session key comes from HKDF over ECDH(shares) + ECDH(identities): it needs both identity
+    private keys, and old sessions stay safe if an identity key leaks later.
+  - Offline messages are sealed to the recipient's identity key with a one-off key share.
+  - Safety numbers hash both identity keys so two people can confirm nobody is in between.
+*/
+
+export interface Identity {
+  publicKey: string; // Base64 raw P-256 point
+  privateKey: CryptoKey;
+}
+
+export type KeyShare = Identity;
+
+const IDENTITY_STORAGE_KEY = 'chat_identity_key';
+const VERIFIED_STORAGE_KEY = 'chat_verified_keys';
+const ECDH = { name: 'ECDH', namedCurve: 'P-256' };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// --- ENCODING ---
+
+const toBase64 = (data: ArrayBuffer | Uint8Array) => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+// BinaryPack may hand binary back as an ArrayBuffer or a typed array
+const toBytes = (value: unknown): Uint8Array<ArrayBuffer> => {
+  if (value instanceof ArrayBuffer) return new Uint8Array(value);
+  if (ArrayBuffer.isView(value)) return new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice();
+  throw new Error('Expected binary data');
+};
+
+const concat = (...parts: ArrayBuffer[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(new Uint8Array(p), offset); offset += p.byteLength; });
+  return out;
+};
+
+// --- KEYS ---
+
+const generateKeyPair = async (): Promise<CryptoKeyPair> => crypto.subtle.generateKey(ECDH, true, ['deriveBits']) as Promise<CryptoKeyPair>;
+
+const exportPublicKey = async (key: CryptoKey) => toBase64(await crypto.subtle.exportKey('raw', key));
+
+const importPublicKey = (publicKey: string) => crypto.subtle.importKey('raw', fromBase64(publicKey), ECDH, false, []);
+
+const loadOrCreateIdentity = async (): Promise<Identity> => {
+  try {
+    const stored = localStorage.getItem(IDENTITY_STORAGE_KEY);
+    if (stored) {
+      const { publicKey, privateJwk } = JSON.parse(stored);
+      const privateKey = await crypto.subtle.importKey('jwk', privateJwk, ECDH, false, ['deriveBits']);
+      return { publicKey, privateKey };
+    }
+  } catch (e) {
+    console.warn("Stored identity key is unreadable, creating a new one", e);
+  }
+
+  const pair = await generateKeyPair();
+  const publicKey = await exportPublicKey(pair.publicKey);
+  const privateJwk = await crypto.subtle.exportKey('jwk', pair.privateKey);
+  localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify({ publicKey, privateJwk }));
+  return { publicKey, privateKey: pair.privateKey };
+};
+
+let identityPromise: Promise<Identity> | null = null;
+
+export const getIdentity = (): Promise<Identity> => {
+  if (!identityPromise) identityPromise = loadOrCreateIdentity();
+  return identityPromise;
+};
+
+export const createKeyShare = async (): Promise<KeyShare> => {
+  const pair = await generateKeyPair();
+  return { publicKey: await exportPublicKey(pair.publicKey), privateKey: pair.privateKey };
+};
+
+const deriveSecret = async (privateKey: CryptoKey, publicKey: string) =>
+  crypto.subtle.deriveBits({ name: 'ECDH', public: await importPublicKey(publicKey) }, privateKey, 256);
+
+const deriveAesKey = async (secret: Uint8Array<ArrayBuffer>, saltText: string, info: string) => {
+  const base = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const salt = await crypto.subtle.digest('SHA-256', encoder.encode(saltText));
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: encoder.encode(info) },
+    base,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// Both sides get the same key: the shares are sorted and ECDH is symmetric
+export const deriveSessionKey = async (identity: Identity, keyShare: KeyShare, theirIdentityKey: string, theirKeyShare: string) => {
+  const [shareSecret, identitySecret] = await Promise.all([
+    deriveSecret(keyShare.privateKey, theirKeyShare),
+    deriveSecret(identity.privateKey, theirIdentityKey),
+  ]);
+  return deriveAesKey(concat(shareSecret, identitySecret), [keyShare.publicKey, theirKeyShare].sort().join('|'), 'strangerstown-session-v1');
+};
+
+// --- SESSION MESSAGES ---
+
+// Wraps a PeerData as { type: 'encrypted' }. A binary `payload.data` (file chunks) is appended
+// raw after the JSON header instead of being base64'd:
+// [u32 header length][header JSON][binary]
+export const sealPeerData = async (key: CryptoKey, data: PeerData): Promise<PeerData> => {
+  const binary = data.payload?.data instanceof ArrayBuffer ? data.payload.data as ArrayBuffer : null;
+  const inner = binary ? { ...data, payload: { ...data.payload, data: undefined } } : data;
+  const header = encoder.encode(JSON.stringify({ data: inner, binary: !!binary }));
+
+  const plain = new Uint8Array(4 + header.byteLength + (binary?.byteLength ?? 0));
+  new DataView(plain.buffer).setUint32(0, header.byteLength);
+  plain.set(header, 4);
+  if (binary) plain.set(new Uint8Array(binary), 4 + header.byteLength);
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain);
+  return { type: 'encrypted', payload: { iv: iv.buffer, data: ciphertext } };
+};
+
+// Null if the envelope was tampered with or encrypted under another key
+export const openPeerData = async (key: CryptoKey, envelope: PeerData): Promise<PeerData | null> => {
+  try {
+    const iv = toBytes(envelope.payload?.iv);
+    const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, toBytes(envelope.payload?.data)));
+    const headerLength = new DataView(plain.buffer).getUint32(0);
+    const { data, binary } = JSON.parse(decoder.decode(plain.subarray(4, 4 + headerLength)));
+    if (binary) data.payload = { ...data.payload, data: plain.slice(4 + headerLength).buffer };
+    return data as PeerData;
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- OFFLINE MESSAGES ---
+
+interface SealedEnvelope {
+  v: 1;
+  from: string; // Sender's identity key
+  epk: string; // One-off key share
+  iv: string;
+  ct: string;
+}
+
+export const sealForRecipient = async (identity: Identity, recipientKey: string, plaintext: string): Promise<string> => {
+  const share = await createKeyShare();
+  const [shareSecret, identitySecret] = await Promise.all([
+    deriveSecret(share.privateKey, recipientKey),
+    deriveSecret(identity.privateKey, recipientKey),
+  ]);
+  const key = await deriveAesKey(concat(shareSecret, identitySecret), `${share.publicKey}|${recipientKey}`, 'strangerstown-offline-v1');
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+
+  const envelope: SealedEnvelope = { v: 1, from: identity.publicKey, epk: share.publicKey, iv: toBase64(iv), ct: toBase64(ciphertext) };
+  return JSON.stringify(envelope);
+};
+
+// Returns the plaintext and the sender's identity key, or null if it isn't for us
+export const openSealed = async (identity: Identity, sealed: string): Promise<{ plaintext: string; senderKey: string } | null> => {
+  try {
+    const envelope = JSON.parse(sealed) as SealedEnvelope;
+    if (envelope?.v !== 1) return null;
+    const [shareSecret, identitySecret] = await Promise.all([
+      deriveSecret(identity.privateKey, envelope.epk),
+      deriveSecret(identity.privateKey, envelope.from),
+    ]);
+    const key = await deriveAesKey(concat(shareSecret, identitySecret), `${envelope.epk}|${identity.publicKey}`, 'strangerstown-offline-v1');
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.iv) }, key, fromBase64(envelope.ct));
+    return { plaintext: decoder.decode(plain), senderKey: envelope.from };
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- SAFETY NUMBERS ---
+
+// 60 digits in groups of five; the same on both devices because the keys are sorted
+export const getSafetyNumber = async (keyA: string, keyB: string): Promise<string> => {
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-512', encoder.encode([keyA, keyB].sort().join('|'))));
+  const groups: string[] = [];
+  for (let i = 0; i < 12; i++) {
+    let n = 0;
+    for (let j = 0; j < 5; j++) n = n * 256 + hash[i * 5 + j];
+    groups.push((n % 100000).toString().padStart(5, '0'));
+  }
+  return groups.join(' ');
+};
+
+// Keys the user has compared in person, by user ID
+export const getVerifiedKeys = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(VERIFIED_STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const setVerifiedKey = (uid: string, publicKey: string | null) => {
+  const keys = getVerifiedKeys();
+  if (publicKey) keys[uid] = publicKey;
+  else delete keys[uid];
+  localStorage.setItem(VERIFIED_STORAGE_KEY, JSON.stringify(keys));
+};
@@ -0,0 +1,164 @@
+import { DataConnection } from 'peerjs';
+import { FileInfo, PeerData, TransferManifest } from '../types';
+import { TRANSFER_CHUNK_BYTES, TRANSFER_MAX_BYTES, FILE_MAX_BYTES, FILE_TYPES } from '../constants';
+
+/*
+  Binary transfer over a DataConnection:
+    1. { type: 'file_start', id, dataType, payload: TransferManifest, ...message fields }
+    2. { type: 'file_chunk', messageId, payload: { index, data: ArrayBuffer } } x chunkCount
+    3. Either side may send { type: 'file_cancel', messageId } to stop it. The receiver sends
+       payload 'integrity' when the assembled file doesn't match the manifest's hash.
+*/
+
+// Sending pauses while this much is still queued on the data channel
+const BUFFERED_HIGH_WATER = 1024 * 1024;
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const sha256 = async (data: ArrayBuffer) => toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const getChunkCount = (size: number) => Math.max(1, Math.ceil(size / TRANSFER_CHUNK_BYTES));
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+export const createManifest = async (blob: Blob, name?: string): Promise<{ manifest: TransferManifest; buffer: ArrayBuffer }> => {
+  const buffer = await blob.arrayBuffer();
+  return {
+    buffer,
+    manifest: {
+      mimeType: blob.type || 'application/octet-stream',
+      size: buffer.byteLength,
+      chunkCount: getChunkCount(buffer.byteLength),
+      sha256: await sha256(buffer),
+      name
+    }
+  };
+};
+
+// --- ATTACHMENTS ---
+
+const getFileExtension = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+// A plain file name that is safe to offer as a download (keeps the extension when shortening)
+export const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, '_').trim().slice(-120) || 'file';
+
+// Why a file can't be sent, or null if it can. The sender checks before sending and the receiver checks the manifest.
+export const getFileRejection = (name: string, mimeType: string, size: number): string | null => {
+  const expected = FILE_TYPES[getFileExtension(name)];
+  if (!expected || mimeType !== expected) return 'This file type is not supported';
+  if (size > FILE_MAX_BYTES) return `Files can be at most ${FILE_MAX_BYTES / (1024 * 1024)} MB`;
+  return null;
+};
+
+// Reads a picked file for a 'file' message; throws with a message for the user if it isn't allowed
+export const readAttachment = async (file: File): Promise<{ fileData: string; fileInfo: FileInfo }> => {
+  const name = sanitizeFileName(file.name);
+  const mimeType = FILE_TYPES[getFileExtension(name)] || file.type;
+  const rejection = getFileRejection(name, mimeType, file.size);
+  if (rejection) throw new Error(rejection);
+  return {
+    fileData: await blobToDataUrl(new Blob([file], { type: mimeType })),
+    fileInfo: { name, size: file.size, mimeType }
+  };
+};
+
+export const ATTACHMENT_ACCEPT = Object.keys(FILE_TYPES).map(ext => `.${ext}`).join(',');
+
+// Peers are untrusted: reject anything we wouldn't have sent ourselves
+export const isValidManifest = (value: unknown): value is TransferManifest => {
+  const m = value as TransferManifest;
+  return !!m && typeof m === 'object' &&
+    typeof m.mimeType === 'string' && m.mimeType.length <= 100 &&
+    Number.isInteger(m.size) && m.size >= 0 && m.size <= TRANSFER_MAX_BYTES &&
+    m.chunkCount === getChunkCount(m.size) &&
+    typeof m.sha256 === 'string' && /^[0-9a-f]{64}$/.test(m.sha256) &&
+    (m.name === undefined || (typeof m.name === 'string' && m.name.length <= 255));
+};
+
+// Whether a 'file_start' is something this client is willing to receive
+export const isAcceptableTransfer = (dataType: unknown, manifest: unknown): manifest is TransferManifest => {
+  if (!isValidManifest(manifest)) return false;
+  if (dataType === 'image') return manifest.mimeType.startsWith('image/');
+  if (dataType === 'audio') return manifest.mimeType.startsWith('audio/');
+  if (dataType === 'file') {
+    return !!manifest.name && getFileRejection(sanitizeFileName(manifest.name), manifest.mimeType, manifest.size) === null;
+  }
+  return false;
+};
+
+const waitForDrain = async (conn: DataConnection, signal: AbortSignal) => {
+  while (conn.open && !signal.aborted && (conn.dataChannel?.bufferedAmount ?? 0) > BUFFERED_HIGH_WATER) {
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+// Sends every chunk in order through `send` (which encrypts), reporting progress about once
+// per percent. Throws if the signal aborts or the connection closes midway.
+export const sendChunks = async (
+  conn: DataConnection,
+  send: (data: PeerData) => Promise<void>,
+  messageId: string,
+  manifest: TransferManifest,
+  buffer: ArrayBuffer,
+  onProgress: (loaded: number) => void,
+  signal: AbortSignal
+) => {
+  const reportEvery = Math.max(1, Math.floor(manifest.chunkCount / 100));
+
+  for (let index = 0; index < manifest.chunkCount; index++) {
+    await waitForDrain(conn, signal);
+    if (signal.aborted) throw new DOMException('Transfer cancelled', 'AbortError');
+    if (!conn.open) throw new Error('Connection closed during transfer');
+
+    const start = index * TRANSFER_CHUNK_BYTES;
+    const data = buffer.slice(start, start + TRANSFER_CHUNK_BYTES);
+    await send({ type: 'file_chunk', messageId, payload: { index, data } });
+
+    const isLast = index === manifest.chunkCount - 1;
+    if (isLast || index % reportEvery === 0) onProgress(start + data.byteLength);
+  }
+};
+
+export interface TransferReceiver {
+  manifest: TransferManifest;
+  received: () => number; // Bytes so far
+  addChunk: (index: unknown, data: unknown) => boolean; // False for a malformed or duplicate chunk
+  isComplete: () => boolean;
+  assemble: () => Promise<Blob | null>; // Null if the file doesn't match the manifest's hash
+}
+
+export const createTransferReceiver = (manifest: TransferManifest): TransferReceiver => {
+  const chunks: ArrayBuffer[] = new Array(manifest.chunkCount);
+  let count = 0;
+  let bytes = 0;
+
+  return {
+    manifest,
+    received: () => bytes,
+    addChunk(index, data) {
+      if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= manifest.chunkCount || chunks[index]) return false;
+      const chunk = data instanceof ArrayBuffer
+        ? data
+        : ArrayBuffer.isView(data) ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer as ArrayBuffer : null;
+      if (!chunk || chunk.byteLength > TRANSFER_CHUNK_BYTES || bytes + chunk.byteLength > manifest.size) return false;
+
+      chunks[index] = chunk;
+      count++;
+      bytes += chunk.byteLength;
+      return true;
+    },
+    isComplete: () => count === manifest.chunkCount && bytes === manifest.size,
+    async assemble() {
+      const blob = new Blob(chunks, { type: manifest.mimeType });
+      const hash = await sha256(await blob.arrayBuffer());
+      return hash === manifest.sha256 ? blob : null;
+    }
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Message } from '../types';
+import { mergeMessages, restoreCached, confirmSend, failSend, retrySend, rowToMessage, GlobalMessageRow } from './globalMessages';
+
+const message = (id: string, timestamp: number, extra: Partial<Message> = {}): Message =>
+  ({ id, text: `text ${id}`, type: 'text', sender: 'stranger', timestamp, ...extra });
+
+const row = (clientId: string | null, id: number, extra: Partial<GlobalMessageRow> = {}): GlobalMessageRow => ({
+  id, client_id: clientId, content: `text ${clientId}`, sender_id: 'peer-b', sender_name: 'Bea',
+  sender_profile: null, room: 'general', created_at: new Date(1000 * id).toISOString(), reply_to: null, deleted_at: null, ...extra
+});
+
+describe('mergeMessages', () => {
+  it('returns the same array when nothing is new', () => {
+    const current = [message('a', 1), message('b', 2)];
+    expect(mergeMessages(current, [])).toBe(current);
+    expect(mergeMessages(current, [message('a', 1)])).toBe(current);
+  });
+
+  it('keeps one copy per ID, oldest first', () => {
+    const merged = mergeMessages([message('b', 2), message('c', 3)], [message('a', 1), message('c', 3), message('b', 2)]);
+    expect(merged.map(m => m.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lets the stored row confirm our optimistic send instead of duplicating it', () => {
+    const mine = message('a', 5, { sender: 'me', sendState: 'pending' });
+    const merged = mergeMessages([mine], [rowToMessage(row('a', 5, { sender_id: 'me-peer' }), 'me-peer')]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sendState).toBeUndefined();
+    expect(merged[0].sender).toBe('me');
+  });
+
+  it('never lets an unconfirmed copy undo a confirmed one', () => {
+    const confirmed = [message('a', 1, { sender: 'me' })];
+    expect(mergeMessages(confirmed, [message('a', 1, { sender: 'me', sendState: 'failed' })])).toBe(confirmed);
+  });
+
+  it('applies a deletion even to a message we already have', () => {
+    const merged = mergeMessages([message('a', 1, { replyTo: { id: 'z', text: 'q', senderName: 'Bea' } })], [message('a', 1, { text: undefined, isDeleted: true })]);
+    expect(merged[0]).toMatchObject({ isDeleted: true, text: undefined, replyTo: undefined });
+  });
+
+  it('falls back to the bigint ID for rows written before client IDs', () => {
+    expect(rowToMessage(row(null, 42), null).id).toBe('42');
+  });
+});
+
+describe('restoreCached', () => {
+  it('marks sends cut off by a reload as failed and leaves the rest alone', () => {
+    const cached = [message('a', 1, { sendState: 'pending' }), message('b', 2, { sendState: 'failed' }), message('c', 3)];
+    expect(restoreCached(cached).map(m => m.sendState)).toEqual(['failed', 'failed', undefined]);
+  });
+
+  it('lets a row fetched after the reload confirm the restored send', () => {
+    const restored = restoreCached([message('a', 1, { sender: 'me', sendState: 'pending' })]);
+    const merged = mergeMessages(restored, [rowToMessage(row('a', 1), 'peer-b')]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].sendState).toBeUndefined();
+  });
+});
+
+describe('send state', () => {
+  const pending = [message('a', 1, { sender: 'me', sendState: 'pending' })];
+
+  it('confirms pending and failed sends', () => {
+    expect(confirmSend(pending, 'a')[0].sendState).toBeUndefined();
+    expect(confirmSend(failSend(pending, 'a'), 'a')[0].sendState).toBeUndefined();
+  });
+
+  it('fails only pending sends', () => {
+    expect(failSend(pending, 'a')[0].sendState).toBe('failed');
+    const confirmed = confirmSend(pending, 'a');
+    expect(failSend(confirmed, 'a')).toBe(confirmed);
+  });
+
+  it('retries only failed sends', () => {
+    expect(retrySend(failSend(pending, 'a'), 'a')[0].sendState).toBe('pending');
+    expect(retrySend(pending, 'a')).toBe(pending);
+  });
+
+  it('keeps a send confirmed when the row arrived before the insert resolved as failed', () => {
+    const confirmedByRow = mergeMessages(pending, [message('a', 1, { sender: 'me' })]);
+    expect(failSend(confirmedByRow, 'a')[0].sendState).toBeUndefined();
+  });
+
+  it('ignores unknown IDs', () => {
+    expect(confirmSend(pending, 'zzz')).toBe(pending);
+    expect(failSend(pending, 'zzz')).toBe(pending);
+    expect(retrySend(pending, 'zzz')).toBe(pending);
+  });
+});
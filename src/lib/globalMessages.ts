@@ -0,0 +1,112 @@
+import { Message, ReplyInfo, SendState, UserProfile } from '../types';
+import { GLOBAL_REPLY_QUOTE_LENGTH } from '../constants';
+
+/*
+  Reconciling Global Meet messages from three sources: our optimistic sends, global_messages
+  rows (fetched pages and Realtime inserts) and the copy cached on the device.
+  - Every message gets a client ID when it is written. The row stores it in `client_id`,
+    so all copies of one message share an ID. Rows from before client IDs fall back to
+    their bigint ID.
+  - Our own sends start 'pending'. A confirmed copy (the insert succeeded, or the row came
+    back from the DB) always wins, and 'failed' sends can be retried: the insert is
+    idempotent on client_id, so a retry of a message that did land is harmless.
+  - A 'pending' message restored from the cache was cut off by a reload, so it counts
+    as failed until a row confirms it.
+  - A moderator's deletion always wins: the row comes back with deleted_at and no content,
+    and live deletions arrive as row updates over Realtime.
+  - Replies store a short quote of the original in `reply_to`. The quote is written by the
+    sender's app, so it is checked when read and shown as removed once the original is deleted.
+*/
+
+// A global_messages row as the client sees it (see the SQL in lib/supabase)
+export interface GlobalMessageRow {
+  id: number;
+  client_id: string | null;
+  content: string | null;
+  sender_id: string;
+  sender_name: string;
+  sender_profile: UserProfile | null;
+  room: string;
+  reply_to: unknown; // Written by the sender's app; checked by parseReplyInfo
+  deleted_at: string | null;
+  created_at: string;
+}
+
+export const newClientMessageId = () => crypto.randomUUID();
+
+export const toReplyInfo = (message: Message): ReplyInfo => ({
+  id: message.id,
+  text: (message.text || '').slice(0, GLOBAL_REPLY_QUOTE_LENGTH),
+  senderName: message.senderName || 'Stranger'
+});
+
+export const parseReplyInfo = (value: any): ReplyInfo | undefined =>
+  value && typeof value.id === 'string' && typeof value.text === 'string' && typeof value.senderName === 'string'
+    ? { id: value.id, text: value.text.slice(0, GLOBAL_REPLY_QUOTE_LENGTH), senderName: value.senderName }
+    : undefined;
+
+export const rowToMessage = (row: GlobalMessageRow, myPeerId: string | null): Message => ({
+  id: row.client_id || row.id.toString(),
+  text: row.deleted_at ? undefined : row.content ?? undefined,
+  isDeleted: row.deleted_at ? true : undefined,
+  replyTo: row.deleted_at ? undefined : parseReplyInfo(row.reply_to),
+  sender: row.sender_id === myPeerId ? 'me' : 'stranger',
+  senderName: row.sender_name,
+  senderPeerId: row.sender_id,
+  senderProfile: row.sender_profile ?? undefined,
+  timestamp: new Date(row.created_at).getTime(),
+  type: 'text'
+});
+
+const toDeleted = (message: Message): Message => ({ ...message, text: undefined, isDeleted: true, sendState: undefined, replyTo: undefined });
+
+// Deletions win, then confirmed copies replace unconfirmed ones; otherwise the copy we already have stays
+const pickCopy = (current: Message, incoming: Message) => {
+  if (incoming.isDeleted && !current.isDeleted) return toDeleted(current);
+  return current.sendState && !incoming.sendState ? { ...current, sendState: undefined } : current;
+};
+
+// Oldest -> newest, one copy per ID. Returns `current` itself when nothing changed.
+export const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  if (incoming.length === 0) return current;
+  const byId = new Map(current.map(m => [m.id, m]));
+  let changed = false;
+  incoming.forEach(message => {
+    const existing = byId.get(message.id);
+    const next = existing ? pickCopy(existing, message) : message;
+    if (next !== existing) {
+      byId.set(message.id, next);
+      changed = true;
+    }
+  });
+  if (!changed) return current;
+  return [...byId.values()].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const updateSendState = (messages: Message[], id: string, from: SendState | undefined, to: SendState | undefined): Message[] => {
+  const index = messages.findIndex(m => m.id === id);
+  if (index === -1 || messages[index].sendState !== from) return messages;
+  const next = [...messages];
+  next[index] = { ...messages[index], sendState: to };
+  return next;
+};
+
+// Only unconfirmed messages move: a row that already came back stays confirmed
+export const confirmSend = (messages: Message[], id: string) =>
+  updateSendState(updateSendState(messages, id, 'failed', undefined), id, 'pending', undefined);
+export const failSend = (messages: Message[], id: string) => updateSendState(messages, id, 'pending', 'failed');
+export const retrySend = (messages: Message[], id: string) => updateSendState(messages, id, 'failed', 'pending');
+
+export const applyDeletion = (messages: Message[], id: string): Message[] => {
+  const index = messages.findIndex(m => m.id === id);
+  if (index === -1 || messages[index].isDeleted) return messages;
+  const next = [...messages];
+  next[index] = toDeleted(messages[index]);
+  return next;
+};
+
+// What the device cache needs to be rewritten for
+export const cacheSignature = (message: Message) => `${message.sendState ?? ''}:${message.isDeleted ? 'deleted' : ''}`;
+
+export const restoreCached = (messages: Message[]): Message[] =>
+  messages.map(m => m.sendState === 'pending' ? { ...m, sendState: 'failed' } : m);
@@ -0,0 +1,52 @@
+import { ICE_SERVERS } from '../constants';
+
+export interface IceConfig {
+  rtc: RTCConfiguration;
+  source: 'server' | 'default'; // 'default' when /api/turn is unreachable (e.g. plain `vite` dev server)
+  hasTurn: boolean;
+  expiresAt: number | null; // When the TURN credentials run out
+  error?: string; // Why /api/turn couldn't be used, for the diagnostics
+}
+
+// How long to wait for /api/turn before starting with the built-in STUN list
+const FETCH_TIMEOUT_MS = 3000;
+
+export const DEFAULT_ICE_CONFIG: IceConfig = { rtc: { iceServers: ICE_SERVERS }, source: 'default', hasTurn: false, expiresAt: null };
+
+const toUrls = (server: RTCIceServer) => Array.isArray(server.urls) ? server.urls : [server.urls];
+
+export const isTurnServer = (server: RTCIceServer) => toUrls(server).some(url => /^turns?:/.test(url));
+
+const isIceServer = (value: unknown): value is RTCIceServer => {
+  const server = value as RTCIceServer;
+  return !!server && (typeof server.urls === 'string' || (Array.isArray(server.urls) && server.urls.every(u => typeof u === 'string')));
+};
+
+// Connections still start on the built-in STUN list, but the reason is kept and logged: a relay
+// that is configured and unusable looks just like one that isn't configured otherwise
+const fallBack = (error: string): IceConfig => {
+  console.warn(`Using built-in ICE servers: ${error}`);
+  return { ...DEFAULT_ICE_CONFIG, error };
+};
+
+export const fetchIceConfig = async (): Promise<IceConfig> => {
+  try {
+    const res = await fetch('/api/turn', { cache: 'no-store', signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+    if (!res.ok) {
+      const body = await res.json().catch(() => null);
+      return fallBack(`/api/turn answered ${res.status}${typeof body?.error === 'string' ? `: ${body.error}` : ''}`);
+    }
+    const data = await res.json();
+    if (!Array.isArray(data?.iceServers) || !data.iceServers.length || !data.iceServers.every(isIceServer)) return fallBack('/api/turn sent no usable ICE servers');
+
+    const iceServers = data.iceServers as RTCIceServer[];
+    return {
+      rtc: { iceServers, iceTransportPolicy: data.iceTransportPolicy === 'relay' ? 'relay' : 'all' },
+      source: 'server',
+      hasTurn: iceServers.some(isTurnServer),
+      expiresAt: typeof data.expiresAt === 'number' ? data.expiresAt : null
+    };
+  } catch (e) {
+    return fallBack('/api/turn is unreachable');
+  }
+};
@@ -0,0 +1,103 @@
+import { ConnectionRoute, IceCandidateType } from '../types';
+
+const CANDIDATE_TYPES: IceCandidateType[] = ['host', 'srflx', 'prflx', 'relay'];
+
+const toCandidateType = (value: unknown): IceCandidateType | null =>
+  CANDIDATE_TYPES.includes(value as IceCandidateType) ? value as IceCandidateType : null;
+
+export const describeCandidateType = (type: IceCandidateType) => ({
+  host: 'Direct (same network)',
+  srflx: 'Direct through NAT (STUN)',
+  prflx: 'Direct through NAT',
+  relay: 'Relayed (TURN)',
+}[type]);
+
+// The candidate pair ICE settled on, or null if there isn't one (yet)
+export const getSelectedRoute = async (pc?: RTCPeerConnection | null): Promise<ConnectionRoute | null> => {
+  if (!pc) return null;
+  try {
+    const stats = await pc.getStats();
+    let pairId: string | undefined;
+    stats.forEach(report => {
+      if (report.type === 'transport' && report.selectedCandidatePairId) pairId = report.selectedCandidatePairId;
+    });
+    // Firefox has no transport stats; fall back to the nominated pair that succeeded
+    if (!pairId) {
+      stats.forEach(report => {
+        if (report.type === 'candidate-pair' && report.state === 'succeeded' && report.nominated) pairId = report.id;
+      });
+    }
+    const pair = pairId ? stats.get(pairId) : undefined;
+    const local = pair && stats.get(pair.localCandidateId);
+    const remote = pair && stats.get(pair.remoteCandidateId);
+    const localType = toCandidateType(local?.candidateType);
+    const remoteType = toCandidateType(remote?.candidateType);
+    if (!localType || !remoteType) return null;
+    return { local: localType, remote: remoteType, protocol: local.protocol || 'udp' };
+  } catch (e) {
+    return null;
+  }
+};
+
+// Our own candidate types gathered so far on a connection
+const getLocalCandidateTypes = async (pc: RTCPeerConnection): Promise<Set<IceCandidateType>> => {
+  const types = new Set<IceCandidateType>();
+  try {
+    (await pc.getStats()).forEach(report => {
+      const type = report.type === 'local-candidate' ? toCandidateType(report.candidateType) : null;
+      if (type) types.add(type);
+    });
+  } catch (e) {}
+  return types;
+};
+
+// A best guess, in words, at why a connection never opened
+export const describeConnectFailure = async (pc: RTCPeerConnection | null | undefined, hasTurn: boolean): Promise<string> => {
+  if (!pc || pc.signalingState === 'have-local-offer') return 'The other side never answered (they may have left or be offline)';
+
+  const localTypes = await getLocalCandidateTypes(pc);
+  if (localTypes.size === 0) return 'No network candidates were gathered; check your connection or browser privacy settings';
+  if (pc.iceConnectionState === 'new') return 'The other side never sent network candidates';
+
+  if (!localTypes.has('relay')) {
+    return hasTurn
+      ? 'No direct route was found and the TURN relay could not be reached (it may be blocked by a firewall)'
+      : 'No direct route was found (likely a strict NAT or firewall) and no TURN relay is configured';
+  }
+  return 'No route worked, not even through the TURN relay';
+};
+
+export interface GatheringResult {
+  types: IceCandidateType[];
+  error?: string;
+}
+
+// Gathers our own candidates against an ICE config without connecting to anyone, to show
+// whether STUN and TURN are reachable from this network
+export const testIceGathering = (config: RTCConfiguration, timeoutMs = 5000): Promise<GatheringResult> => new Promise(resolve => {
+  const types = new Set<IceCandidateType>();
+  let pc: RTCPeerConnection;
+  try {
+    pc = new RTCPeerConnection(config);
+  } catch (e) {
+    resolve({ types: [], error: 'This browser could not create a peer connection' });
+    return;
+  }
+
+  const finish = (error?: string) => {
+    clearTimeout(timer);
+    pc.close();
+    resolve({ types: CANDIDATE_TYPES.filter(t => types.has(t)), error });
+  };
+  const timer = setTimeout(() => finish(), timeoutMs);
+
+  pc.onicecandidate = event => {
+    if (!event.candidate) return finish();
+    const type = toCandidateType(event.candidate.type);
+    if (type) types.add(type);
+  };
+  pc.createDataChannel('diagnostics');
+  pc.createOffer()
+    .then(offer => pc.setLocalDescription(offer))
+    .catch(() => finish('Could not start ICE gathering'));
+});
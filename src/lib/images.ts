@@ -0,0 +1,25 @@
+import { blobToDataUrl } from './fileTransfer';
+
+// Default cap on the longest side of a photo, for faster P2P transfer
+const MAX_IMAGE_DIMENSION = 800;
+
+// Reads a picked photo as a data URL. Unless fullResolution is set it is
+// shrunk to 800px and re-encoded as JPEG 0.6, like it always was.
+export const prepareImage = async (file: File, fullResolution = false): Promise<string> => {
+  const original = await blobToDataUrl(file);
+  if (fullResolution) return original;
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width * scale;
+      canvas.height = img.height * scale;
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.6));
+    };
+    img.onerror = () => reject(new Error('Could not read image'));
+    img.src = original;
+  });
+};
@@ -0,0 +1,51 @@
+import { MatchPreferences, UserProfile } from '../types';
+
+export type MatchApiResult =
+  | { status: 'waiting' }
+  | { status: 'matched'; partnerPeerId: string; initiator: boolean };
+
+// The server hands out a secret with our queue ticket; polling and leaving need it
+const ticketTokens = new Map<string, string>();
+
+// Asks the matchmaking endpoint for a partner. Returns null if the endpoint is
+// unreachable (e.g. plain `vite` dev server), so callers can fall back to presence matching.
+export const requestMatch = async (
+  peerId: string,
+  profile: UserProfile | null,
+  preferences?: MatchPreferences,
+  exclude: string[] = [],
+  blockedUids: string[] = []
+): Promise<MatchApiResult | null> => {
+  try {
+    const res = await fetch('/api/match', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'search', peerId, token: ticketTokens.get(peerId), profile, preferences, exclude, blockedUids })
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    if (typeof data?.token === 'string') ticketTokens.set(peerId, data.token);
+    if (data?.status === 'matched' && typeof data.partnerPeerId === 'string') {
+      return { status: 'matched', partnerPeerId: data.partnerPeerId, initiator: !!data.initiator };
+    }
+    if (data?.status === 'waiting') return { status: 'waiting' };
+    return null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const leaveMatchQueue = (peerId: string) => {
+  const token = ticketTokens.get(peerId);
+  if (!token) return; // We never got a ticket
+  ticketTokens.delete(peerId);
+  try {
+    // keepalive so the ticket is removed even if the tab is closing
+    fetch('/api/match', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'leave', peerId, token }),
+      keepalive: true
+    }).catch(() => {});
+  } catch (e) {}
+};
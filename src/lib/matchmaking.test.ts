@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { hasCompatibleWaiter } from './matchmaking';
+import { MatchPreferences, PresenceState } from '../types';
+
+const me = { uid: 'me', username: 'Ada', age: '25', gender: 'Female', interests: ['music'], location: 'Goa, India' };
+const open: MatchPreferences = { genders: [], ageBrackets: [], sameStateOnly: false, fallbackAfterMs: null };
+const now = 100_000;
+
+const waiter = (extra: Partial<PresenceState> = {}): PresenceState => ({
+  peerId: 'w1', status: 'waiting', timestamp: now - 1000,
+  profile: { uid: 'w1', username: 'Bo', age: '30', gender: 'Male', interests: ['chess'], location: 'Kerala, India' },
+  preferences: open, ...extra
+});
+
+describe('hasCompatibleWaiter', () => {
+  it('counts a waiter we could be paired with, shared interests or not', () => {
+    expect(hasCompatibleWaiter(me, open, [waiter()], now - 1000, now)).toBe(true);
+  });
+
+  it('ignores waiters whose preferences or video mode rule us out', () => {
+    const waiters = [
+      waiter({ preferences: { ...open, genders: ['Male'] } }),
+      waiter({ preferences: { ...open, videoMode: true } }),
+      waiter({ preferences: {} as MatchPreferences }),
+    ];
+    expect(hasCompatibleWaiter(me, open, waiters, now - 1000, now)).toBe(false);
+    expect(hasCompatibleWaiter(me, { ...open, sameStateOnly: true }, [waiter()], now - 1000, now)).toBe(false);
+  });
+
+  it('counts a waiter once either side has fallen back', () => {
+    const picky = waiter({ preferences: { ...open, genders: ['Male'], fallbackAfterMs: 500 } });
+    expect(hasCompatibleWaiter(me, open, [picky], now - 1000, now)).toBe(true);
+  });
+});
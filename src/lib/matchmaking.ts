@@ -0,0 +1,115 @@
+import { PresenceState, UserProfile, MatchPreferences } from '../types';
+import { COMMON_INTERESTS, INTEREST_MATCH_RELAX_MS, INTEREST_MATCH_MIN_SCORE } from '../constants';
+import { parseProfile } from './protocol';
+
+const normalize = (interest: string) => interest.trim().toLowerCase();
+
+const COMMON_INTEREST_KEYS = new Set(COMMON_INTERESTS.map(normalize));
+
+// Interests both users picked, in the order of the first list (case-insensitive for custom tags)
+export const getSharedInterests = (mine: string[] = [], theirs: string[] = []): string[] => {
+  const theirKeys = new Set(theirs.map(normalize));
+  const seen = new Set<string>();
+  return mine.filter(interest => {
+    const key = normalize(interest);
+    if (!key || seen.has(key) || !theirKeys.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Custom tags are rarer than the preset chips, so sharing one is a stronger signal
+export const scoreInterests = (shared: string[]): number => {
+  return shared.reduce((score, interest) => score + (COMMON_INTEREST_KEYS.has(normalize(interest)) ? 1 : 2), 0);
+};
+
+// The minimum score drops to zero once either side has waited long enough
+export const getRequiredScore = (me: UserProfile, waiter: PresenceState, mySearchStartedAt: number, now: number): number => {
+  if (!me.interests?.length || !waiter.profile?.interests?.length) return 0;
+  const waited = Math.max(now - mySearchStartedAt, now - waiter.timestamp);
+  return waited >= INTEREST_MATCH_RELAX_MS ? 0 : INTEREST_MATCH_MIN_SCORE;
+};
+
+// Profiles store location as "<State>, India"
+export const getProfileState = (profile?: UserProfile): string | null => {
+  const state = profile?.location?.split(',')[0]?.trim();
+  return state || null;
+};
+
+const PREFERENCE_LIMITS = { options: 10, option: 20 };
+
+const isOptionList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= PREFERENCE_LIMITS.options && value.every(o => typeof o === 'string' && o.length <= PREFERENCE_LIMITS.option);
+
+// Preferences from another client (a queue ticket or presence), rebuilt with only known fields; null if malformed
+export const parsePreferences = (value: unknown): MatchPreferences | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { genders, ageBrackets, sameStateOnly, fallbackAfterMs = null, videoMode } = value as Record<string, unknown>;
+  if (!isOptionList(genders) || !isOptionList(ageBrackets) || typeof sameStateOnly !== 'boolean') return null;
+  if (fallbackAfterMs !== null && !(typeof fallbackAfterMs === 'number' && Number.isFinite(fallbackAfterMs) && fallbackAfterMs >= 0)) return null;
+  if (videoMode !== undefined && typeof videoMode !== 'boolean') return null;
+  return { genders, ageBrackets, sameStateOnly, fallbackAfterMs, videoMode };
+};
+
+// One malformed waiter must not break matching for everyone else, so unreadable ones are skipped
+const isReadableWaiter = (waiter: PresenceState) =>
+  (waiter.profile === undefined || !!parseProfile(waiter.profile)) &&
+  (waiter.preferences === undefined || !!parsePreferences(waiter.preferences));
+
+export const satisfiesPreferences = (prefs: MatchPreferences | undefined, owner: UserProfile | undefined, candidate: UserProfile | undefined): boolean => {
+  if (!prefs) return true;
+  if (!candidate) return prefs.genders.length === 0 && prefs.ageBrackets.length === 0 && !prefs.sameStateOnly;
+  if (prefs.genders.length > 0 && !prefs.genders.includes(candidate.gender)) return false;
+  if (prefs.ageBrackets.length > 0 && !prefs.ageBrackets.includes(candidate.age)) return false;
+  if (prefs.sameStateOnly && getProfileState(owner) !== getProfileState(candidate)) return false;
+  return true;
+};
+
+const hasFallenBack = (prefs: MatchPreferences | undefined, waitedMs: number) => {
+  return prefs?.fallbackAfterMs != null && waitedMs >= prefs.fallbackAfterMs;
+};
+
+// Both sides must accept each other, unless that side has waited past its own fallback.
+// Video and text users are never paired, whatever the fallback.
+export const isMutualMatch = (me: UserProfile, myPrefs: MatchPreferences | undefined, waiter: PresenceState, mySearchStartedAt: number, now: number): boolean => {
+  if (!!myPrefs?.videoMode !== !!waiter.preferences?.videoMode) return false;
+  const iAccept = hasFallenBack(myPrefs, now - mySearchStartedAt) || satisfiesPreferences(myPrefs, me, waiter.profile);
+  const theyAccept = hasFallenBack(waiter.preferences, now - waiter.timestamp) || satisfiesPreferences(waiter.preferences, waiter.profile, me);
+  return iAccept && theyAccept;
+};
+
+export interface MatchCandidate {
+  waiter: PresenceState;
+  score: number;
+  sharedInterests: string[];
+}
+
+export const rankWaiters = (me: UserProfile, myPrefs: MatchPreferences | undefined, waiters: PresenceState[], mySearchStartedAt: number, now: number = Date.now()): MatchCandidate[] => {
+  return waiters
+    .filter(isReadableWaiter)
+    .filter(waiter => isMutualMatch(me, myPrefs, waiter, mySearchStartedAt, now))
+    .map(waiter => {
+      const sharedInterests = getSharedInterests(me.interests, waiter.profile?.interests);
+      return { waiter, sharedInterests, score: scoreInterests(sharedInterests) };
+    })
+    .filter(c => c.score >= getRequiredScore(me, c.waiter, mySearchStartedAt, now))
+    .sort((a, b) => b.score - a.score || a.waiter.timestamp - b.waiter.timestamp);
+};
+
+// Whether someone waiting could be paired with us, now or once the interest requirement relaxes
+export const hasCompatibleWaiter = (me: UserProfile, myPrefs: MatchPreferences | undefined, waiters: PresenceState[], mySearchStartedAt: number, now: number = Date.now()): boolean =>
+  waiters.some(waiter => isReadableWaiter(waiter) && isMutualMatch(me, myPrefs, waiter, mySearchStartedAt, now));
+
+// Pick randomly among the best-scoring waiters so that many searchers
+// don't all dial the same person at once.
+export const pickWaiter = (me: UserProfile, myPrefs: MatchPreferences | undefined, waiters: PresenceState[], mySearchStartedAt: number, now: number = Date.now()): MatchCandidate | null => {
+  const ranked = rankWaiters(me, myPrefs, waiters, mySearchStartedAt, now);
+  if (ranked.length === 0) return null;
+  const top = ranked.filter(c => c.score === ranked[0].score);
+  return top[Math.floor(Math.random() * top.length)];
+};
+
+export const formatSharedInterests = (shared: string[]): string | null => {
+  if (shared.length === 0) return null;
+  return `You both like ${shared.join(', ')}`;
+};
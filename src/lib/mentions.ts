@@ -0,0 +1,83 @@
+import { RoomMember } from '../types';
+
+/*
+  @mentions in Global Meet.
+  - A mention is `@` plus a username, at the start of the text or after whitespace. Usernames
+    may contain spaces, so mentions are found by matching known names rather than by splitting
+    on spaces; the longest name wins when one is a prefix of another.
+  - Autocomplete looks back from the caret for an `@` that starts a mention and offers the
+    people in the current room whose name starts with what was typed after it.
+*/
+
+export interface MentionQuery {
+  start: number; // Index of the '@'
+  query: string; // Typed so far, without the '@'
+}
+
+export interface TextSegment {
+  text: string;
+  mention?: string; // The username, for '@username' segments
+}
+
+const MAX_QUERY_LENGTH = 30;
+const MAX_SUGGESTIONS = 5;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isBoundary = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+// A name ends a mention when the next character can't be part of a longer word
+const endsMention = (char: string | undefined) => char === undefined || !/[\p{L}\p{N}_]/u.test(char);
+
+export const findMentionQuery = (text: string, caret: number): MentionQuery | null => {
+  const start = text.lastIndexOf('@', caret - 1);
+  if (start === -1 || !isBoundary(text[start - 1])) return null;
+  const query = text.slice(start + 1, caret);
+  if (query.length > MAX_QUERY_LENGTH || /[@\n]/.test(query) || query.startsWith(' ')) return null;
+  return { start, query };
+};
+
+export const suggestMentions = (members: RoomMember[], query: string): RoomMember[] => {
+  const wanted = query.toLowerCase();
+  const seen = new Set<string>();
+  return members
+    .filter(m => {
+      const name = m.username.toLowerCase();
+      if (!name.startsWith(wanted) || seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    })
+    .sort((a, b) => a.username.length - b.username.length || a.username.localeCompare(b.username))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+// Replaces the query with the full mention; returns the new text and where the caret goes
+export const insertMention = (text: string, caret: number, mention: MentionQuery, username: string) => {
+  const inserted = `@${username} `;
+  const after = text.slice(caret).replace(/^ /, '');
+  return { text: text.slice(0, mention.start) + inserted + after, caret: mention.start + inserted.length };
+};
+
+// Splits text into plain runs and mentions of any of `names` (case-insensitive)
+export const splitMentions = (text: string, names: string[]): TextSegment[] => {
+  const candidates = [...new Set(names.map(n => n.trim()).filter(Boolean))].sort((a, b) => b.length - a.length);
+  if (candidates.length === 0 || !text.includes('@')) return [{ text }];
+
+  const pattern = new RegExp(`@(${candidates.map(escapeRegExp).join('|')})`, 'giu');
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index!;
+    const end = index + match[0].length;
+    if (!isBoundary(text[index - 1]) || !endsMention(text[end])) continue;
+    if (index > last) segments.push({ text: text.slice(last, index) });
+    const username = candidates.find(n => n.toLowerCase() === match[1].toLowerCase()) || match[1];
+    segments.push({ text: match[0], mention: username });
+    last = end;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last) });
+  return segments;
+};
+
+export const mentionsUser = (text: string | undefined, username: string | undefined) =>
+  !!text && !!username && splitMentions(text, [username]).some(s => s.mention !== undefined);
@@ -0,0 +1,385 @@
+import { Message, MessageStatus, UserProfile, Friend, RecentPeer } from '../types';
+import { GENERAL_ROOM_ID } from '../constants';
+import { blobToDataUrl } from './fileTransfer';
+
+/*
+  Chat history in IndexedDB.
+  - 'messages' holds one record per message, keyed by [conversationId, id] and indexed by
+    [conversationId, timestamp], so a reaction or edit rewrites a single record.
+  - Media lives in 'media' as Blobs under the same key. Reads hand it back as an object URL
+    in `fileData`, so the rest of the app keeps treating it as a URL.
+  - 'lists' holds the small collections (friends, recent peers) as one record each.
+  - The first open moves the old localStorage keys over and then deletes them.
+  - Updates are announced to subscribers, so a receipt saved by the chat hook reaches an
+    open conversation view.
+  - When the browser runs out of quota, the media of the oldest messages is dropped (their
+    text and file details stay) and the write is retried once.
+*/
+
+export const GLOBAL_CONVERSATION_ID = 'global';
+
+const DB_NAME = 'chat_store';
+const DB_VERSION = 1;
+const EVICT_FRACTION = 0.25; // Share of stored media dropped per quota error
+
+// Old localStorage keys, removed once migrated
+const LEGACY_HISTORY_PREFIX = 'chat_history_';
+const LEGACY_UID_HISTORY_PREFIX = 'chat_history_uid_';
+const LEGACY_GLOBAL_KEY = 'global_meet_messages';
+const LEGACY_LIST_KEYS: Record<ListKey, string> = { friends: 'chat_friends', recent_peers: 'recent_peers' };
+
+interface ListTypes {
+  friends: Friend;
+  recent_peers: RecentPeer;
+}
+export type ListKey = keyof ListTypes;
+
+interface MessageRecord {
+  conversationId: string;
+  id: string;
+  timestamp: number;
+  message: Message; // Without fileData
+  hasMedia: boolean;
+}
+
+interface MediaRecord {
+  conversationId: string;
+  id: string;
+  blob: Blob;
+}
+
+// Uses the UID when there is one so the history survives the peer's session ID changing
+export const conversationIdFor = (peerId: string, profile?: Pick<UserProfile, 'uid'>) =>
+  profile?.uid ? `uid:${profile.uid}` : `peer:${peerId}`;
+
+// The default room keeps the history stored before rooms existed
+export const roomConversationId = (roomId: string) =>
+  roomId === GENERAL_ROOM_ID ? GLOBAL_CONVERSATION_ID : `room:${roomId}`;
+
+// Private chats, as opposed to Global Meet rooms
+export const isDirectConversationId = (id: string) => /^(uid|peer):./.test(id);
+
+// --- HELPERS ---
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+});
+
+const conversationRange = (conversationId: string) => IDBKeyRange.bound([conversationId, -Infinity], [conversationId, Infinity]);
+
+// fileTransfer's dataUrlToBlob is async, and the migration has to finish inside the upgrade
+// transaction, so records are split with this synchronous decoder
+const dataUrlToBlobSync = (dataUrl: string): Blob | null => {
+  const match = /^data:([^;,]*)(;base64)?,(.*)$/s.exec(dataUrl);
+  if (!match) return null;
+  try {
+    const [, mimeType, isBase64, data] = match;
+    const bytes = isBase64 ? Uint8Array.from(atob(data), c => c.charCodeAt(0)) : new TextEncoder().encode(decodeURIComponent(data));
+    return new Blob([bytes], { type: mimeType || 'application/octet-stream' });
+  } catch (e) {
+    return null;
+  }
+};
+
+// One object URL per stored blob for the lifetime of the page
+const mediaUrls = new Map<string, string>();
+const mediaKey = (conversationId: string, id: string) => `${conversationId}/${id}`;
+
+const getMediaUrl = (media: MediaRecord) => {
+  const key = mediaKey(media.conversationId, media.id);
+  let url = mediaUrls.get(key);
+  if (!url) {
+    url = URL.createObjectURL(media.blob);
+    mediaUrls.set(key, url);
+  }
+  return url;
+};
+
+const revokeMediaUrl = (conversationId: string, id: string) => {
+  const key = mediaKey(conversationId, id);
+  const url = mediaUrls.get(key);
+  if (url) URL.revokeObjectURL(url);
+  mediaUrls.delete(key);
+};
+
+// Splits a message into its record and, for data URLs, a media blob. Object URLs we handed out
+// earlier point at media that is already stored.
+const toRecords = (conversationId: string, message: Message): { record: MessageRecord, media: MediaRecord | null } => {
+  const { fileData, ...rest } = message;
+  const blob = fileData?.startsWith('data:') ? dataUrlToBlobSync(fileData) : null;
+  return {
+    record: { conversationId, id: message.id, timestamp: message.timestamp, message: rest, hasMedia: !!fileData },
+    media: blob ? { conversationId, id: message.id, blob } : null
+  };
+};
+
+const isQuotaError = (error: unknown) => error instanceof DOMException && error.name === 'QuotaExceededError';
+
+// --- MIGRATION ---
+
+const readLegacy = <T>(key: string): T[] => {
+  try {
+    const value = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(value) ? value : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const legacyConversationId = (key: string) => {
+  if (key === LEGACY_GLOBAL_KEY) return GLOBAL_CONVERSATION_ID;
+  if (key.startsWith(LEGACY_UID_HISTORY_PREFIX)) return `uid:${key.slice(LEGACY_UID_HISTORY_PREFIX.length)}`;
+  if (key.startsWith(LEGACY_HISTORY_PREFIX)) return `peer:${key.slice(LEGACY_HISTORY_PREFIX.length)}`;
+  return null;
+};
+
+// Runs inside the version change transaction, so it either moves everything or nothing
+const migrateLocalStorage = (tx: IDBTransaction): string[] => {
+  const migrated: string[] = [];
+  const messages = tx.objectStore('messages');
+  const media = tx.objectStore('media');
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    const conversationId = key && legacyConversationId(key);
+    if (!key || !conversationId) continue;
+    readLegacy<Message>(key).forEach(message => {
+      if (!message?.id || typeof message.timestamp !== 'number') return;
+      const records = toRecords(conversationId, message);
+      messages.put(records.record);
+      if (records.media) media.put(records.media);
+    });
+    migrated.push(key);
+  }
+
+  (Object.keys(LEGACY_LIST_KEYS) as ListKey[]).forEach(list => {
+    const key = LEGACY_LIST_KEYS[list];
+    if (localStorage.getItem(key) === null) return;
+    tx.objectStore('lists').put({ key: list, value: readLegacy(key) });
+    migrated.push(key);
+  });
+  return migrated;
+};
+
+// --- DATABASE ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    let migratedKeys: string[] = [];
+
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const messages = db.createObjectStore('messages', { keyPath: ['conversationId', 'id'] });
+      messages.createIndex('conversation', ['conversationId', 'timestamp']);
+      messages.createIndex('timestamp', 'timestamp');
+      db.createObjectStore('media', { keyPath: ['conversationId', 'id'] });
+      db.createObjectStore('lists', { keyPath: 'key' });
+      if (event.oldVersion === 0) migratedKeys = migrateLocalStorage(req.transaction!);
+    };
+    req.onsuccess = () => {
+      // Only drop the old copies once the upgrade has committed
+      migratedKeys.forEach(key => localStorage.removeItem(key));
+      const db = req.result;
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    req.onerror = () => { dbPromise = null; reject(req.error); };
+    req.onblocked = () => console.warn('Chat storage upgrade is waiting for another tab to close');
+  });
+
+  // Ask the browser not to clear our history under storage pressure (best effort)
+  navigator.storage?.persist?.().catch(() => {});
+  return dbPromise;
+};
+
+// Drops the media of the oldest messages that still have some
+const evictOldestMedia = async (db: IDBDatabase) => {
+  const tx = db.transaction(['messages', 'media'], 'readwrite');
+  const messages = tx.objectStore('messages');
+  const media = tx.objectStore('media');
+  const withMedia = (await request(messages.index('timestamp').getAll()) as MessageRecord[]).filter(r => r.hasMedia);
+  const victims = withMedia.slice(0, Math.max(1, Math.ceil(withMedia.length * EVICT_FRACTION)));
+  victims.forEach(record => {
+    media.delete([record.conversationId, record.id]);
+    messages.put({ ...record, hasMedia: false });
+    revokeMediaUrl(record.conversationId, record.id);
+  });
+  await transactionDone(tx);
+  return victims.length;
+};
+
+// Runs a write, making room once if the browser says we are over quota
+const write = async (stores: string[], run: (tx: IDBTransaction) => void) => {
+  const db = await openDb();
+  const attempt = () => {
+    const tx = db.transaction(stores, 'readwrite');
+    run(tx);
+    return transactionDone(tx);
+  };
+  try {
+    await attempt();
+  } catch (e) {
+    if (!isQuotaError(e) || (await evictOldestMedia(db)) === 0) throw e;
+    console.warn('Chat storage is full; removed media from the oldest messages');
+    await attempt();
+  }
+};
+
+// --- MESSAGES ---
+
+export const getConversation = async (conversationId: string): Promise<Message[]> => {
+  const db = await openDb();
+  const tx = db.transaction(['messages', 'media'], 'readonly');
+  const [records, media] = await Promise.all([
+    request(tx.objectStore('messages').index('conversation').getAll(conversationRange(conversationId))) as Promise<MessageRecord[]>,
+    request(tx.objectStore('media').getAll(IDBKeyRange.bound([conversationId], [conversationId, []]))) as Promise<MediaRecord[]>
+  ]);
+  const mediaById = new Map(media.map(m => [m.id, m]));
+  return records.map(record => {
+    const blob = record.hasMedia ? mediaById.get(record.id) : undefined;
+    return blob ? { ...record.message, fileData: getMediaUrl(blob) } : record.message;
+  });
+};
+
+export const saveMessages = (conversationId: string, messages: Message[]) => {
+  if (messages.length === 0) return Promise.resolve();
+  return write(['messages', 'media'], tx => {
+    messages.forEach(message => {
+      const { record, media } = toRecords(conversationId, message);
+      tx.objectStore('messages').put(record);
+      if (media) tx.objectStore('media').put(media);
+    });
+  });
+};
+
+export const saveMessage = (conversationId: string, message: Message) => saveMessages(conversationId, [message]);
+
+// --- UPDATES ---
+
+// Gets the updated message without fileData
+type UpdateListener = (conversationId: string, message: Message) => void;
+const updateListeners = new Set<UpdateListener>();
+
+export const subscribeToUpdates = (listener: UpdateListener) => {
+  updateListeners.add(listener);
+  return () => { updateListeners.delete(listener); };
+};
+
+// Rewrites one stored message; does nothing if it isn't stored
+export const updateMessage = async (conversationId: string, id: string, update: (message: Message) => Message) => {
+  let updated: Message | null = null;
+  await write(['messages'], tx => {
+    const store = tx.objectStore('messages');
+    const get = store.get([conversationId, id]);
+    get.onsuccess = () => {
+      const record = get.result as MessageRecord | undefined;
+      if (!record) return;
+      const { fileData, ...message } = update(record.message);
+      store.put({ ...record, message });
+      updated = message;
+    };
+  });
+  if (updated) updateListeners.forEach(listener => listener(conversationId, updated!));
+};
+
+const STATUS_ORDER: MessageStatus[] = ['sent', 'delivered', 'seen'];
+
+// Receipts can arrive twice or out of order (P2P and server); a status never goes back
+export const advanceStatus = (message: Message, status: MessageStatus): Message =>
+  STATUS_ORDER.indexOf(status) > STATUS_ORDER.indexOf(message.status || 'sent') ? { ...message, status } : message;
+
+// Keeps only the newest `keep` messages of a conversation
+export const trimConversation = async (conversationId: string, keep: number) => {
+  const db = await openDb();
+  const tx = db.transaction(['messages', 'media'], 'readwrite');
+  const keys = await request(tx.objectStore('messages').index('conversation').getAllKeys(conversationRange(conversationId)));
+  keys.slice(0, Math.max(0, keys.length - keep)).forEach(key => {
+    tx.objectStore('messages').delete(key);
+    tx.objectStore('media').delete(key);
+    const [, id] = key as [string, string];
+    revokeMediaUrl(conversationId, id);
+  });
+  await transactionDone(tx);
+};
+
+// Copies history stored under one conversation ID to another (e.g. once we learn a peer's UID)
+export const copyConversation = async (fromId: string, toId: string) => {
+  await write(['messages', 'media'], tx => {
+    const messages = tx.objectStore('messages');
+    const media = tx.objectStore('media');
+    messages.index('conversation').getAll(conversationRange(fromId)).onsuccess = (event) => {
+      ((event.target as IDBRequest<MessageRecord[]>).result).forEach(record => messages.put({ ...record, conversationId: toId }));
+    };
+    media.getAll(IDBKeyRange.bound([fromId], [fromId, []])).onsuccess = (event) => {
+      ((event.target as IDBRequest<MediaRecord[]>).result).forEach(record => media.put({ ...record, conversationId: toId }));
+    };
+  });
+  return getConversation(toId);
+};
+
+// --- BACKUP ---
+
+export const listConversationIds = async (): Promise<string[]> => {
+  const db = await openDb();
+  const keys = await request(db.transaction('messages', 'readonly').objectStore('messages').getAllKeys());
+  return [...new Set(keys.map(key => (key as [string, string])[0]))];
+};
+
+// Like getConversation, but with media inlined as data URLs so it can leave the browser
+export const exportConversation = async (conversationId: string): Promise<Message[]> => {
+  const db = await openDb();
+  const tx = db.transaction(['messages', 'media'], 'readonly');
+  const [records, media] = await Promise.all([
+    request(tx.objectStore('messages').index('conversation').getAll(conversationRange(conversationId))) as Promise<MessageRecord[]>,
+    request(tx.objectStore('media').getAll(IDBKeyRange.bound([conversationId], [conversationId, []]))) as Promise<MediaRecord[]>
+  ]);
+  const mediaById = new Map(media.map(m => [m.id, m.blob]));
+  return Promise.all(records.map(async record => {
+    const blob = record.hasMedia ? mediaById.get(record.id) : undefined;
+    return blob ? { ...record.message, fileData: await blobToDataUrl(blob) } : record.message;
+  }));
+};
+
+// Adds the messages this conversation doesn't have yet and returns how many that was.
+// Stored messages win, so importing the same archive twice changes nothing.
+export const importMessages = async (conversationId: string, messages: Message[]) => {
+  let added = 0;
+  await write(['messages', 'media'], tx => {
+    added = 0;
+    const store = tx.objectStore('messages');
+    store.getAllKeys(IDBKeyRange.bound([conversationId], [conversationId, []])).onsuccess = (event) => {
+      const existing = new Set(((event.target as IDBRequest<IDBValidKey[]>).result).map(key => (key as [string, string])[1]));
+      messages.forEach(message => {
+        if (existing.has(message.id)) return;
+        existing.add(message.id);
+        const records = toRecords(conversationId, message);
+        store.put(records.record);
+        if (records.media) tx.objectStore('media').put(records.media);
+        added++;
+      });
+    };
+  });
+  return added;
+};
+
+// --- LISTS ---
+
+export const getList = async <K extends ListKey>(key: K): Promise<ListTypes[K][]> => {
+  const db = await openDb();
+  const record = await request(db.transaction('lists', 'readonly').objectStore('lists').get(key));
+  return record?.value || [];
+};
+
+export const saveList = <K extends ListKey>(key: K, value: ListTypes[K][]) =>
+  write(['lists'], tx => { tx.objectStore('lists').put({ key, value }); });
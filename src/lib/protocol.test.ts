@@ -0,0 +1,191 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parsePeerData, parseProfile, negotiateVersion, readFrame, readSealedFrame } from './protocol';
+import { sealPeerData, openPeerData } from './e2e';
+import { MESSAGE_MAX_LENGTH, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, TRANSFER_CHUNK_BYTES } from '../constants';
+
+const profile = { username: 'sam', age: '25', gender: 'Other', interests: ['music'], location: 'Goa' };
+
+const malformed = { ok: false, reason: 'malformed' };
+
+describe('parsePeerData', () => {
+  it('rejects anything that is not a typed object', () => {
+    [null, undefined, 42, 'message', [], [{ type: 'message' }], {}, { type: 7 }, { payload: 'hi' }]
+      .forEach(frame => expect(parsePeerData(frame)).toEqual(malformed));
+  });
+
+  it('reports types it does not know without calling them malformed', () => {
+    expect(parsePeerData({ type: 'hologram', payload: {} })).toEqual({ ok: false, reason: 'unknown_type' });
+  });
+
+  it('does not treat inherited properties as frame types', () => {
+    ['toString', 'constructor', '__proto__', 'hasOwnProperty'].forEach(type =>
+      expect(parsePeerData({ type })).toEqual({ ok: false, reason: 'unknown_type' }));
+  });
+
+  it('accepts a text message and drops fields the type does not use', () => {
+    const result = parsePeerData({ type: 'message', dataType: 'text', payload: 'hello', id: 'm1', isVanish: true, extra: 'x', senderId: 'spoofed' });
+    expect(result).toEqual({ ok: true, data: { type: 'message', dataType: 'text', payload: 'hello', id: 'm1', isVanish: true, replyTo: undefined, expiryDuration: undefined } });
+  });
+
+  it('rejects text over MESSAGE_MAX_LENGTH', () => {
+    expect(parsePeerData({ type: 'message', dataType: 'text', payload: 'a'.repeat(MESSAGE_MAX_LENGTH) }).ok).toBe(true);
+    expect(parsePeerData({ type: 'message', dataType: 'text', payload: 'a'.repeat(MESSAGE_MAX_LENGTH + 1) })).toEqual(malformed);
+    expect(parsePeerData({ type: 'edit_message', messageId: 'm1', payload: 'a'.repeat(MESSAGE_MAX_LENGTH + 1) })).toEqual(malformed);
+  });
+
+  it('rejects messages with mistyped fields', () => {
+    [
+      { type: 'message', dataType: 'text', payload: 42 },
+      { type: 'message', dataType: 'text', payload: 'hi', id: '' },
+      { type: 'message', dataType: 'text', payload: 'hi', id: 'x'.repeat(65) },
+      { type: 'message', dataType: 'text', payload: 'hi', isVanish: 'yes' },
+      { type: 'message', dataType: 'text', payload: 'hi', expiryDuration: -1 },
+      { type: 'message', dataType: 'text', payload: 'hi', expiryDuration: 1.5 },
+      { type: 'message', dataType: 'text', payload: 'hi', expiryDuration: 25 * 60 * 60 * 1000 },
+      { type: 'message', dataType: 'text', payload: 'hi', replyTo: 'm0' },
+      { type: 'message', dataType: 'text', payload: 'hi', replyTo: { id: 'm0', text: 'quoted' } },
+      { type: 'message', dataType: 'video', payload: 'data:video/mp4;base64,AAAA' },
+      { type: 'message', dataType: 'image', payload: 'https://example.com/tracker.png' },
+    ].forEach(frame => expect(parsePeerData(frame)).toEqual(malformed));
+  });
+
+  it('keeps a valid reply and inline media from older clients', () => {
+    const reply = parsePeerData({ type: 'message', dataType: 'text', payload: 'yes', replyTo: { id: 'm0', text: 'really?', senderName: 'sam' } });
+    expect(reply.ok && reply.data.replyTo).toEqual({ id: 'm0', text: 'really?', senderName: 'sam' });
+    expect(parsePeerData({ type: 'message', dataType: 'image', payload: 'data:image/png;base64,AAAA' }).ok).toBe(true);
+  });
+
+  it('validates profiles carried by the handshake and friend frames', () => {
+    expect(parsePeerData({ type: 'profile', payload: profile, keyShare: 'abc', version: 1 }).ok).toBe(true);
+    [
+      { type: 'profile', payload: { ...profile, username: '' } },
+      { type: 'profile', payload: { ...profile, interests: 'music' } },
+      { type: 'profile', payload: profile, keyShare: 'k'.repeat(129) },
+      { type: 'profile', payload: profile, version: -1 },
+      { type: 'profile', payload: profile, version: '1' },
+      { type: 'friend_request', payload: { ...profile, uid: 42 } },
+      { type: 'friend_accept', payload: null },
+      { type: 'profile_update', payload: [profile] },
+    ].forEach(frame => expect(parsePeerData(frame)).toEqual(malformed));
+  });
+
+  it('rejects control frames with the wrong payload type', () => {
+    [
+      { type: 'typing', payload: 'true' },
+      { type: 'recording' },
+      { type: 'vanish_mode', payload: 1 },
+      { type: 'ping', payload: Infinity },
+      { type: 'pong', payload: '123' },
+      { type: 'reaction', messageId: 'm1', payload: '' },
+      { type: 'reaction', messageId: 'm1', payload: '👍'.repeat(9) },
+      { type: 'delivered' },
+      { type: 'seen', messageId: 7 },
+      { type: 'call_request' },
+      { type: 'call_decline', id: 'c1', payload: 'rude' },
+      { type: 'file_cancel', messageId: 'm1', payload: 'because' },
+    ].forEach(frame => expect(parsePeerData(frame)).toEqual(malformed));
+  });
+
+  it('bounds file chunks and encrypted frames', () => {
+    expect(parsePeerData({ type: 'file_chunk', messageId: 'm1', payload: { index: 0, data: new ArrayBuffer(8) } }).ok).toBe(true);
+    [
+      { type: 'file_chunk', messageId: 'm1', payload: { index: -1, data: new ArrayBuffer(8) } },
+      { type: 'file_chunk', messageId: 'm1', payload: { index: 0, data: 'AAAA' } },
+      { type: 'file_chunk', messageId: 'm1', payload: { index: 0, data: new ArrayBuffer(TRANSFER_CHUNK_BYTES + 1) } },
+      { type: 'file_start', id: 'f1', dataType: 'file', payload: { mimeType: 'text/plain', size: 10, chunkCount: 5, sha256: 'x' } },
+      { type: 'encrypted', payload: { iv: new Uint8Array(8), data: new Uint8Array(16) } },
+      { type: 'encrypted', payload: { iv: 'iv', data: 'data' } },
+    ].forEach(frame => expect(parsePeerData(frame)).toEqual(malformed));
+    expect(parsePeerData({ type: 'encrypted', payload: { iv: new Uint8Array(12), data: new Uint8Array(16) } }).ok).toBe(true);
+  });
+});
+
+describe('parseProfile', () => {
+  it('fills a missing location and rejects oversized fields', () => {
+    expect(parseProfile({ ...profile, location: undefined })?.location).toBe('');
+    expect(parseProfile({ ...profile, username: 'x'.repeat(41) })).toBeNull();
+    expect(parseProfile({ ...profile, interests: Array(21).fill('a') })).toBeNull();
+  });
+});
+
+describe('negotiateVersion', () => {
+  it('speaks the lower version and refuses peers that are too old', () => {
+    expect(negotiateVersion(PROTOCOL_VERSION + 5)).toBe(PROTOCOL_VERSION);
+    expect(negotiateVersion(MIN_PROTOCOL_VERSION)).toBe(MIN_PROTOCOL_VERSION);
+    expect(negotiateVersion(undefined)).toBeNull();
+    expect(negotiateVersion(MIN_PROTOCOL_VERSION - 1)).toBeNull();
+  });
+});
+
+// The path a frame takes from conn.on('data') to the chat in useHumanChat
+describe('receiving frames', () => {
+  const sessionKey = () => crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+
+  const receive = async (key: CryptoKey, raw: unknown) => {
+    const frame = readFrame(raw);
+    if (frame?.type !== 'encrypted') return frame;
+    const opened = await openPeerData(key, frame);
+    return opened && readSealedFrame(opened);
+  };
+
+  it('handles cleartext types sent in the clear', async () => {
+    const key = await sessionKey();
+    expect(await receive(key, { type: 'ping', payload: 5 })).toEqual({ type: 'ping', payload: 5 });
+    expect(await receive(key, { type: 'profile', payload: profile, keyShare: 'share', version: PROTOCOL_VERSION })).toMatchObject({ type: 'profile' });
+  });
+
+  it('drops private types sent in the clear', async () => {
+    const key = await sessionKey();
+    const frames = [
+      { type: 'message', dataType: 'text', payload: 'hi' },
+      { type: 'friend_request', payload: profile },
+      { type: 'friend_accept', payload: profile },
+      { type: 'call_request', id: 'c1' },
+    ];
+    for (const frame of frames) expect(await receive(key, frame)).toBeNull();
+  });
+
+  it('handles private types once they are opened', async () => {
+    const key = await sessionKey();
+    const message = { type: 'message' as const, dataType: 'text' as const, payload: 'hi', id: 'm1' };
+    expect(await receive(key, await sealPeerData(key, message))).toMatchObject(message);
+    expect(await receive(key, await sealPeerData(key, { type: 'friend_request', payload: profile }))).toMatchObject({ type: 'friend_request' });
+  });
+
+  it('checks the frame inside an envelope like any other', async () => {
+    const key = await sessionKey();
+    const malformed = [
+      { type: 'message', dataType: 'text', payload: 'a'.repeat(MESSAGE_MAX_LENGTH + 1) },
+      { type: 'friend_request', payload: { ...profile, uid: 42 } },
+      { type: 'hologram', payload: {} },
+    ];
+    for (const frame of malformed) expect(await receive(key, await sealPeerData(key, frame as never))).toBeNull();
+  });
+
+  it('refuses cleartext types and nested envelopes inside an envelope', async () => {
+    const key = await sessionKey();
+    expect(await receive(key, await sealPeerData(key, { type: 'profile', payload: profile, keyShare: 'share' }))).toBeNull();
+    expect(await receive(key, await sealPeerData(key, { type: 'disconnect' }))).toBeNull();
+    expect(readSealedFrame(await sealPeerData(key, { type: 'ping', payload: 1 }))).toBeNull();
+  });
+
+  it('drops envelopes sealed under another key', async () => {
+    const sealed = await sealPeerData(await sessionKey(), { type: 'message', dataType: 'text', payload: 'hi' });
+    expect(await receive(await sessionKey(), sealed)).toBeNull();
+  });
+
+  it('reports malformed frames but not unknown types', () => {
+    const onMalformed = vi.fn();
+    readFrame({ type: 'hologram' }, onMalformed);
+    expect(onMalformed).not.toHaveBeenCalled();
+    readFrame({ type: 'ping', payload: 'soon' }, onMalformed);
+    readSealedFrame({ type: 'message', dataType: 'text', payload: 7 }, onMalformed);
+    expect(onMalformed).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets a handshake without a version through so the profile handler can refuse it', async () => {
+    const handshake = await receive(await sessionKey(), { type: 'profile', payload: profile, keyShare: 'share' });
+    expect(handshake?.version).toBeUndefined();
+    expect(negotiateVersion(handshake?.version)).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { PeerData, UserProfile, ReplyInfo, MessageType } from '../types';
+import { MESSAGE_MAX_LENGTH, PROTOCOL_VERSION, MIN_PROTOCOL_VERSION, TRANSFER_CHUNK_BYTES } from '../constants';
+import { isValidManifest } from './fileTransfer';
+
+/*
+  Runtime validation for everything a peer sends us. Peers are untrusted, so each frame is
+  checked against its type's rules and rebuilt with only the fields that type uses; anything
+  oversized or mistyped is dropped before it reaches the chat.
+  - The 'profile' handshake carries `version`. Both sides speak the lower of the two versions
+    and close the connection if it is older than MIN_PROTOCOL_VERSION. Peers from before
+    versioning send no version and get no compatibility path: they predate the encrypted
+    handshake too, so there is nothing private we could exchange with them.
+  - Types we don't know (from a newer peer) are reported as 'unknown_type' so the caller can
+    skip them without treating the peer as misbehaving.
+  - Only CLEARTEXT_TYPES may arrive unencrypted; everything else has to come sealed in an
+    'encrypted' frame (see lib/e2e), which readFrame and readSealedFrame enforce.
+*/
+
+export type ParseResult =
+  | { ok: true; data: PeerData }
+  | { ok: false; reason: 'unknown_type' | 'malformed' };
+
+// --- LIMITS ---
+const ID_MAX_LENGTH = 64;
+const KEY_MAX_LENGTH = 128; // Base64 of a raw P-256 point is 88
+const REACTION_MAX_LENGTH = 16;
+const EXPIRY_MAX_MS = 24 * 60 * 60 * 1000;
+const INLINE_MEDIA_MAX_LENGTH = 2 * 1024 * 1024; // Data URLs from clients that predate chunked transfers
+const ENCRYPTED_MAX_BYTES = INLINE_MEDIA_MAX_LENGTH + 64 * 1024;
+const PROFILE_LIMITS = { username: 40, age: 16, gender: 20, location: 60, interests: 20, interest: 40 };
+
+// --- FIELD CHECKS ---
+type Frame = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Frame => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isString = (value: unknown, max: number, min = 0): value is string =>
+  typeof value === 'string' && value.length >= min && value.length <= max;
+
+const isId = (value: unknown): value is string => isString(value, ID_MAX_LENGTH, 1);
+
+const isOptional = <T>(value: unknown, check: (v: unknown) => v is T): value is T | undefined => value === undefined || check(value);
+
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+const isBinary = (value: unknown, maxBytes: number): value is ArrayBuffer | ArrayBufferView =>
+  (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) && value.byteLength <= maxBytes;
+
+const isExpiry = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= EXPIRY_MAX_MS;
+
+const MEDIA_TYPES: MessageType[] = ['image', 'audio', 'file'];
+
+export const parseProfile = (value: unknown): UserProfile | null => {
+  if (!isObject(value)) return null;
+  const { uid, publicKey, username, age, gender, interests, location } = value;
+  if (!isString(username, PROFILE_LIMITS.username, 1) || !isString(age, PROFILE_LIMITS.age) || !isString(gender, PROFILE_LIMITS.gender)) return null;
+  if (!isOptional(location, (v): v is string => isString(v, PROFILE_LIMITS.location))) return null;
+  if (!isOptional(uid, isId) || !isOptional(publicKey, (v): v is string => isString(v, KEY_MAX_LENGTH, 1))) return null;
+  if (!Array.isArray(interests) || interests.length > PROFILE_LIMITS.interests || !interests.every(i => isString(i, PROFILE_LIMITS.interest))) return null;
+  return { uid, publicKey, username, age, gender, interests, location: location ?? '' };
+};
+
+const parseReplyInfo = (value: unknown): ReplyInfo | null => {
+  if (!isObject(value)) return null;
+  const { id, text, senderName } = value;
+  if (!isId(id) || !isString(text, MESSAGE_MAX_LENGTH) || !isString(senderName, PROFILE_LIMITS.username)) return null;
+  return { id, text, senderName };
+};
+
+// The fields a 'message' or 'file_start' shares with the message it creates; null if any is invalid
+const parseMessageExtras = (frame: Frame): Pick<PeerData, 'replyTo' | 'expiryDuration' | 'isVanish'> | null => {
+  const replyTo = frame.replyTo === undefined ? undefined : parseReplyInfo(frame.replyTo);
+  if (replyTo === null || !isOptional(frame.expiryDuration, isExpiry) || !isOptional(frame.isVanish, isBoolean)) return null;
+  return { replyTo, expiryDuration: frame.expiryDuration, isVanish: frame.isVanish };
+};
+
+// --- VALIDATORS ---
+// Each returns the rebuilt frame, or null if it is malformed
+const booleanPayload = (type: PeerData['type']) => (f: Frame): PeerData | null =>
+  isBoolean(f.payload) ? { type, payload: f.payload } : null;
+
+const profilePayload = (type: PeerData['type']) => (f: Frame): PeerData | null => {
+  const profile = parseProfile(f.payload);
+  return profile ? { type, payload: profile } : null;
+};
+
+const timestampPayload = (type: PeerData['type']) => (f: Frame): PeerData | null =>
+  typeof f.payload === 'number' && Number.isFinite(f.payload) ? { type, payload: f.payload } : null;
+
+const validators: Record<PeerData['type'], (frame: Frame) => PeerData | null> = {
+  message: f => {
+    const extras = parseMessageExtras(f);
+    if (!extras || !isOptional(f.id, isId)) return null;
+    if (f.dataType === 'text') {
+      return isString(f.payload, MESSAGE_MAX_LENGTH) ? { type: 'message', dataType: 'text', payload: f.payload, id: f.id, ...extras } : null;
+    }
+    const isInlineMedia = MEDIA_TYPES.includes(f.dataType as MessageType) && isString(f.payload, INLINE_MEDIA_MAX_LENGTH) && f.payload.startsWith('data:');
+    return isInlineMedia ? { type: 'message', dataType: f.dataType as MessageType, payload: f.payload, id: f.id, ...extras } : null;
+  },
+  typing: booleanPayload('typing'),
+  recording: booleanPayload('recording'),
+  vanish_mode: booleanPayload('vanish_mode'),
+  disconnect: () => ({ type: 'disconnect' }),
+  profile: f => {
+    const profile = parseProfile(f.payload);
+    if (!profile || !isOptional(f.keyShare, (v): v is string => isString(v, KEY_MAX_LENGTH, 1))) return null;
+    if (!isOptional(f.version, (v): v is number => Number.isInteger(v) && (v as number) >= 0)) return null;
+    return { type: 'profile', payload: profile, keyShare: f.keyShare, version: f.version };
+  },
+  profile_update: profilePayload('profile_update'),
+  friend_request: profilePayload('friend_request'),
+  friend_accept: profilePayload('friend_accept'),
+  reaction: f => isId(f.messageId) && isString(f.payload, REACTION_MAX_LENGTH, 1) ? { type: 'reaction', messageId: f.messageId, payload: f.payload } : null,
+  edit_message: f => isId(f.messageId) && isString(f.payload, MESSAGE_MAX_LENGTH) ? { type: 'edit_message', messageId: f.messageId, payload: f.payload } : null,
+  delivered: f => isId(f.messageId) ? { type: 'delivered', messageId: f.messageId } : null,
+  seen: f => isId(f.messageId) ? { type: 'seen', messageId: f.messageId } : null,
+  ping: timestampPayload('ping'),
+  pong: timestampPayload('pong'),
+  file_start: f => {
+    const extras = parseMessageExtras(f);
+    if (!extras || !isId(f.id) || !MEDIA_TYPES.includes(f.dataType as MessageType) || !isValidManifest(f.payload)) return null;
+    return { type: 'file_start', id: f.id, dataType: f.dataType as MessageType, payload: f.payload, ...extras };
+  },
+  file_chunk: f => {
+    if (!isId(f.messageId) || !isObject(f.payload)) return null;
+    const { index, data } = f.payload;
+    if (!Number.isInteger(index) || (index as number) < 0 || !isBinary(data, TRANSFER_CHUNK_BYTES)) return null;
+    return { type: 'file_chunk', messageId: f.messageId, payload: { index, data } };
+  },
+  file_cancel: f => {
+    if (!isId(f.messageId) || (f.payload !== undefined && f.payload !== 'integrity')) return null;
+    return { type: 'file_cancel', messageId: f.messageId, payload: f.payload };
+  },
+  call_request: f => isId(f.id) ? { type: 'call_request', id: f.id } : null,
+  call_accept: f => isId(f.id) ? { type: 'call_accept', id: f.id } : null,
+  call_decline: f => {
+    if (!isId(f.id) || (f.payload !== undefined && f.payload !== 'busy')) return null;
+    return { type: 'call_decline', id: f.id, payload: f.payload };
+  },
+  call_end: f => isId(f.id) ? { type: 'call_end', id: f.id } : null,
+  encrypted: f => {
+    if (!isObject(f.payload)) return null;
+    const { iv, data } = f.payload;
+    if (!isBinary(iv, 12) || iv.byteLength !== 12 || !isBinary(data, ENCRYPTED_MAX_BYTES)) return null;
+    return { type: 'encrypted', payload: { iv, data } };
+  },
+};
+
+// --- PARSING ---
+
+export const parsePeerData = (value: unknown): ParseResult => {
+  if (!isObject(value) || typeof value.type !== 'string') return { ok: false, reason: 'malformed' };
+  if (!Object.prototype.hasOwnProperty.call(validators, value.type)) return { ok: false, reason: 'unknown_type' };
+  const data = validators[value.type as PeerData['type']](value);
+  return data ? { ok: true, data } : { ok: false, reason: 'malformed' };
+};
+
+// --- RECEIVING ---
+
+// Sent in the clear: the key handshake, heartbeats and hang-ups. Everything else is encrypted with
+// the connection's session key, including friend requests, so a friend is always saved with the
+// identity key their session proved.
+export const CLEARTEXT_TYPES = new Set<PeerData['type']>(['profile', 'ping', 'pong', 'disconnect']);
+
+// A frame straight off the connection: an 'encrypted' envelope to open, a cleartext type to
+// handle, or null. Private types sent unencrypted are dropped.
+export const readFrame = (value: unknown, onMalformed?: () => void): PeerData | null => {
+  const parsed = parsePeerData(value);
+  if (!parsed.ok) {
+    if (parsed.reason === 'malformed') onMalformed?.();
+    return null;
+  }
+  return parsed.data.type === 'encrypted' || CLEARTEXT_TYPES.has(parsed.data.type) ? parsed.data : null;
+};
+
+// The frame inside an opened envelope, or null. Envelopes don't nest, and cleartext types only
+// count on the connection itself.
+export const readSealedFrame = (value: unknown, onMalformed?: () => void): PeerData | null => {
+  const parsed = parsePeerData(value);
+  if (!parsed.ok) {
+    if (parsed.reason === 'malformed') onMalformed?.();
+    return null;
+  }
+  return parsed.data.type !== 'encrypted' && !CLEARTEXT_TYPES.has(parsed.data.type) ? parsed.data : null;
+};
+
+// The version both sides speak, or null if the peer's is too old (a missing version predates versioning)
+export const negotiateVersion = (theirVersion?: number): number | null => {
+  const version = Math.min(PROTOCOL_VERSION, theirVersion ?? 0);
+  return version >= MIN_PROTOCOL_VERSION ? version : null;
+};
@@ -0,0 +1,106 @@
+import { ChatRoom, RoomKind, RoomMember } from '../types';
+import { COMMON_INTERESTS, INDIA_STATES, GENERAL_ROOM_ID, MAX_CUSTOM_ROOM_NAME_LENGTH } from '../constants';
+
+/*
+  Global Meet rooms.
+  - Built-in rooms come from constants: 'general' (the original Global Meet), one per
+    interest and one per state. User-created rooms live in global_rooms (see lib/supabase),
+    which also records when each room last had a message.
+  - Every room has its own Realtime channel, carrying its global_messages rows.
+  - One directory channel carries presence ({ room, username, uid }) for per-room online
+    counts and the people offered for @mentions, plus 'activity' and 'room' broadcasts so
+    the directory stays current without polling.
+*/
+
+export const ROOM_DIRECTORY_CHANNEL = 'global-meet-rooms-v1';
+
+const MIN_ROOM_NAME_LENGTH = 3;
+const MAX_SLUG_LENGTH = 32;
+const ROOM_ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+export const slugify = (name: string) => name
+  .toLowerCase()
+  .normalize('NFKD')
+  .replace(/[\u0300-\u036f]/g, '') // Drop accents
+  .replace(/[^a-z0-9]+/g, '-')
+  .slice(0, MAX_SLUG_LENGTH)
+  .replace(/^-+|-+$/g, '');
+
+export const isRoomId = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= 48 && ROOM_ID_PATTERN.test(value);
+
+const builtInRoom = (kind: RoomKind, id: string, name: string): ChatRoom => ({ id, name, kind, lastActivity: null, onlineCount: 0 });
+
+export const BUILT_IN_ROOMS: ChatRoom[] = [
+  builtInRoom('general', GENERAL_ROOM_ID, 'Global Meet'),
+  ...COMMON_INTERESTS.map(interest => builtInRoom('interest', `interest-${slugify(interest)}`, interest)),
+  ...INDIA_STATES.map(state => builtInRoom('state', `state-${slugify(state)}`, state)),
+];
+
+export const findBuiltInRoom = (id: string) => BUILT_IN_ROOMS.find(room => room.id === id);
+
+// The default room keeps the original channel name
+export const roomChannelName = (roomId: string) =>
+  roomId === GENERAL_ROOM_ID ? 'global-meet-v3' : `global-meet-v3:${roomId}`;
+
+// A random suffix lets two people pick the same name without clashing
+export const newCustomRoomId = (name: string) =>
+  `custom-${slugify(name)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// A user-facing reason the name can't be used, or null if it can
+export const validateRoomName = (name: string, rooms: ChatRoom[]): string | null => {
+  const trimmed = name.trim();
+  if (trimmed.length < MIN_ROOM_NAME_LENGTH) return `Room names need at least ${MIN_ROOM_NAME_LENGTH} characters.`;
+  if (trimmed.length > MAX_CUSTOM_ROOM_NAME_LENGTH) return `Room names can be at most ${MAX_CUSTOM_ROOM_NAME_LENGTH} characters.`;
+  if (!slugify(trimmed)) return "Room names need some letters or numbers.";
+  if (rooms.some(room => room.name.toLowerCase() === trimmed.toLowerCase())) return "A room with that name already exists.";
+  return null;
+};
+
+// Online users per room from directory presence entries
+export const countByRoom = (entries: { room?: unknown }[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  entries.forEach(entry => {
+    if (isRoomId(entry.room)) counts[entry.room] = (counts[entry.room] || 0) + 1;
+  });
+  return counts;
+};
+
+// Everyone else in `roomId`, from the directory's presence state (keyed by peer ID)
+export const membersOfRoom = (state: Record<string, { room?: unknown; username?: unknown; uid?: unknown }[]>, roomId: string, myPeerId: string | null): RoomMember[] =>
+  Object.entries(state).flatMap(([peerId, entries]) => {
+    const entry = entries[0];
+    if (peerId === myPeerId || entry?.room !== roomId || typeof entry.username !== 'string' || !entry.username.trim()) return [];
+    return [{ peerId, username: entry.username.trim(), uid: typeof entry.uid === 'string' ? entry.uid : undefined }];
+  });
+
+// Busiest first: the default room, then people online now, then the latest message, then name
+export const compareByActivity = (a: ChatRoom, b: ChatRoom) =>
+  Number(b.kind === 'general') - Number(a.kind === 'general')
+  || b.onlineCount - a.onlineCount
+  || (b.lastActivity ?? 0) - (a.lastActivity ?? 0)
+  || a.name.localeCompare(b.name);
+
+// Built-in rooms plus known custom rooms, with the freshest activity and online counts.
+// `known` comes from global_rooms; `activity` from broadcasts seen since it was fetched.
+export const buildDirectory = (known: ChatRoom[], activity: Record<string, number>, onlineCounts: Record<string, number>): ChatRoom[] => {
+  const rooms = new Map(BUILT_IN_ROOMS.map(room => [room.id, room]));
+  known.forEach(room => {
+    const existing = rooms.get(room.id);
+    if (existing) {
+      rooms.set(room.id, {
+        ...existing,
+        lastActivity: Math.max(existing.lastActivity ?? 0, room.lastActivity ?? 0) || null,
+        slowModeSeconds: room.slowModeSeconds ?? existing.slowModeSeconds
+      });
+    }
+    else if (room.kind === 'custom') rooms.set(room.id, room);
+  });
+  return [...rooms.values()]
+    .map(room => ({
+      ...room,
+      lastActivity: Math.max(room.lastActivity ?? 0, activity[room.id] ?? 0) || null,
+      onlineCount: onlineCounts[room.id] || 0
+    }))
+    .sort(compareByActivity);
+};
@@ -1,6 +1,11 @@
 
 import { createClient } from '@supabase/supabase-js';
-import { Message, UserProfile } from '../types';
+import { ChatRoom, Message, ModeratorRole, ReplyInfo, ReportContext, UserProfile } from '../types';
+import { GENERAL_ROOM_ID } from '../constants';
+import { getIdentity, sealForRecipient, openSealed } from './e2e';
+import { findBuiltInRoom } from './rooms';
+import { GlobalMessageRow } from './globalMessages';
+import { parsePeerData } from './protocol';
 
 // Credentials injected for instant deployment
 const supabaseUrl = (import.meta as any).env.VITE_SUPABASE_URL || "https://ivvglvpnryiwjdqdsvka.supabase.co";
@@ -26,112 +31,779 @@ export const supabase = createClient(
   --- SQL SETUP INSTRUCTIONS ---
   Run this in your Supabase SQL Editor to enable Global History and Offline Messaging:
 
+  -- 0. Identity
+  -- Each app signs in to Supabase Auth anonymously (enable "Anonymous sign-ins" under
+  -- Authentication → Providers) and binds its uid to that session through claim_uid. Writes
+  -- below take the sender from auth.uid(), never from a uid the client sends.
+  -- uids are public, so owning one takes a secret: the first claim stores the SHA-256 of the
+  -- app's uid secret (localStorage 'chat_uid_secret'), and a later claim from another session
+  -- must present the same secret. That moves the uid to the new session, which is how an app
+  -- gets its uid back after losing its auth session.
+  create table if not exists user_identities (
+    uid text primary key,
+    auth_id uuid not null unique,
+    secret_hash text,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  alter table user_identities add column if not exists secret_hash text;
+  alter table user_identities enable row level security;
+
+  -- The old claim_uid(text) took any unclaimed uid without a secret
+  drop function if exists claim_uid(text);
+
+  -- True when the uid belongs to the calling session (claiming it if nobody has)
+  create or replace function claim_uid(p_uid text, p_secret text) returns boolean as $$
+  declare
+    v_hash text := encode(sha256(convert_to(coalesce(p_secret, ''), 'UTF8')), 'hex');
+    v_row user_identities%rowtype;
+  begin
+    if auth.uid() is null or coalesce(p_uid, '') = '' or length(coalesce(p_secret, '')) < 32 then return false; end if;
+    select * into v_row from user_identities where uid = p_uid for update;
+    if not found then
+      insert into user_identities (uid, auth_id, secret_hash) values (p_uid, auth.uid(), v_hash) on conflict do nothing;
+      return exists (select 1 from user_identities where uid = p_uid and auth_id = auth.uid());
+    end if;
+    if v_row.auth_id = auth.uid() then
+      -- Rows claimed before secrets get one from the session that holds them
+      if v_row.secret_hash is null then update user_identities set secret_hash = v_hash where uid = p_uid; end if;
+      return v_row.secret_hash is null or v_row.secret_hash = v_hash;
+    end if;
+    -- Recovery: the secret moves the uid to this session, unless it already holds another
+    if v_row.secret_hash is distinct from v_hash or exists (select 1 from user_identities where auth_id = auth.uid()) then return false; end if;
+    update user_identities set auth_id = auth.uid() where uid = p_uid;
+    return true;
+  end;
+  $$ language plpgsql security definer set search_path = public;
+
+  -- The caller's verified uid, or null
+  create or replace function current_uid() returns text as $$
+    select uid from user_identities where auth_id = auth.uid();
+  $$ language sql stable security definer set search_path = public;
+
   -- 1. Global Messages Table
   create table if not exists global_messages (
     id bigint generated by default as identity primary key,
-    content text not null,
+    content text,
     sender_id text not null,
     sender_name text not null,
     sender_profile jsonb,
+    room text not null default 'general', -- Room ID (see lib/rooms)
+    client_id text unique,                -- Chosen by the sender's app; makes retries idempotent (see lib/globalMessages)
+    sender_auth uuid not null default auth.uid(), -- The posting session (section 0)
+    sender_uid text,                      -- The sender's verified uid, set by the guard trigger (section 4)
+    reply_to jsonb check (reply_to is null or length(reply_to::text) <= 1000), -- { id, text, senderName } of the quoted message
+    deleted_at timestamp with time zone,  -- Set by a moderator; the content is cleared and kept in moderation_log
+    deleted_by text,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  -- Upgrading an older table:
+  --   alter table global_messages add column if not exists room text not null default 'general';
+  --   alter table global_messages add column if not exists client_id text unique;
+  --   alter table global_messages add column if not exists sender_uid text;
+  --   alter table global_messages add column if not exists sender_auth uuid default auth.uid();
+  --   alter table global_messages add column if not exists deleted_at timestamp with time zone;
+  --   alter table global_messages add column if not exists reply_to jsonb check (reply_to is null or length(reply_to::text) <= 1000);
+  --   alter table global_messages add column if not exists deleted_by text;
+  --   alter table global_messages alter column content drop not null;
+  -- Pages walk back by (created_at, id); an older index on (room, created_at desc) can be dropped
+  create index if not exists global_messages_room_page_idx on global_messages (room, created_at desc, id desc);
+  create index if not exists global_messages_sender_idx on global_messages (sender_uid, room, created_at desc);
+  -- Clients can read and post; posts pass the guard trigger and only moderation functions change rows
+  alter table global_messages enable row level security;
+  create policy "Anyone can read Global Meet" on global_messages for select using (true);
+  create policy "Signed-in apps post as themselves" on global_messages for insert
+    with check (sender_auth = auth.uid() and deleted_at is null);
+  -- Realtime delivery of deletions
+  alter publication supabase_realtime add table global_messages;
+
+  -- 1b. Global Meet Rooms: user-created rooms, and the last message time of every room
+  create table if not exists global_rooms (
+    id text primary key check (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    name text not null,
+    kind text not null default 'custom', -- 'custom' | 'builtin' (built-in rooms are defined in the app)
+    created_by text,                     -- The creator's User ID
+    slow_mode_seconds integer not null default 0, -- Set by moderators (section 4)
+    last_message_at timestamp with time zone,
     created_at timestamp with time zone default timezone('utc'::text, now()) not null
   );
-  alter table global_messages disable row level security;
+  -- Upgrading an older table:
+  --   alter table global_rooms add column if not exists slow_mode_seconds integer not null default 0;
+  alter table global_rooms enable row level security;
+  create policy "Anyone can list rooms" on global_rooms for select using (true);
+  create policy "Signed-in apps can create a custom room" on global_rooms for insert
+    with check (auth.uid() is not null and kind = 'custom' and id like 'custom-%' and slow_mode_seconds = 0 and last_message_at is null);
+  create or replace function touch_global_room() returns trigger as $$
+  begin
+    insert into global_rooms (id, name, kind, last_message_at) values (new.room, new.room, 'builtin', new.created_at)
+    on conflict (id) do update set last_message_at = excluded.last_message_at;
+    return new;
+  end;
+  $$ language plpgsql security definer set search_path = public;
+  drop trigger if exists global_messages_touch_room on global_messages;
+  create trigger global_messages_touch_room after insert on global_messages
+    for each row execute function touch_global_room();
   
-  -- 2. Chat History / Offline Messages Table
+  -- 2. Offline Messages Table (store-and-forward between friends)
   create table if not exists chat_history (
     id bigint generated by default as identity primary key,
-    recipient_id text not null,  -- The User ID receiving the message
-    sender_id text not null,     -- The User ID sending the message
-    content text,
-    type text not null,
+    recipient_id text not null,  -- The recipient's User ID (uid)
+    sender_id text not null,     -- The sender's User ID (uid)
+    message_id text,             -- The sender's message ID, so receipts can find the message
+    content text,                -- Sealed to the recipient's identity key (see lib/e2e); cleared once delivered
+    type text not null,          -- 'encrypted'
+    delivered_at timestamp with time zone, -- Set by the recipient's device when it has the message
+    seen_at timestamp with time zone,      -- Set when the recipient opens the chat
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  -- Upgrading an older table:
+  --   alter table chat_history add column if not exists message_id text;
+  --   alter table chat_history add column if not exists delivered_at timestamp with time zone;
+  --   alter table chat_history add column if not exists seen_at timestamp with time zone;
+  create index if not exists chat_history_recipient_idx on chat_history (recipient_id, delivered_at);
+  create index if not exists chat_history_sender_idx on chat_history (sender_id);
+  -- Rows are visible to their sender and recipient only (section 0 gives the caller's uid). Senders
+  -- write and clear their own rows; receipts go through the functions below, which only touch
+  -- the receipt columns of rows addressed to the caller.
+  alter table chat_history enable row level security;
+  create policy "Senders and recipients read their rows" on chat_history for select
+    using (recipient_id = current_uid() or sender_id = current_uid());
+  create policy "Apps send as themselves" on chat_history for insert
+    with check (sender_id = current_uid() and delivered_at is null and seen_at is null);
+  create policy "Senders clear their rows" on chat_history for delete
+    using (sender_id = current_uid());
+
+  -- Delivery: the row stays as a receipt for the sender, the ciphertext goes
+  create or replace function acknowledge_offline_messages(p_ids bigint[]) returns void as $$
+    update chat_history set delivered_at = timezone('utc'::text, now()), content = null
+    where id = any(p_ids) and recipient_id = current_uid() and delivered_at is null;
+  $$ language sql security definer set search_path = public;
+
+  create or replace function mark_offline_messages_seen(p_sender_uid text, p_message_ids text[]) returns void as $$
+    update chat_history set seen_at = timezone('utc'::text, now())
+    where recipient_id = current_uid() and sender_id = p_sender_uid
+      and message_id = any(p_message_ids) and seen_at is null;
+  $$ language sql security definer set search_path = public;
+
+  -- Realtime delivery: new rows reach the recipient and receipts reach the sender (Realtime
+  -- applies the select policy, so the app subscribes after claiming its uid)
+  alter publication supabase_realtime add table chat_history;
+
+  -- 3. Reports Table (insert-only for clients; review them from the dashboard)
+  create table if not exists reports (
+    id bigint generated by default as identity primary key,
+    reporter_id text not null,    -- The reporter's User ID
+    reported_uid text not null,   -- The reported user's User ID
+    reported_name text,
+    reported_profile jsonb,
+    context text not null,        -- 'random' | 'direct' | 'global'
+    reason text not null,
+    details text,
+    excerpt jsonb,                -- Recent messages: [{ sender, text, timestamp }]
     created_at timestamp with time zone default timezone('utc'::text, now()) not null
   );
-  alter table chat_history disable row level security;
+  -- Reports are filed under the caller's claimed uid (section 0), so nobody can file one as someone else
+  alter table reports enable row level security;
+  drop policy if exists "Anyone can file a report" on reports;
+  create policy "Apps report as themselves" on reports for insert with check (reporter_id = current_uid());
+
+  -- 4. Global Meet Moderation
+  -- There are no accounts, so moderators prove their role with a secret key; only its SHA-256
+  -- is stored. Add one from the dashboard:
+  --   insert into global_moderators (uid, role, key_hash)
+  --   values ('<their uid>', 'moderator', encode(sha256(convert_to('<their key>', 'UTF8')), 'hex'));
+  -- Presenting the key from the app that owns that uid (section 0) attaches the role to its auth
+  -- session; every moderation check and exemption then goes by auth.uid().
+  -- Moderators delete messages, mute and set slow mode; admins can also ban. The tables below
+  -- have RLS on and no policies: clients only reach them through the functions.
+  create table if not exists global_moderators (
+    uid text primary key,
+    role text not null check (role in ('moderator', 'admin')),
+    key_hash text not null,
+    auth_id uuid unique,              -- The session signed in with the key, if any
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  -- Upgrading an older table:
+  --   alter table global_moderators add column if not exists auth_id uuid unique;
+  alter table global_moderators enable row level security;
+
+  create table if not exists global_sanctions (
+    id bigint generated by default as identity primary key,
+    target_uid text not null,
+    kind text not null check (kind in ('mute', 'ban')),
+    room text,                        -- null = every room
+    expires_at timestamp with time zone, -- null = until lifted (bans only)
+    reason text,
+    created_by text not null,
+    lifted_at timestamp with time zone,
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  create index if not exists global_sanctions_target_idx on global_sanctions (target_uid) where lifted_at is null;
+  alter table global_sanctions enable row level security;
+
+  -- Append-only record of every moderation action
+  create table if not exists moderation_log (
+    id bigint generated by default as identity primary key,
+    moderator_uid text not null,
+    action text not null,             -- 'delete_message' | 'mute' | 'ban' | 'lift' | 'slow_mode'
+    target_uid text,
+    room text,
+    message_id text,
+    details jsonb,                    -- e.g. the deleted content, durations, the reason
+    created_at timestamp with time zone default timezone('utc'::text, now()) not null
+  );
+  alter table moderation_log enable row level security;
+
+  -- The calling session's role, or null
+  create or replace function moderation_role() returns text as $$
+    select role from global_moderators where auth_id = auth.uid();
+  $$ language sql stable security definer set search_path = public;
+
+  create or replace function moderation_sign_in(p_key text) returns text as $$
+  declare
+    granted text;
+  begin
+    update global_moderators set auth_id = null where auth_id = auth.uid();
+    update global_moderators set auth_id = auth.uid()
+    where uid = current_uid() and key_hash = encode(sha256(convert_to(coalesce(p_key, ''), 'UTF8')), 'hex')
+    returning role into granted;
+    return granted;
+  end;
+  $$ language plpgsql security definer set search_path = public;
+
+  create or replace function moderation_sign_out() returns void as $$
+    update global_moderators set auth_id = null where auth_id = auth.uid();
+  $$ language sql security definer set search_path = public;
+
+  create or replace function active_sanction(p_uid text, p_room text) returns global_sanctions as $$
+    select * from global_sanctions
+    where target_uid = p_uid and lifted_at is null
+      and (expires_at is null or expires_at > now()) and (room is null or room = p_room)
+    order by (kind = 'ban') desc, expires_at desc nulls first limit 1;
+  $$ language sql stable security definer set search_path = public;
+
+  -- Write-path enforcement: errors come back to the client as 'banned' | 'muted' | 'slow_mode'
+  create or replace function guard_global_message() returns trigger as $$
+  declare
+    sanction global_sanctions;
+    slow integer;
+  begin
+    new.sender_auth := auth.uid();
+    new.sender_uid := current_uid();
+    if new.sender_uid is null then raise exception 'not_signed_in'; end if;
+    -- Others see the verified uid, whatever the profile said
+    new.sender_profile := coalesce(new.sender_profile, '{}'::jsonb) || jsonb_build_object('uid', new.sender_uid);
+    new.created_at := now();
+    new.deleted_at := null;
+    new.deleted_by := null;
+    if moderation_role() is not null then return new; end if;
+
+    sanction := active_sanction(new.sender_uid, new.room);
+    if sanction.id is not null then
+      raise exception '%', case when sanction.kind = 'ban' then 'banned' else 'muted' end
+        using detail = coalesce(sanction.expires_at::text, '');
+    end if;
+
+    select slow_mode_seconds into slow from global_rooms where id = new.room;
+    if coalesce(slow, 0) > 0 and exists (
+      select 1 from global_messages
+      where sender_uid = new.sender_uid and room = new.room and created_at > now() - make_interval(secs => slow)
+    ) then
+      raise exception 'slow_mode' using detail = slow::text;
+    end if;
+    return new;
+  end;
+  $$ language plpgsql security definer set search_path = public;
+  drop trigger if exists global_messages_guard on global_messages;
+  create trigger global_messages_guard before insert on global_messages
+    for each row execute function guard_global_message();
+
+  -- Banned users can't create rooms either
+  create or replace function guard_global_room() returns trigger as $$
+  begin
+    if new.kind <> 'custom' then return new; end if;
+    new.created_by := current_uid();
+    if new.created_by is null then raise exception 'not_signed_in'; end if;
+    if (active_sanction(new.created_by, new.id)).kind = 'ban' then raise exception 'banned'; end if;
+    return new;
+  end;
+  $$ language plpgsql security definer set search_path = public;
+  drop trigger if exists global_rooms_guard on global_rooms;
+  create trigger global_rooms_guard before insert on global_rooms
+    for each row execute function guard_global_room();
+
+  create or replace function moderation_delete_message(p_message_id text, p_reason text default null)
+  returns void as $$
+  declare
+    msg global_messages;
+  begin
+    if moderation_role() is null then raise exception 'not_moderator'; end if;
+    select * into msg from global_messages
+    where (client_id = p_message_id or id::text = p_message_id) and deleted_at is null limit 1;
+    if msg.id is null then return; end if;
+    update global_messages set deleted_at = now(), deleted_by = current_uid(), content = null, reply_to = null where id = msg.id;
+    insert into moderation_log (moderator_uid, action, target_uid, room, message_id, details)
+    values (current_uid(), 'delete_message', msg.sender_uid, msg.room, p_message_id,
+            jsonb_build_object('content', msg.content, 'reply_to', msg.reply_to, 'sender_name', msg.sender_name, 'reason', p_reason));
+  end;
+  $$ language plpgsql security definer set search_path = public;
+
+  -- p_minutes null = until lifted, which only a ban may be
+  create or replace function moderation_sanction(p_target_uid text, p_kind text, p_room text, p_minutes integer,
+                                                 p_reason text default null)
+  returns void as $$
+  declare
+    role text := moderation_role();
+  begin
+    if role is null then raise exception 'not_moderator'; end if;
+    if p_kind not in ('mute', 'ban') then raise exception 'invalid_kind'; end if;
+    if p_kind = 'ban' and role <> 'admin' then raise exception 'not_admin'; end if;
+    if p_kind = 'mute' and (p_minutes is null or p_minutes <= 0) then raise exception 'mute_needs_duration'; end if;
+    insert into global_sanctions (target_uid, kind, room, expires_at, reason, created_by)
+    values (p_target_uid, p_kind, p_room, case when p_minutes is null then null else now() + make_interval(mins => p_minutes) end, p_reason, current_uid());
+    insert into moderation_log (moderator_uid, action, target_uid, room, details)
+    values (current_uid(), p_kind, p_target_uid, p_room, jsonb_build_object('minutes', p_minutes, 'reason', p_reason));
+  end;
+  $$ language plpgsql security definer set search_path = public;
+
+  create or replace function moderation_lift(p_target_uid text) returns void as $$
+  declare
+    role text := moderation_role();
+  begin
+    if role is null then raise exception 'not_moderator'; end if;
+    -- Moderators can lift mutes; only admins lift bans
+    update global_sanctions set lifted_at = now()
+    where target_uid = p_target_uid and lifted_at is null and (kind = 'mute' or role = 'admin');
+    insert into moderation_log (moderator_uid, action, target_uid) values (current_uid(), 'lift', p_target_uid);
+  end;
+  $$ language plpgsql security definer set search_path = public;
+
+  create or replace function moderation_set_slow_mode(p_room text, p_seconds integer) returns void as $$
+  begin
+    if moderation_role() is null then raise exception 'not_moderator'; end if;
+    if p_seconds < 0 or p_seconds > 3600 then raise exception 'invalid_slow_mode'; end if;
+    insert into global_rooms (id, name, kind, slow_mode_seconds) values (p_room, p_room, 'builtin', p_seconds)
+    on conflict (id) do update set slow_mode_seconds = excluded.slow_mode_seconds;
+    insert into moderation_log (moderator_uid, action, room, details)
+    values (current_uid(), 'slow_mode', p_room, jsonb_build_object('seconds', p_seconds));
+  end;
+  $$ language plpgsql security definer set search_path = public;
 */
 
+// --- IDENTITY ---
+// Signs in anonymously (the session persists in localStorage) and binds our uid to the session,
+// once per page load. False when the uid belongs to someone else or auth is down.
+
+const UID_SECRET_STORAGE_KEY = 'chat_uid_secret';
+
+let identityClaim: { uid: string; ready: Promise<boolean> } | null = null;
+
+// Proves the uid is ours to claim_uid; it never leaves this browser except in that call
+const getUidSecret = (): string => {
+  let secret = localStorage.getItem(UID_SECRET_STORAGE_KEY);
+  if (!secret) {
+    secret = Array.from(crypto.getRandomValues(new Uint8Array(32)), b => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(UID_SECRET_STORAGE_KEY, secret);
+  }
+  return secret;
+};
+
+const claimIdentity = async (uid: string): Promise<boolean> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      const { error } = await supabase.auth.signInAnonymously();
+      if (error) {
+        console.warn("Anonymous sign-in failed:", error.message);
+        return false;
+      }
+    }
+    const { data, error } = await supabase.rpc('claim_uid', { p_uid: uid, p_secret: getUidSecret() });
+    if (error) console.warn("Identity claim failed:", error.message);
+    return data === true;
+  } catch (e) {
+    return false;
+  }
+};
+
+export const ensureIdentity = (uid: string | undefined): Promise<boolean> => {
+  if (!uid) return Promise.resolve(false);
+  if (identityClaim?.uid !== uid) {
+    const claim = { uid, ready: claimIdentity(uid) };
+    identityClaim = claim;
+    // A failed claim is tried again next time
+    claim.ready.then(ok => { if (!ok && identityClaim === claim) identityClaim = null; });
+  }
+  return identityClaim.ready;
+};
+
 // --- GLOBAL MEET FUNCTIONS ---
 
-export const getGlobalMessages = async (): Promise<any[]> => {
+export const GLOBAL_PAGE_SIZE = 50;
+const ROOM_DIRECTORY_LIMIT = 200;
+
+// The oldest row fetched so far. created_at stays the raw string: as a JS timestamp it would
+// lose Postgres' microseconds and skip rows.
+export interface GlobalHistoryCursor {
+  createdAt: string;
+  id: number;
+}
+
+export const globalHistoryCursor = (row: GlobalMessageRow): GlobalHistoryCursor => ({ createdAt: row.created_at, id: Number(row.id) });
+
+// Newest first: the latest page, or the page just before `before`. Null when the fetch failed.
+export const getGlobalMessages = async (roomId: string = GENERAL_ROOM_ID, before?: GlobalHistoryCursor): Promise<GlobalMessageRow[] | null> => {
   try {
-    const { data, error } = await supabase
+    let query = supabase
       .from('global_messages')
       .select('*')
+      .eq('room', roomId);
+    if (before) {
+      query = query.or(`created_at.lt."${before.createdAt}",and(created_at.eq."${before.createdAt}",id.lt.${before.id})`);
+    }
+    const { data, error } = await query
       .order('created_at', { ascending: false })
-      .limit(50);
+      .order('id', { ascending: false })
+      .limit(GLOBAL_PAGE_SIZE)
+      .returns<GlobalMessageRow[]>();
 
     if (error) {
       console.warn("History fetch failed:", error.message);
-      return [];
+      return null;
     }
     return data || [];
   } catch (err) {
-    return [];
+    return null;
   }
 };
 
-export const insertGlobalMessage = async (text: string, userProfile: UserProfile, peerId: string) => {
+// Why the guard trigger refused a post (see sections 0 and 4 of the SQL above)
+export type PostRejection =
+  | { reason: 'banned' | 'muted'; until: number | null }
+  | { reason: 'slow_mode'; seconds: number }
+  | { reason: 'not_signed_in' };
+
+const toPostRejection = (error: { message?: string; details?: string }): PostRejection | null => {
+  if (error.message === 'not_signed_in') return { reason: 'not_signed_in' };
+  if (error.message === 'banned' || error.message === 'muted') {
+    return { reason: error.message, until: error.details ? new Date(error.details).getTime() : null };
+  }
+  if (error.message === 'slow_mode') return { reason: 'slow_mode', seconds: Number(error.details) || 0 };
+  return null;
+};
+
+// Safe to repeat: a second insert with the same client ID is ignored
+export const insertGlobalMessage = async (clientId: string, text: string, userProfile: UserProfile, peerId: string, roomId: string = GENERAL_ROOM_ID, replyTo?: ReplyInfo) => {
   try {
-    const { error } = await supabase.from('global_messages').insert({
+    if (!await ensureIdentity(userProfile.uid)) {
+      return { error: new Error('not_signed_in'), rejection: { reason: 'not_signed_in' } as PostRejection };
+    }
+    const { error } = await supabase.from('global_messages').upsert({
+      client_id: clientId,
       content: text,
       sender_id: peerId,
       sender_name: userProfile.username,
-      sender_profile: userProfile
+      sender_profile: userProfile,
+      room: roomId,
+      reply_to: replyTo || null
+    }, { onConflict: 'client_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.warn("Global Meet insert failed:", error.message);
+      return { error, rejection: toPostRejection(error) };
+    }
+    return { error: null, rejection: null };
+  } catch (e) {
+    console.warn("Global Meet insert exception:", e);
+    return { error: e, rejection: null };
+  }
+};
+
+// Custom rooms, plus the last message time of built-in ones (unknown built-in rows are dropped)
+export const getGlobalRooms = async (): Promise<ChatRoom[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('global_rooms')
+      .select('id, name, kind, created_by, slow_mode_seconds, last_message_at')
+      .order('last_message_at', { ascending: false, nullsFirst: false })
+      .limit(ROOM_DIRECTORY_LIMIT);
+
+    if (error) {
+      console.warn("Room directory fetch failed:", error.message);
+      return [];
+    }
+    return (data || []).flatMap((row: any): ChatRoom[] => {
+      const kind = row.kind === 'custom' ? 'custom' : findBuiltInRoom(row.id)?.kind;
+      if (!kind) return [];
+      return [{
+        id: row.id,
+        name: row.name,
+        kind,
+        createdBy: row.created_by || undefined,
+        slowModeSeconds: row.slow_mode_seconds || 0,
+        lastActivity: row.last_message_at ? new Date(row.last_message_at).getTime() : null,
+        onlineCount: 0
+      }];
     });
+  } catch (err) {
+    return [];
+  }
+};
 
+export const createGlobalRoom = async (room: ChatRoom): Promise<boolean> => {
+  try {
+    if (!await ensureIdentity(room.createdBy)) return false;
+    const { error } = await supabase.from('global_rooms').insert({
+      id: room.id,
+      name: room.name,
+      kind: 'custom',
+      created_by: room.createdBy
+    });
     if (error) {
-      console.warn("DB Insert Failed (using broadcast only):", error.message);
-      return { error };
+      console.warn("Room creation failed:", error.message);
+      return false;
     }
-    return { error: null };
+    return true;
   } catch (e) {
-    console.warn("DB Exception:", e);
-    return { error: e };
+    return false;
   }
 };
 
+// --- MODERATION FUNCTIONS ---
+// A moderator signs in once with their key; the role is then attached to our auth session and
+// the database checks and logs every action against it.
+
+export type SanctionKind = 'mute' | 'ban';
+
+const toRole = (value: unknown): ModeratorRole | null => value === 'moderator' || value === 'admin' ? value : null;
+
+const moderate = async (fn: string, args: Record<string, unknown>): Promise<boolean> => {
+  try {
+    const { error } = await supabase.rpc(fn, args);
+    if (error) {
+      console.warn(`Moderation (${fn}) failed:`, error.message);
+      return false;
+    }
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Null when the key doesn't belong to our uid
+export const signInModerator = async (uid: string, key: string): Promise<ModeratorRole | null> => {
+  try {
+    if (!await ensureIdentity(uid)) return null;
+    const { data, error } = await supabase.rpc('moderation_sign_in', { p_key: key });
+    return error ? null : toRole(data);
+  } catch (e) {
+    return null;
+  }
+};
+
+export const signOutModerator = () => moderate('moderation_sign_out', {});
+
+export const deleteGlobalMessage = (messageId: string, reason?: string) =>
+  moderate('moderation_delete_message', { p_message_id: messageId, p_reason: reason ?? null });
+
+// `minutes` null bans until lifted; `roomId` null applies to every room
+export const sanctionUser = (targetUid: string, kind: SanctionKind, roomId: string | null, minutes: number | null, reason?: string) =>
+  moderate('moderation_sanction', { p_target_uid: targetUid, p_kind: kind, p_room: roomId, p_minutes: minutes, p_reason: reason ?? null });
+
+export const liftSanctions = (targetUid: string) =>
+  moderate('moderation_lift', { p_target_uid: targetUid });
+
+export const setRoomSlowMode = (roomId: string, seconds: number) =>
+  moderate('moderation_set_slow_mode', { p_room: roomId, p_seconds: seconds });
+
 // --- OFFLINE MESSAGING FUNCTIONS ---
+// Friends who aren't connected get messages through chat_history, addressed by uid. The
+// recipient marks rows delivered (dropping the ciphertext) and later seen; the sender hears
+// about both over realtime, and deletes rows once they are seen. Row access is checked against
+// the uid our session has claimed (see IDENTITY), so each call claims it first.
 
-export const sendOfflineMessage = async (recipientId: string, senderId: string, message: Message) => {
+const OFFLINE_BATCH_SIZE = 50;
+
+export interface OfflineReceipt {
+  rowId: number;
+  recipientUid: string;
+  messageId: string;
+  status: 'delivered' | 'seen';
+}
+
+// The server only ever sees an envelope sealed to the recipient's identity key
+export const sendOfflineMessage = async (recipientUid: string, senderUid: string, message: Message, recipientKey: string) => {
   try {
+    if (!await ensureIdentity(senderUid)) return false;
+    // Offline delivery carries text only (see openOfflineMessage)
+    const body = JSON.stringify({ id: message.id, type: 'text', text: message.text, replyTo: message.replyTo });
     const { error } = await supabase.from('chat_history').insert({
-      recipient_id: recipientId,
-      sender_id: senderId,
-      content: message.fileData || message.text, // Store text or base64
-      type: message.type
+      recipient_id: recipientUid,
+      sender_id: senderUid,
+      message_id: message.id,
+      content: await sealForRecipient(await getIdentity(), recipientKey, body),
+      type: 'encrypted'
     });
     
     if (error) console.warn("Offline send failed:", error.message);
+    return !error;
   } catch (e) {
     console.warn("Offline send exception:", e);
+    return false;
   }
 };
 
-export const fetchOfflineMessages = async (myPeerId: string): Promise<any[]> => {
+// Undelivered messages for us, oldest first
+export const fetchOfflineMessages = async (myUid: string): Promise<any[]> => {
   try {
-    // Get messages sent TO me
+    if (!await ensureIdentity(myUid)) return [];
     const { data, error } = await supabase
       .from('chat_history')
       .select('*')
-      .eq('recipient_id', myPeerId)
+      .eq('recipient_id', myUid)
+      .is('delivered_at', null)
       .order('created_at', { ascending: true })
-      .limit(50);
+      .limit(OFFLINE_BATCH_SIZE);
 
     if (error) return [];
-    
-    // Optional: Delete fetched messages so they don't appear again? 
-    // For now, we keep them as history.
-    
     return data || [];
   } catch (e) {
     return [];
   }
 };
 
-// --- LEGACY HISTORY (Optional) ---
-export const saveMessageToHistory = async (userId: string, message: Message) => {
-  // Logic moved to sendOfflineMessage mostly, but keeping for compatibility if needed
+// Delivery acknowledgement: the row stays as a receipt for the sender, the ciphertext goes
+export const acknowledgeOfflineMessages = async (rowIds: number[]) => {
+  if (rowIds.length === 0) return true;
+  const { error } = await supabase.rpc('acknowledge_offline_messages', { p_ids: rowIds });
+  if (error) console.warn("Offline ack failed:", error.message);
+  return !error;
 };
 
-export const fetchChatHistory = async (userId: string): Promise<Message[]> => {
-  return [];
+export const markOfflineMessagesSeen = async (myUid: string, senderUid: string, messageIds: string[]) => {
+  if (messageIds.length === 0 || !await ensureIdentity(myUid)) return;
+  const { error } = await supabase.rpc('mark_offline_messages_seen', { p_sender_uid: senderUid, p_message_ids: messageIds });
+  if (error) console.warn("Offline seen receipt failed:", error.message);
+};
+
+const toReceipt = (row: any): OfflineReceipt | null => {
+  if (typeof row?.message_id !== 'string' || !row.delivered_at) return null;
+  return { rowId: row.id, recipientUid: row.recipient_id, messageId: row.message_id, status: row.seen_at ? 'seen' : 'delivered' };
+};
+
+// Receipts for messages we sent while the recipient was away
+export const fetchOfflineReceipts = async (myUid: string): Promise<OfflineReceipt[]> => {
+  try {
+    if (!await ensureIdentity(myUid)) return [];
+    const { data, error } = await supabase
+      .from('chat_history')
+      .select('id, recipient_id, message_id, delivered_at, seen_at')
+      .eq('sender_id', myUid)
+      .not('delivered_at', 'is', null);
+    if (error) return [];
+    return (data || []).map(toReceipt).filter((r): r is OfflineReceipt => !!r);
+  } catch (e) {
+    return [];
+  }
+};
+
+// Seen is the last receipt, so the row has nothing left to say
+export const deleteOfflineRows = async (rowIds: number[]) => {
+  if (rowIds.length === 0) return;
+  const { error } = await supabase.from('chat_history').delete().in('id', rowIds);
+  if (error) console.warn("Offline cleanup failed:", error.message);
+};
+
+// New rows addressed to us and receipts on rows we sent, as they happen. Call once
+// ensureIdentity(myUid) has resolved: until then the select policy hides every row.
+export const subscribeToOfflineMessages = (myUid: string, onMessage: (row: any) => void, onReceipt: (receipt: OfflineReceipt) => void) => {
+  const channel = supabase.channel(`offline-${myUid}`)
+    .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'chat_history', filter: `recipient_id=eq.${myUid}` }, payload => onMessage(payload.new))
+    .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'chat_history', filter: `sender_id=eq.${myUid}` }, payload => {
+      const receipt = toReceipt(payload.new);
+      if (receipt) onReceipt(receipt);
+    })
+    .subscribe();
+  return () => { supabase.removeChannel(channel); };
+};
+
+// Null for rows that aren't sealed to us or don't decode to a text message. `senderKey` is the
+// identity key that sealed it; sender_id is just a column anyone can write. Apps only leave
+// text offline, and the body gets the same checks as a P2P 'message' frame (lib/protocol).
+
+export const openOfflineMessage = async (row: any): Promise<{ message: Message; senderKey: string } | null> => {
+  if (row?.type !== 'encrypted' || typeof row.content !== 'string') return null;
+  const opened = await openSealed(await getIdentity(), row.content);
+  if (!opened) return null;
+
+  try {
+    const body = JSON.parse(opened.plaintext);
+    if (body?.type !== 'text') return null;
+    const parsed = parsePeerData({ type: 'message', dataType: 'text', payload: body.text, id: body.id || undefined, replyTo: body.replyTo ?? undefined });
+    if (!parsed.ok) return null;
+    const message: Message = {
+      // The sender's ID, so their receipts and a copy arriving over P2P line up
+      id: parsed.data.id || row.id.toString(),
+      text: parsed.data.payload,
+      type: 'text',
+      sender: 'stranger',
+      timestamp: new Date(row.created_at).getTime(),
+      reactions: [],
+      replyTo: parsed.data.replyTo
+    };
+    return { message, senderKey: opened.senderKey };
+  } catch (e) {
+    return null;
+  }
+};
+
+// --- REPORTS ---
+
+export interface ReportExcerptEntry {
+  sender: string;
+  text: string;
+  timestamp: number;
+}
+
+// Media is described rather than uploaded so reports stay small
+export const toReportExcerpt = (messages: Message[], reportedName: string, limit: number): ReportExcerptEntry[] => {
+  return messages
+    .filter(m => m.sender !== 'system')
+    .slice(-limit)
+    .map(m => ({
+      sender: m.sender === 'me' ? 'reporter' : (m.senderName || reportedName),
+      text: m.type === 'text' ? (m.text || '').slice(0, 500) : `[${m.type}]`,
+      timestamp: m.timestamp
+    }));
+};
+
+export const submitReport = async (report: {
+  reporterId: string;
+  reported: UserProfile;
+  context: ReportContext;
+  reason: string;
+  details?: string;
+  excerpt: ReportExcerptEntry[];
+}) => {
+  try {
+    if (!await ensureIdentity(report.reporterId)) return { error: new Error('Could not verify the reporter') };
+    const { error } = await supabase.from('reports').insert({
+      reporter_id: report.reporterId,
+      reported_uid: report.reported.uid,
+      reported_name: report.reported.username,
+      reported_profile: report.reported,
+      context: report.context,
+      reason: report.reason,
+      details: report.details || null,
+      excerpt: report.excerpt
+    });
+
+    if (error) {
+      console.warn("Report insert failed:", error.message);
+      return { error };
+    }
+    return { error: null };
+  } catch (e) {
+    console.warn("Report exception:", e);
+    return { error: e };
+  }
 };
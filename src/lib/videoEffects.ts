@@ -0,0 +1,39 @@
+// Frames per second for processed video; timers keep running in background tabs, unlike rAF
+const EFFECT_FPS = 24;
+const BLUR_RADIUS_PX = 18;
+
+export interface ProcessedTrack {
+  track: MediaStreamTrack;
+  stop: () => void;
+}
+
+// A copy of a camera track with a heavy blur drawn in, so the partner only ever receives the blurred frames
+export const createBlurredTrack = (source: MediaStreamTrack): ProcessedTrack => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = new MediaStream([source]);
+  video.play().catch(() => {});
+
+  const { width = 640, height = 480 } = source.getSettings();
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  const timer = setInterval(() => {
+    if (video.readyState < 2) return;
+    ctx.filter = `blur(${BLUR_RADIUS_PX}px)`;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  }, 1000 / EFFECT_FPS);
+
+  const [track] = canvas.captureStream(EFFECT_FPS).getVideoTracks();
+  return {
+    track,
+    stop: () => {
+      clearInterval(timer);
+      track.stop();
+      video.srcObject = null;
+    }
+  };
+};
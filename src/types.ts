@@ -4,6 +4,7 @@ export enum ChatMode {
   SEARCHING = 'SEARCHING',
   WAITING = 'WAITING',
   CONNECTED = 'CONNECTED',
+  RECONNECTING = 'RECONNECTING', // Connection dropped; trying to resume the same chat
   DISCONNECTED = 'DISCONNECTED',
   ERROR = 'ERROR'
 }
@@ -12,6 +13,7 @@ export type SessionType = 'random' | 'direct';
 
 export interface UserProfile {
   uid?: string; // Stable User ID for friend matching
+  publicKey?: string; // End-to-end identity key (base64 P-256), see lib/e2e
   username: string;
   age: string;
   gender: string;
@@ -19,7 +21,14 @@ export interface UserProfile {
   location: string;
 }
 
-export type MessageType = 'text' | 'image' | 'audio';
+export type MessageType = 'text' | 'image' | 'audio' | 'file';
+
+// Metadata shown on the download card of a 'file' message
+export interface FileInfo {
+  name: string;
+  size: number; // Bytes
+  mimeType: string;
+}
 
 export interface Reaction {
   emoji: string;
@@ -32,10 +41,17 @@ export interface ReplyInfo {
   senderName: string;
 }
 
+// Delivery state of a message; it only ever moves forward
+export type MessageStatus = 'sent' | 'delivered' | 'seen';
+
+// Global Meet messages we sent that the database hasn't confirmed (yet)
+export type SendState = 'pending' | 'failed';
+
 export interface Message {
   id: string;
   text?: string;
-  fileData?: string; // Base64 string for images/audio
+  fileData?: string; // Base64 string for images/audio/files
+  fileInfo?: FileInfo; // Only for 'file' messages
   type: MessageType;
   sender: 'me' | 'stranger' | 'system';
   senderName?: string; // Added for Global Chat identification
@@ -45,21 +61,88 @@ export interface Message {
   isVanish?: boolean;
   reactions?: Reaction[]; // Added for reactions
   isEdited?: boolean; // Added for edit status
-  status?: 'sent' | 'seen'; // Added for read receipts
+  status?: MessageStatus; // Our messages: how far they got. Theirs: 'seen' once we sent the receipt
+  sendState?: SendState; // Global Meet: unset once the row is stored
+  isDeleted?: boolean; // Global Meet: removed by a moderator (text is cleared)
   replyTo?: ReplyInfo; // Added for Reply functionality
   expiryDuration?: number; // Duration in ms
   expiresAt?: number; // Timestamp when it expires
+  isStreaming?: boolean; // AI reply still arriving token by token
+}
+
+// Progress of a chunked image/audio transfer, keyed by message ID
+export interface TransferState {
+  peerId: string;
+  direction: 'upload' | 'download';
+  dataType: MessageType;
+  loaded: number; // Bytes
+  total: number;
+  status: 'active' | 'done' | 'failed' | 'cancelled';
+  startedAt: number;
+}
+
+// Sent in 'file_start' before the chunks; the receiver checks the assembled file against it
+export interface TransferManifest {
+  mimeType: string;
+  size: number;
+  chunkCount: number;
+  sha256: string; // Hex digest of the whole file
+  name?: string; // Only for 'file' transfers
 }
 
 export interface PeerData {
-  type: 'message' | 'typing' | 'recording' | 'disconnect' | 'profile' | 'profile_update' | 'vanish_mode' | 'reaction' | 'edit_message' | 'friend_request' | 'friend_accept' | 'seen';
+  type: 'message' | 'typing' | 'recording' | 'disconnect' | 'profile' | 'profile_update' | 'vanish_mode' | 'reaction' | 'edit_message' | 'friend_request' | 'friend_accept' | 'delivered' | 'seen' | 'ping' | 'pong' | 'file_start' | 'file_chunk' | 'file_cancel' | 'encrypted' | 'call_request' | 'call_accept' | 'call_decline' | 'call_end';
   payload?: any;
   dataType?: MessageType;
-  messageId?: string; // For targeting specific messages (reactions/edits/seen)
+  messageId?: string; // For targeting specific messages (reactions/edits/receipts)
   id?: string; // For syncing message IDs across peers
   replyTo?: ReplyInfo; // Added for syncing replies
   expiryDuration?: number; // Added for disappearing images
   isVanish?: boolean; // Added for syncing vanish mode per message
+  keyShare?: string; // Sent with 'profile': this connection's ECDH key share
+  version?: number; // Sent with 'profile': the highest protocol version the sender speaks
+}
+
+// A live voice call, signalled over the chat's DataConnection and carried by a PeerJS media connection
+export interface CallState {
+  id: string;
+  peerId: string;
+  profile?: UserProfile; // The other side, for the call screen
+  direction: 'outgoing' | 'incoming';
+  status: 'ringing' | 'connecting' | 'active';
+  startedAt?: number; // When audio started flowing
+  isMuted: boolean;
+}
+
+// ICE candidate types, from most to least direct
+export type IceCandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// How a connection reached the other side, from the selected ICE candidate pair
+export interface ConnectionRoute {
+  local: IceCandidateType;
+  remote: IceCandidateType;
+  protocol: string; // 'udp' | 'tcp'
+}
+
+// One peer connection attempt, for the diagnostics panel
+export interface ConnectionAttempt {
+  id: string; // PeerJS connectionId
+  peerId: string;
+  kind: ConnectionMetadata['type'];
+  startedAt: number;
+  status: 'connecting' | 'connected' | 'failed';
+  openedAt?: number;
+  route?: ConnectionRoute;
+  failure?: string; // Why it failed, in words
+}
+
+// Who a user is willing to be matched with. Empty lists mean "anyone".
+export interface MatchPreferences {
+  genders: string[];
+  ageBrackets: string[];
+  sameStateOnly: boolean;
+  fallbackAfterMs: number | null; // Match with anyone after this long (null = never)
+  videoMode?: boolean; // Video chat; only ever paired with others in video mode
 }
 
 // Presence state for the lobby
@@ -68,6 +151,7 @@ export interface PresenceState {
   status: 'waiting' | 'paired' | 'busy';
   timestamp: number;
   profile?: UserProfile; // Added to show names in Online list
+  preferences?: MatchPreferences; // Sent while waiting so matching can be enforced mutually
 }
 
 export interface RecentPeer {
@@ -89,13 +173,53 @@ export interface FriendRequest {
   profile: UserProfile;
 }
 
+export interface BlockedUser {
+  uid: string; // Blocks follow the stable user ID, not the per-session peer ID
+  username: string;
+  blockedAt: number;
+}
+
+// Global Meet rooms: the default room, one per interest and state, and user-created ones
+export type RoomKind = 'general' | 'interest' | 'state' | 'custom';
+
+export interface ChatRoom {
+  id: string; // Slug, e.g. 'interest-anime' or 'state-kerala'
+  name: string;
+  kind: RoomKind;
+  createdBy?: string; // Creator's uid, for custom rooms
+  lastActivity: number | null; // Last message, as far as we know
+  onlineCount: number; // From directory presence
+  slowModeSeconds?: number; // Minimum gap between one user's messages, set by moderators
+}
+
+// Someone in the same Global Meet room, from directory presence; offered for @mentions
+export interface RoomMember {
+  peerId: string;
+  username: string;
+  uid?: string;
+}
+
+// Global Meet moderation; admins can also ban
+export type ModeratorRole = 'moderator' | 'admin';
+
+// A Global Meet message that mentions us or replies to one of ours
+export interface MentionEvent {
+  message: Message;
+  kind: 'mention' | 'reply';
+}
+
+// Where a report was filed from
+export type ReportContext = 'random' | 'direct' | 'global';
+
 export interface AppSettings {
   vanishMode: boolean;
+  fullResolutionImages?: boolean; // Send photos as picked instead of shrinking them to 800px
 }
 
 // Metadata to distinguish connection intent
 export interface ConnectionMetadata {
-  type: 'random' | 'direct';
+  type: 'random' | 'direct' | 'resume';
+  sessionToken?: string; // Chosen by the dialer of a random chat; proves a 'resume' belongs to it
 }
 
 export interface DirectMessageEvent {